@@ -0,0 +1,79 @@
+/**
+ * Build step: writes a static `dist/hero/<id>/index.html` for every approved hero.
+ * Each page is the built index.html with the link-preview block (between the meta:start / meta:end
+ * comments) swapped for that hero's tags, so crawlers that do not run JavaScript get a real preview,
+ * and GitHub Pages serves the page directly instead of bouncing through 404.html.
+ * Next to it goes `preview.png`, the server-rendered tombstone used as the page's og:image.
+ *
+ * Run after `vite build`: `npm run prerender`. Needs VITE_SUPABASE_URL, VITE_SUPABASE_ANON_KEY and
+ * SITE_URL (the public site root, e.g. https://user.github.io/Hellclock-Graveyard).
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { createClient } from '@supabase/supabase-js';
+import { SITE_TITLE, describeHero, renderMetaTags } from '../src/lib/heroMeta.ts';
+import { TOMBSTONE_PREVIEW_SIZE } from '../src/lib/tombstoneSvg.ts';
+import type { DeathRecord } from '../src/types.ts';
+import { loadTombstoneAssets, renderTombstonePng } from './tombstone-image.ts';
+
+const PAGE_SIZE = 1000;
+const DIST = 'dist';
+const META_BLOCK = /<!-- meta:start[\s\S]*?<!-- meta:end -->/;
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) throw new Error(`${name} is not set.`);
+  return value;
+}
+
+function escapeText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+async function main(): Promise<void> {
+  const supabase = createClient(requireEnv('VITE_SUPABASE_URL'), requireEnv('VITE_SUPABASE_ANON_KEY'));
+  const siteUrl = requireEnv('SITE_URL').replace(/\/$/, '');
+
+  const template = await readFile(join(DIST, 'index.html'), 'utf8');
+  if (!META_BLOCK.test(template)) throw new Error('dist/index.html has no meta:start / meta:end block.');
+  const assets = await loadTombstoneAssets();
+
+  let written = 0;
+  for (let from = 0; ; from += PAGE_SIZE) {
+    // Anonymous reads only see approved heroes (row level security), which is exactly the public set.
+    const { data, error } = await supabase
+      .from('deaths')
+      .select('*')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+
+    const heroes = (data as DeathRecord[] | null) ?? [];
+    for (const hero of heroes) {
+      const meta = describeHero(hero);
+      const pageUrl = `${siteUrl}/hero/${encodeURIComponent(hero.id)}`;
+      const image = {
+        url: `${pageUrl}/preview.png`,
+        ...TOMBSTONE_PREVIEW_SIZE,
+        alt: `Tombstone of ${hero.character_name}`,
+      };
+      const html = template
+        .replace(META_BLOCK, () => renderMetaTags(meta, pageUrl, image))
+        .replace(`<title>${SITE_TITLE}</title>`, () => `<title>${escapeText(meta.title)}</title>`);
+      const dir = join(DIST, 'hero', hero.id);
+      await mkdir(dir, { recursive: true });
+      await writeFile(join(dir, 'index.html'), html);
+      await writeFile(join(dir, 'preview.png'), renderTombstonePng(hero, assets, { frame: 'preview' }));
+      written++;
+    }
+    if (heroes.length < PAGE_SIZE) break;
+  }
+
+  console.log(`Prerendered ${written} hero page(s).`);
+}
+
+main().catch((err: unknown) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,85 @@
+/**
+ * Renders one tombstone to a PNG (or SVG) file from the command line, for checking the server-side renderer locally.
+ *
+ *   npm run render-tombstone -- <hero-id | death.json> [out.png] [--square | --preview] [--template=minimal|epitaph]
+ *                                [--transparent] [--svg]
+ *
+ * A hero id is read from the Crypt with its run history (VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY must be set);
+ * a `.json` path is read as a DeathRecord, optionally with its `death_runs` rows under `runs`, so no network is needed.
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { createClient } from '@supabase/supabase-js';
+import {
+  renderTombstoneSvg,
+  type TombstoneImageOptions,
+  type TombstoneImageRun,
+  type TombstoneImageSource,
+  type TombstoneTemplate,
+} from '../src/lib/tombstoneSvg.ts';
+import { loadTombstoneAssets, renderTombstonePng } from './tombstone-image.ts';
+
+const TEMPLATES: TombstoneTemplate[] = ['classic', 'minimal', 'epitaph'];
+const USAGE =
+  'Usage: render-tombstone <hero-id | death.json> [out.png] [--square | --preview] [--template=minimal|epitaph] [--transparent] [--svg]';
+
+interface LoadedDeath {
+  death: TombstoneImageSource;
+  runs?: TombstoneImageRun[];
+}
+
+async function loadDeath(source: string): Promise<LoadedDeath> {
+  if (source.endsWith('.json')) {
+    const death = JSON.parse(await readFile(source, 'utf8')) as TombstoneImageSource & { runs?: TombstoneImageRun[] };
+    return { death, runs: death.runs };
+  }
+
+  const url = process.env.VITE_SUPABASE_URL;
+  const key = process.env.VITE_SUPABASE_ANON_KEY;
+  if (!url || !key) throw new Error('VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY must be set to load a hero by id.');
+
+  const supabase = createClient(url, key);
+  const [death, runs] = await Promise.all([
+    supabase.from('deaths').select('*').eq('id', source).maybeSingle(),
+    supabase.from('death_runs').select('run_index, level, kills, run_time').eq('death_id', source).order('run_index', { ascending: true }),
+  ]);
+  const error = death.error ?? runs.error;
+  if (error) throw new Error(error.message);
+  if (!death.data) throw new Error(`No hero with id ${source}.`);
+  return { death: death.data as TombstoneImageSource, runs: (runs.data as TombstoneImageRun[]) ?? [] };
+}
+
+function parseOptions(flags: string[]): TombstoneImageOptions {
+  const template = flags.find((flag) => flag.startsWith('--template='))?.slice('--template='.length) ?? 'classic';
+  if (!TEMPLATES.includes(template as TombstoneTemplate)) throw new Error(`Unknown template "${template}".\n${USAGE}`);
+  return {
+    template: template as TombstoneTemplate,
+    frame: flags.includes('--preview') ? 'preview' : flags.includes('--square') ? 'square' : 'card',
+    transparent: flags.includes('--transparent'),
+  };
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const flags = args.filter((arg) => arg.startsWith('--'));
+  const [source, out] = args.filter((arg) => !arg.startsWith('--'));
+  if (!source) throw new Error(USAGE);
+
+  const options = parseOptions(flags);
+  const svg = flags.includes('--svg');
+  const { death, runs } = await loadDeath(source);
+  const assets = { ...(await loadTombstoneAssets()), runs };
+
+  const target = out ?? `tombstone.${svg ? 'svg' : 'png'}`;
+  // Cards and squares at 2x, like the in-app export; previews at their exact Open Graph size.
+  const output = svg
+    ? renderTombstoneSvg(death, assets, options)
+    : renderTombstonePng(death, assets, options, options.frame === 'preview' ? 1 : 2);
+  await writeFile(target, output);
+  console.log(`Wrote ${target}.`);
+}
+
+main().catch((err: unknown) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,63 @@
+/**
+ * Node side of the server-rendered tombstone: loads the icons from src/assets and rasterizes
+ * `renderTombstoneSvg` (src/lib/tombstoneSvg.ts) to PNG with resvg. No browser involved.
+ * Text uses the machine's fonts (Cinzel and Inter when installed, otherwise the closest serif / sans).
+ */
+
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { Resvg } from '@resvg/resvg-js';
+import {
+  renderTombstoneSvg,
+  type TombstoneImageAssets,
+  type TombstoneImageOptions,
+  type TombstoneImageSource,
+} from '../src/lib/tombstoneSvg.ts';
+
+/** `--experimental-strip-types`, which runs these scripts without a build step, arrived in Node 22.6. */
+const MIN_NODE_VERSION: [number, number] = [22, 6];
+
+const [major, minor] = process.versions.node.split('.').map(Number);
+if (major < MIN_NODE_VERSION[0] || (major === MIN_NODE_VERSION[0] && minor < MIN_NODE_VERSION[1])) {
+  throw new Error(`Tombstone images need Node ${MIN_NODE_VERSION.join('.')} or newer (running ${process.versions.node}).`);
+}
+
+const ASSETS = join(import.meta.dirname, '..', 'src', 'assets');
+
+async function pngDataUri(path: string): Promise<string> {
+  const bytes = await readFile(path);
+  return `data:image/png;base64,${bytes.toString('base64')}`;
+}
+
+/** The class icon and every skill icon named in Skills.json, as data URIs. */
+export async function loadTombstoneAssets(): Promise<TombstoneImageAssets> {
+  const skillsData = JSON.parse(await readFile(join(ASSETS, 'Skills.json'), 'utf8')) as {
+    Skills: Array<{ id: number; icon: string }>;
+  };
+
+  const skillIcons = new Map<number, string>();
+  for (const skill of skillsData.Skills) {
+    try {
+      skillIcons.set(skill.id, await pngDataUri(join(ASSETS, 'icons', `${skill.icon}.png`)));
+    } catch {
+      // Skills without a bundled icon fall back to the "?" placeholder, as on the card.
+    }
+  }
+
+  return { classIcon: await pngDataUri(join(ASSETS, 'icons', 'default_icon.png')), skillIcons };
+}
+
+/** Renders a death's tombstone to PNG. `scale` multiplies the pixel size (2 matches the in-app export). */
+export function renderTombstonePng(
+  death: TombstoneImageSource,
+  assets: TombstoneImageAssets,
+  options: TombstoneImageOptions = {},
+  scale = 1
+): Buffer {
+  const svg = renderTombstoneSvg(death, assets, options);
+  const resvg = new Resvg(svg, {
+    fitTo: { mode: 'zoom', value: scale },
+    font: { loadSystemFonts: true },
+  });
+  return resvg.render().asPng();
+}
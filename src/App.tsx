@@ -2,64 +2,183 @@
 // Main Application Entry Point.
 // Handles user authentication, database syncing, and the primary "Graveyard" view.
 
-import { useEffect, useState } from 'react';
-import { motion } from 'framer-motion';
-import { Skull, LogIn, LogOut, Search } from 'lucide-react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Skull, LogIn, LogOut, Search, Landmark, SlidersHorizontal, Shovel, ShieldAlert, ArrowUp, BarChart3 } from 'lucide-react';
 import type { User } from '@supabase/supabase-js';
 import { supabase } from './lib/supabase';
 import type { DeathRecord } from './types';
+import {
+  EMPTY_FILTERS,
+  countActiveFilters,
+  fetchGraveyardPage,
+  formatGraveyardQuery,
+  matchesGraveyardQuery,
+  parseGraveyardQuery,
+  type GraveyardCursor,
+  type GraveyardFilters,
+  type GraveyardQuery,
+  type GraveyardSort,
+} from './lib/graveyard';
+import { useRoute } from './lib/router';
+import { fetchIsModerator } from './lib/moderation';
+import { subscribeToGraveyard } from './lib/graveyardFeed';
 import UploadCrypt from './components/UploadCrypt';
+import UploadMausoleum from './components/UploadMausoleum';
+import MausoleumView from './components/MausoleumView';
+import MyDeadView from './components/MyDeadView';
+import ModerationQueue from './components/ModerationQueue';
+import CensusView from './components/CensusView';
 import Tombstone from './components/Tombstone';
 import FogLayer from './components/FogLayer';
 import AtmosphericLighting from './components/AtmosphericLighting';
+import InfiniteScrollSentinel from './components/InfiniteScrollSentinel';
+import GraveyardFilterPanel from './components/GraveyardFilterPanel';
+import HeroPage from './components/HeroPage';
+import MournerPage from './components/MournerPage';
 import { Lightbulb, LightbulbOff } from 'lucide-react';
 
+type AppView = 'graveyard' | 'mausoleum' | 'census' | 'my-dead' | 'moderation';
+
+/** Past this scroll offset, live burials wait behind the "new heroes fell" banner instead of pushing the list down. */
+const LIVE_BURIAL_SCROLL_LIMIT = 200;
+
 export default function App() {
+  const route = useRoute();
   const [user, setUser] = useState<User | null>(null);
   const [deaths, setDeaths] = useState<DeathRecord[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [nextCursor, setNextCursor] = useState<GraveyardCursor | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState<string | null>(null);
   const [showLighting, setShowLighting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [authLoading, setAuthLoading] = useState(true);
-  const [sortOption, setSortOption] = useState<'latest' | 'respects' | 'playtime_high' | 'playtime_low' | 'kills'>('latest');
-  const [searchTerm, setSearchTerm] = useState('');
-
-  const filteredDeaths = deaths.filter((death) => {
-    const term = searchTerm.toLowerCase();
-    const charName = death.character_name.toLowerCase();
-    const mourned = (death.mourned_by || '').toLowerCase();
-    return charName.includes(term) || mourned.includes(term);
-  });
-
-  const sortedDeaths = [...filteredDeaths].sort((a, b) => {
-    switch (sortOption) {
-      case 'respects':
-        return (b.respects_paid || 0) - (a.respects_paid || 0);
-      case 'playtime_high':
-        return (b.career_seconds || 0) - (a.career_seconds || 0);
-      case 'playtime_low': // Speedruns / Quick deaths
-        return (a.career_seconds || 0) - (b.career_seconds || 0);
-      case 'kills':
-        return (b.career_kills || 0) - (a.career_kills || 0);
-      case 'latest':
-      default:
-        return new Date(b.death_date).getTime() - new Date(a.death_date).getTime();
+  // The Graveyard query starts from the URL, so shared links open the same filtered view.
+  const [initialQuery] = useState(() => parseGraveyardQuery(window.location.search));
+  const [sortOption, setSortOption] = useState<GraveyardSort>(initialQuery.sort);
+  const [searchTerm, setSearchTerm] = useState(initialQuery.search);
+  const [filters, setFilters] = useState<GraveyardFilters>(initialQuery.filters);
+  const [showFilters, setShowFilters] = useState(countActiveFilters(initialQuery.filters) > 0);
+  const [debouncedInput, setDebouncedInput] = useState({ search: initialQuery.search, filters: initialQuery.filters });
+  const [reloadKey, setReloadKey] = useState(0);
+  // Hardcore deaths and the Mausoleum (softcore / living characters) never share a list.
+  // "My Dead" is the signed-in user's own burials, with rename, epitaph and exhume; "Moderation" is for moderators only.
+  const [selectedView, setView] = useState<AppView>('graveyard');
+  const [mausoleumRefreshKey, setMausoleumRefreshKey] = useState(0);
+
+  // Sorting, search, filters and pagination run in Postgres; the first page is refetched whenever the query changes.
+  const query = useMemo<GraveyardQuery>(() => ({ sort: sortOption, ...debouncedInput }), [sortOption, debouncedInput]);
+  const queryString = formatGraveyardQuery(query);
+  const queryKey = `${queryString}|${reloadKey}`;
+  const activeFilterCount = countActiveFilters(filters);
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+  const loading = loadedKey !== queryKey;
+  const activeQuery = useRef(queryKey);
+
+  // Wait for typing to pause before searching or filtering.
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedInput({ search: searchTerm, filters }), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm, filters]);
+
+  // Mirror the query in the URL without adding a history entry per keystroke (the hero page keeps its own URL).
+  useEffect(() => {
+    if (route.page !== 'graveyard') return;
+    const url = `${window.location.pathname}${queryString}${window.location.hash}`;
+    window.history.replaceState(window.history.state, '', url);
+  }, [queryString, route.page]);
+
+  useEffect(() => {
+    let cancelled = false;
+    activeQuery.current = queryKey;
+    fetchGraveyardPage(query, null)
+      .then((page) => {
+        if (cancelled) return;
+        setDeaths(page.deaths);
+        setNextCursor(page.nextCursor);
+        setError(null);
+      })
+      .catch((err: Error) => {
+        if (cancelled) return;
+        setDeaths([]);
+        setNextCursor(null);
+        setError(err.message);
+      })
+      .finally(() => {
+        if (cancelled) return;
+        setLoadMoreError(null);
+        setLoadedKey(queryKey);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [query, queryKey]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore || loading) return;
+    const requestedKey = activeQuery.current;
+    setLoadingMore(true);
+    setLoadMoreError(null);
+    try {
+      const page = await fetchGraveyardPage(query, nextCursor);
+      // Drop the page if the sort, search or filters changed while it was loading.
+      if (activeQuery.current !== requestedKey) return;
+      setDeaths((prev) => {
+        const known = new Set(prev.map((death) => death.id));
+        return [...prev, ...page.deaths.filter((death) => !known.has(death.id))];
+      });
+      setNextCursor(page.nextCursor);
+    } catch (err: unknown) {
+      if (activeQuery.current === requestedKey) setLoadMoreError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoadingMore(false);
     }
-  });
+  }, [nextCursor, loadingMore, loading, query]);
+
+  function reloadDeaths() {
+    setReloadKey((k) => k + 1);
+  }
+
+  // Live burials held back because the viewer has scrolled down (the list would jump) or the sort is not "latest"
+  // (a new hero has no obvious place). Tied to the query they arrived under, so changing it drops them.
+  const [heldBurials, setHeldBurials] = useState<{ key: string; deaths: DeathRecord[] }>({ key: '', deaths: [] });
+  const newHeroes = heldBurials.key === queryKey ? heldBurials.deaths : [];
+  const liveQuery = useRef({ query, queryKey, loading, userId: null as string | null });
+
+  useEffect(() => {
+    liveQuery.current = { query, queryKey, loading, userId: user?.id ?? null };
+  }, [query, queryKey, loading, user]);
 
-  async function fetchDeaths() {
-    const { data, error: err } = await supabase
-      .from('deaths')
-      .select('*')
-      .order('death_date', { ascending: false });
+  useEffect(() => subscribeToGraveyard({
+    onBurial: (death) => {
+      const live = liveQuery.current;
+      if (live.loading || !matchesGraveyardQuery(death, live.query, live.userId)) return;
+      if (live.query.sort === 'latest' && window.scrollY < LIVE_BURIAL_SCROLL_LIMIT) {
+        setDeaths((prev) => (prev.some((d) => d.id === death.id) ? prev : [death, ...prev]));
+        return;
+      }
+      setHeldBurials((prev) => {
+        const held = prev.key === live.queryKey ? prev.deaths : [];
+        return held.some((d) => d.id === death.id) ? prev : { key: live.queryKey, deaths: [death, ...held] };
+      });
+    },
+    // Respect counts (and renames or epitaphs) update in place; the order is left alone until the next fetch.
+    onChange: (death) => {
+      setDeaths((prev) => (prev.some((d) => d.id === death.id) ? prev.map((d) => (d.id === death.id ? { ...d, ...death } : d)) : prev));
+    },
+  }), []);
 
-    if (err) {
-      setError(err.message);
-      setDeaths([]);
+  function showNewHeroes() {
+    if (query.sort === 'latest') {
+      setDeaths((prev) => {
+        const known = new Set(prev.map((death) => death.id));
+        return [...newHeroes.filter((death) => !known.has(death.id)), ...prev];
+      });
     } else {
-      setDeaths((data as DeathRecord[]) ?? []);
+      reloadDeaths();
     }
-    setLoading(false);
+    setHeldBurials({ key: queryKey, deaths: [] });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
   }
 
   useEffect(() => {
@@ -74,14 +193,30 @@ export default function App() {
       setUser(session?.user ?? null);
     });
 
-    fetchDeaths();
-
     return () => {
       subscription.unsubscribe();
     };
   }, []);
 
+  // Whose moderator status was last confirmed; compared with the current user so a sign-out drops it at once.
+  const [moderatorId, setModeratorId] = useState<string | null>(null);
+  const isModerator = user != null && moderatorId === user.id;
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    fetchIsModerator(user.id).then((moderator) => {
+      if (!cancelled) setModeratorId(moderator ? user.id : null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
   const [showUpload, setShowUpload] = useState(false);
+  // Signing out while on "My Dead" or the queue falls back to the Graveyard.
+  const view: AppView =
+    (selectedView === 'my-dead' && !user) || (selectedView === 'moderation' && !isModerator) ? 'graveyard' : selectedView;
 
   const handleDiscordLogin = () => {
     const DISCORD_CLIENT_ID = "1468131548938244253";
@@ -121,195 +256,309 @@ export default function App() {
           <div className="relative z-10 ml-auto flex items-center gap-3">
             {!authLoading && (
               <>
-                {user ? (
-                  <>
-                    <span className="hidden text-sm text-stone-400 sm:inline">
-                      {user.user_metadata?.username || user.email || 'User'}
-                    </span>
+                  {user ? (
+                    <>
+                      <span className="hidden text-sm text-stone-400 sm:inline">
+                        {user.user_metadata?.username || user.email || 'User'}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={handleLogout}
+                        className="flex items-center gap-2 rounded-lg border border-stone-700 bg-stone-800 px-4 py-2 text-sm font-medium text-stone-300 transition hover:bg-stone-700 hover:text-stone-100"
+                      >
+                        <LogOut className="h-4 w-4" aria-hidden />
+                        <span className="hidden sm:inline">Logout</span>
+                      </button>
+                    </>
+                  ) : (
                     <button
                       type="button"
-                      onClick={handleLogout}
-                      className="flex items-center gap-2 rounded-lg border border-stone-700 bg-stone-800 px-4 py-2 text-sm font-medium text-stone-300 transition hover:bg-stone-700 hover:text-stone-100"
+                      onClick={handleDiscordLogin}
+                      className="flex items-center gap-2 rounded-lg bg-[#5865F2] px-4 py-2 text-sm font-medium text-white transition hover:bg-[#4752C4]"
                     >
-                      <LogOut className="h-4 w-4" aria-hidden />
-                      <span className="hidden sm:inline">Logout</span>
+                      <LogIn className="h-4 w-4" aria-hidden />
+                      <span className="hidden sm:inline">Login</span>
                     </button>
-                  </>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        </header>
+
+        <main className="relative z-20 mx-auto max-w-6xl px-6 py-10">
+
+          {route.page === 'hero' ? (
+            <HeroPage key={route.id} heroId={route.id} currentUserId={user?.id ?? null} />
+          ) : route.page === 'mourner' ? (
+            <MournerPage key={route.id} userId={route.id} currentUserId={user?.id ?? null} />
+          ) : (
+            <>
+            {/* CONTROL DECK */}
+            <section className="mb-8 flex flex-col items-center justify-center gap-6">
+
+              {/* View Switch */}
+              <div className="flex rounded-full border border-stone-800 bg-stone-900/60 p-1">
+                {[
+                  { id: 'graveyard', label: 'Graveyard', icon: <Skull className="h-4 w-4" aria-hidden /> },
+                  { id: 'mausoleum', label: 'Mausoleum', icon: <Landmark className="h-4 w-4" aria-hidden /> },
+                  { id: 'census', label: 'Census', icon: <BarChart3 className="h-4 w-4" aria-hidden /> },
+                  ...(user ? [{ id: 'my-dead', label: 'My Dead', icon: <Shovel className="h-4 w-4" aria-hidden /> }] : []),
+                  ...(isModerator ? [{ id: 'moderation', label: 'Moderation', icon: <ShieldAlert className="h-4 w-4" aria-hidden /> }] : []),
+                ].map((tab) => (
+                  <button
+                    key={tab.id}
+                    aria-label={tab.label}
+                    onClick={() => {
+                      setView(tab.id as AppView);
+                      setShowUpload(false);
+                    }}
+                    className={`flex items-center gap-2 rounded-full px-5 py-1.5 text-xs font-semibold uppercase tracking-wider transition-all
+                      ${view === tab.id
+                        ? tab.id === 'mausoleum' ? 'bg-sky-950/60 text-sky-200' : 'bg-red-900/40 text-red-200'
+                        : 'text-stone-500 hover:text-stone-300'
+                      }`}
+                  >
+                    {tab.icon}
+                    {/* Icons only on narrow screens, where five tabs would not fit. */}
+                    <span className="hidden sm:inline">{tab.label}</span>
+                  </button>
+                ))}
+              </div>
+
+              {/* Main Toggles */}
+              <div className="flex flex-wrap items-center justify-center gap-4">
+                {/* Upload Toggle */}
+                <button
+                  onClick={() => setShowUpload(!showUpload)}
+                  className={`flex items-center gap-2 rounded-full border px-5 py-2 text-sm font-medium transition-all
+                      ${showUpload
+                      ? 'border-red-500/50 bg-red-900/20 text-red-200'
+                      : 'border-stone-700 bg-stone-800/50 text-stone-400 hover:border-stone-500 hover:text-stone-200'
+                    }`}
+                >
+                  <span className="text-xl">{view === 'mausoleum' ? '🏛️' : '⚰️'}</span>
+                  <span>
+                    {view === 'mausoleum'
+                      ? showUpload ? 'Close Mausoleum' : 'Enshrine a Hero'
+                      : showUpload ? 'Close Crypt' : 'Bury a Hero'}
+                  </span>
+                </button>
+
+                {/* Lights Toggle */}
+                <button
+                  onClick={() => {
+                    setShowLighting(!showLighting);
+                  }}
+                  className={`flex items-center gap-2 rounded-full border px-5 py-2 text-sm font-medium transition-all
+                    ${showLighting
+                      ? 'border-amber-500/50 bg-amber-900/20 text-amber-200 shadow-[0_0_15px_rgba(245,158,11,0.2)]'
+                      : 'border-stone-700 bg-stone-800/50 text-stone-400 hover:border-stone-500 hover:text-stone-200'
+                    }`}
+                >
+                  {showLighting ? <Lightbulb className="h-4 w-4 text-amber-400" /> : <LightbulbOff className="h-4 w-4" />}
+                  <span>{showLighting ? 'Lights On' : 'Lights Off'}</span>
+                </button>
+              </div>
+
+              {/* Graveyard-only controls */}
+              {view === 'graveyard' && (
+                <>
+                  {/* Filter Chips */}
+                  <div className="flex flex-wrap items-center justify-center gap-2">
+                    {[
+                      { id: 'latest', label: 'Latest Deaths' },
+                      { id: 'respects', label: 'Most Respects' },
+                      { id: 'kills', label: 'Most Kills' },
+                      { id: 'playtime_high', label: 'Longest Life' },
+                      { id: 'playtime_low', label: 'Shortest Life' },
+                    ].map((opt) => (
+                      <button
+                        key={opt.id}
+                        onClick={() => setSortOption(opt.id as GraveyardSort)}
+                        className={`rounded-full border px-4 py-1.5 text-xs font-semibold uppercase tracking-wider transition-all
+                          ${sortOption === opt.id
+                            ? 'border-red-900 bg-red-900/40 text-red-200'
+                            : 'border-stone-800 bg-stone-900/40 text-stone-500 hover:border-stone-600 hover:text-stone-300'
+                          }`}
+                      >
+                        {opt.label}
+                      </button>
+
+                    ))}
+                  </div>
+
+                  {/* Search Bar + Filters Toggle */}
+                  <div className="flex w-full max-w-md items-center gap-2">
+                    <div className="relative flex-1">
+                      <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
+                        <Search className="h-4 w-4 text-stone-500" />
+                      </div>
+                      <input
+                        type="text"
+                        placeholder="Search by Character Name or User..."
+                        value={searchTerm}
+                        onChange={(e) => setSearchTerm(e.target.value)}
+                        className="block w-full rounded-full border border-stone-800 bg-stone-900/50 py-2 pl-10 pr-4 text-sm text-stone-200 placeholder-stone-600 focus:border-red-900 focus:ring-1 focus:ring-red-900 focus:outline-none"
+                      />
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => setShowFilters(!showFilters)}
+                      className={`flex shrink-0 items-center gap-2 rounded-full border px-4 py-2 text-xs font-semibold uppercase tracking-wider transition-all
+                        ${showFilters || activeFilterCount > 0
+                          ? 'border-red-900 bg-red-900/40 text-red-200'
+                          : 'border-stone-800 bg-stone-900/40 text-stone-500 hover:border-stone-600 hover:text-stone-300'
+                        }`}
+                    >
+                      <SlidersHorizontal className="h-4 w-4" aria-hidden />
+                      <span>Filters{activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}</span>
+                    </button>
+                  </div>
+
+                  {showFilters && (
+                    <GraveyardFilterPanel
+                      filters={filters}
+                      onChange={setFilters}
+                      onClear={() => setFilters(EMPTY_FILTERS)}
+                    />
+                  )}
+                </>
+              )}
+            </section>
+
+            {/* Collapsible Upload Section */}
+            {showUpload && user && (
+              <motion.section
+                initial={{ opacity: 0, height: 0, overflow: 'hidden' }}
+                animate={{ opacity: 1, height: 'auto' }}
+                exit={{ opacity: 0, height: 0 }}
+                className="mb-12"
+              >
+                {view === 'mausoleum' ? (
+                  <UploadMausoleum onUploadSuccess={() => { setMausoleumRefreshKey((k) => k + 1); setShowUpload(false); }} />
                 ) : (
+                  <UploadCrypt onUploadSuccess={reloadDeaths} onDone={() => setShowUpload(false)} />
+                )}
+              </motion.section>
+            )}
+
+            {!user && showUpload && (
+              <div className="mb-12 rounded-xl border border-stone-800 bg-stone-900/50 p-6 shadow-xl backdrop-blur-sm">
+                <div className="flex flex-col items-center justify-center gap-4 py-8 text-center">
+                  <LogIn className="h-12 w-12 text-stone-600" aria-hidden />
+                  <p className="text-stone-400">Please log in with Discord to upload a save file.</p>
                   <button
                     type="button"
                     onClick={handleDiscordLogin}
-                    className="flex items-center gap-2 rounded-lg bg-[#5865F2] px-4 py-2 text-sm font-medium text-white transition hover:bg-[#4752C4]"
+                    className="flex items-center gap-2 rounded-lg bg-[#5865F2] px-6 py-3 font-medium text-white transition hover:bg-[#4752C4]"
                   >
-                    <LogIn className="h-4 w-4" aria-hidden />
-                    <span className="hidden sm:inline">Login</span>
+                    <LogIn className="h-5 w-5" aria-hidden />
+                    Login with Discord
                   </button>
-                )}
-              </>
+                </div>
+              </div>
             )}
-          </div>
-        </div>
-      </header>
-
-      <main className="relative z-20 mx-auto max-w-6xl px-6 py-10">
-
-        {/* CONTROL DECK */}
-        <section className="mb-8 flex flex-col items-center justify-center gap-6">
-
-          {/* Main Toggles */}
-          <div className="flex flex-wrap items-center justify-center gap-4">
-            {/* Upload Toggle */}
-            <button
-              onClick={() => setShowUpload(!showUpload)}
-              className={`flex items-center gap-2 rounded-full border px-5 py-2 text-sm font-medium transition-all
-                  ${showUpload
-                  ? 'border-red-500/50 bg-red-900/20 text-red-200'
-                  : 'border-stone-700 bg-stone-800/50 text-stone-400 hover:border-stone-500 hover:text-stone-200'
-                }`}
-            >
-              <span className="text-xl">⚰️</span>
-              <span>{showUpload ? 'Close Crypt' : 'Bury a Hero'}</span>
-            </button>
-
-            {/* Lights Toggle */}
-            <button
-              onClick={() => {
-                setShowLighting(!showLighting);
-              }}
-              className={`flex items-center gap-2 rounded-full border px-5 py-2 text-sm font-medium transition-all
-                ${showLighting
-                  ? 'border-amber-500/50 bg-amber-900/20 text-amber-200 shadow-[0_0_15px_rgba(245,158,11,0.2)]'
-                  : 'border-stone-700 bg-stone-800/50 text-stone-400 hover:border-stone-500 hover:text-stone-200'
-                }`}
-            >
-              {showLighting ? <Lightbulb className="h-4 w-4 text-amber-400" /> : <LightbulbOff className="h-4 w-4" />}
-              <span>{showLighting ? 'Lights On' : 'Lights Off'}</span>
-            </button>
-          </div>
 
-          {/* Filter Chips */}
-          <div className="flex flex-wrap items-center justify-center gap-2">
-            {[
-              { id: 'latest', label: 'Latest Deaths' },
-              { id: 'respects', label: 'Most Respects' },
-              { id: 'kills', label: 'Most Kills' },
-              { id: 'playtime_high', label: 'Longest Life' },
-              { id: 'playtime_low', label: 'Shortest Life' },
-            ].map((opt) => (
-              <button
-                key={opt.id}
-                onClick={() => setSortOption(opt.id as any)}
-                className={`rounded-full border px-4 py-1.5 text-xs font-semibold uppercase tracking-wider transition-all
-                  ${sortOption === opt.id
-                    ? 'border-red-900 bg-red-900/40 text-red-200'
-                    : 'border-stone-800 bg-stone-900/40 text-stone-500 hover:border-stone-600 hover:text-stone-300'
-                  }`}
-              >
-                {opt.label}
-              </button>
+            {view === 'mausoleum' ? (
+              <MausoleumView refreshKey={mausoleumRefreshKey} />
+            ) : view === 'my-dead' && user ? (
+              <MyDeadView userId={user.id} refreshKey={reloadKey} onChange={reloadDeaths} />
+            ) : view === 'moderation' ? (
+              <ModerationQueue onChange={reloadDeaths} />
+            ) : view === 'census' ? (
+              <CensusView />
+            ) : (
+              <section>
+                <h2 className="font-cinzel mb-8 text-center text-xl font-semibold tracking-widest text-stone-300 uppercase decoration-stone-800 underline-offset-8">
+                  Fallen Heroes
+                </h2>
 
-            ))}
-          </div>
+                <AnimatePresence>
+                  {newHeroes.length > 0 && (
+                    <motion.button
+                      type="button"
+                      onClick={showNewHeroes}
+                      initial={{ opacity: 0, y: -16 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, y: -16 }}
+                      className="fixed left-1/2 top-4 z-40 flex -translate-x-1/2 items-center gap-2 rounded-full border border-red-900 bg-stone-950/90 px-5 py-2 text-sm text-red-300 shadow-xl backdrop-blur-md transition hover:bg-red-950/80"
+                    >
+                      <ArrowUp className="h-4 w-4" aria-hidden />
+                      {newHeroes.length === 1 ? '1 new hero fell' : `${newHeroes.length} new heroes fell`}
+                    </motion.button>
+                  )}
+                </AnimatePresence>
 
-          {/* Search Bar */}
-          <div className="relative w-full max-w-md">
-            <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
-              <Search className="h-4 w-4 text-stone-500" />
-            </div>
-            <input
-              type="text"
-              placeholder="Search by Character Name or User..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="block w-full rounded-full border border-stone-800 bg-stone-900/50 py-2 pl-10 pr-4 text-sm text-stone-200 placeholder-stone-600 focus:border-red-900 focus:ring-1 focus:ring-red-900 focus:outline-none"
-            />
-          </div>
-        </section>
-
-        {/* Collapsible Upload Section */}
-        {showUpload && user && (
-          <motion.section
-            initial={{ opacity: 0, height: 0, overflow: 'hidden' }}
-            animate={{ opacity: 1, height: 'auto' }}
-            exit={{ opacity: 0, height: 0 }}
-            className="mb-12"
-          >
-            <UploadCrypt onUploadSuccess={() => { fetchDeaths(); setShowUpload(false); }} />
-          </motion.section>
-        )}
+                {loading && (
+                  <p className="text-zinc-500">Loading the dead…</p>
+                )}
+                {error && (
+                  <div className="flex flex-col items-center gap-4 text-center">
+                    <p className="text-red-400">
+                      Failed to load graveyard: {error}. Check connection.
+                    </p>
+                    <button
+                      onClick={reloadDeaths}
+                      className="rounded-full border border-red-900 bg-red-950/30 px-6 py-2 text-sm text-red-300 transition hover:bg-red-900/50"
+                    >
+                      Try Again
+                    </button>
+                  </div>
+                )}
+                {!loading && !error && deaths.length === 0 && (
+                  <p className="text-zinc-500">
+                    {query.search.trim() || countActiveFilters(query.filters) > 0
+                      ? 'No souls match this search.'
+                      : 'No souls yet. Upload a PlayerSave.json to lay the first to rest.'}
+                  </p>
+                )}
 
-        {!user && showUpload && (
-          <div className="mb-12 rounded-xl border border-stone-800 bg-stone-900/50 p-6 shadow-xl backdrop-blur-sm">
-            <div className="flex flex-col items-center justify-center gap-4 py-8 text-center">
-              <LogIn className="h-12 w-12 text-stone-600" aria-hidden />
-              <p className="text-stone-400">Please log in with Discord to upload a save file.</p>
-              <button
-                type="button"
-                onClick={handleDiscordLogin}
-                className="flex items-center gap-2 rounded-lg bg-[#5865F2] px-6 py-3 font-medium text-white transition hover:bg-[#4752C4]"
-              >
-                <LogIn className="h-5 w-5" aria-hidden />
-                Login with Discord
-              </button>
-            </div>
-          </div>
-        )}
+                {!loading && deaths.length > 0 && (
+                  <motion.ul
+                    className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3"
+                    initial="hidden"
+                    animate="visible"
+                    variants={{
+                      visible: { transition: { staggerChildren: 0.06 } },
+                      hidden: {},
+                    }}
+                  >
+                    {deaths.map((death) => (
+                      <motion.li
+                        key={death.id}
+                        initial="hidden"
+                        animate="visible"
+                        variants={{
+                          hidden: { opacity: 0, y: 12 },
+                          visible: { opacity: 1, y: 0 },
+                        }}
+                      >
+                        <Tombstone death={death} mournedBy={death.mourned_by} />
+                      </motion.li>
+                    ))}
+                  </motion.ul>
+                )}
 
-        <section>
-          <h2 className="font-cinzel mb-8 text-center text-xl font-semibold tracking-widest text-stone-300 uppercase decoration-stone-800 underline-offset-8">
-            Fallen Heroes
-          </h2>
-
-          {loading && (
-            <p className="text-zinc-500">Loading the dead…</p>
-          )}
-          {error && (
-            <div className="flex flex-col items-center gap-4 text-center">
-              <p className="text-red-400">
-                Failed to load graveyard: {error}. Check connection.
-              </p>
-              <button
-                onClick={() => {
-                  setLoading(true);
-                  setError(null);
-                  fetchDeaths();
-                }}
-                className="rounded-full border border-red-900 bg-red-950/30 px-6 py-2 text-sm text-red-300 transition hover:bg-red-900/50"
-              >
-                Try Again
-              </button>
-            </div>
-          )}
-          {!loading && !error && deaths.length === 0 && (
-            <p className="text-zinc-500">No souls yet. Upload a PlayerSave.json to lay the first to rest.</p>
-          )}
-
-          {!loading && deaths.length > 0 && (
-            <motion.ul
-              className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3"
-              initial="hidden"
-              animate="visible"
-              variants={{
-                visible: { transition: { staggerChildren: 0.06 } },
-                hidden: {},
-              }}
-            >
-              {sortedDeaths.map((death) => (
-                <motion.li
-                  key={death.id}
-                  initial="hidden"
-                  animate="visible"
-                  variants={{
-                    hidden: { opacity: 0, y: 12 },
-                    visible: { opacity: 1, y: 0 },
-                  }}
-                >
-                  <Tombstone death={death} mournedBy={death.mourned_by} onUpdate={fetchDeaths} />
-                </motion.li>
-              ))}
-            </motion.ul>
-          )}
-        </section>
+                {!loading && nextCursor && !loadMoreError && <InfiniteScrollSentinel onVisible={loadMore} />}
+                {loadingMore && (
+                  <p className="mt-8 text-center text-sm text-zinc-500">Unearthing more of the fallen…</p>
+                )}
+                {loadMoreError && (
+                  <div className="mt-8 flex flex-col items-center gap-3 text-center">
+                    <p className="text-sm text-red-400">Failed to load more heroes: {loadMoreError}.</p>
+                    <button
+                      onClick={loadMore}
+                      className="rounded-full border border-red-900 bg-red-950/30 px-6 py-2 text-sm text-red-300 transition hover:bg-red-900/50"
+                    >
+                      Try Again
+                    </button>
+                  </div>
+                )}
+              </section>
+            )}
+          </>
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,91 @@
+// CareerTimeline.tsx
+// Renders a hero's past runs in play order: level reached, kills and run duration.
+// Plain inline SVG (no chart library), kept light enough to sit inside every expanded card.
+
+import type { DeathRunRecord } from '../types';
+import { formatDuration, formatNumber } from '../lib/format';
+
+const CHART_WIDTH = 240;
+const ROW_HEIGHT = 28;
+const ROW_GAP = 14;
+
+/** Bar color for regular runs and for the fatal (final) run. */
+const BAR_COLOR = '#57534e';
+const FATAL_COLOR = '#dc2626';
+
+interface TimelineMetric {
+  label: string;
+  value: (run: DeathRunRecord) => number;
+  format: (n: number) => string;
+}
+
+const METRICS: TimelineMetric[] = [
+  { label: 'Level', value: (run) => run.level, format: (n) => `Lvl ${n}` },
+  { label: 'Kills', value: (run) => run.kills, format: (n) => `${formatNumber(n)} kills` },
+  { label: 'Duration', value: (run) => Number(run.run_time), format: (n) => formatDuration(n) },
+];
+
+interface CareerTimelineProps {
+  runs: DeathRunRecord[];
+}
+
+export default function CareerTimeline({ runs }: CareerTimelineProps) {
+  if (runs.length === 0) {
+    return <p className="text-[10px] text-center text-stone-600 italic">No run history recorded</p>;
+  }
+
+  const ordered = [...runs].sort((a, b) => a.run_index - b.run_index);
+  const fatalIndex = ordered.length - 1;
+  const slot = CHART_WIDTH / ordered.length;
+  // Keep a visible gap between bars until runs get too dense to afford one.
+  const barWidth = slot > 4 ? slot - 1.5 : slot;
+  const chartHeight = METRICS.length * (ROW_HEIGHT + ROW_GAP);
+
+  return (
+    <div className="w-full">
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${chartHeight}`}
+        width="100%"
+        role="img"
+        aria-label={`Career timeline across ${ordered.length} runs`}
+      >
+        {METRICS.map((metric, row) => {
+          const top = row * (ROW_HEIGHT + ROW_GAP) + ROW_GAP - 4;
+          const max = Math.max(1, ...ordered.map(metric.value));
+          return (
+            <g key={metric.label}>
+              <text x={0} y={top - 3} fontSize={7} fill="#a8a29e" letterSpacing={1}>
+                {metric.label.toUpperCase()}
+              </text>
+              <text x={CHART_WIDTH} y={top - 3} fontSize={7} fill="#78716c" textAnchor="end">
+                max {metric.format(max)}
+              </text>
+              <line x1={0} y1={top + ROW_HEIGHT} x2={CHART_WIDTH} y2={top + ROW_HEIGHT} stroke="#44403c" strokeWidth={0.5} />
+              {ordered.map((run, idx) => {
+                const value = metric.value(run);
+                // Zero-valued runs still get a sliver so the run count stays readable.
+                const height = Math.max(1, (value / max) * ROW_HEIGHT);
+                return (
+                  <rect
+                    key={run.run_index}
+                    x={idx * slot}
+                    y={top + ROW_HEIGHT - height}
+                    width={barWidth}
+                    height={height}
+                    fill={idx === fatalIndex ? FATAL_COLOR : BAR_COLOR}
+                  >
+                    <title>{`Run ${run.run_index + 1}: ${metric.format(value)}`}</title>
+                  </rect>
+                );
+              })}
+            </g>
+          );
+        })}
+      </svg>
+      <div className="flex justify-between text-[9px] uppercase tracking-widest text-stone-600">
+        <span>Run 1</span>
+        <span className="text-red-700">Fatal run {ordered.length}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+// CensusView.tsx
+// "The Census of the Dead": global statistics over every approved hero, aggregated by the census_* views.
+// Deaths per day, the level heroes died at, what killed them, median career playtime and runs before death.
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { formatDuration, formatNumber } from '../lib/format';
+import { getDamageTypeLabel } from '../lib/damageTypes';
+import { CENSUS_DAYS, fetchCensus, type Census } from '../lib/census';
+
+/** Bar colors per damage type, matching the killing blow colors on the tombstones. */
+const DAMAGE_BAR_COLORS: Record<number, string> = {
+  0: 'bg-red-600/80',
+  1: 'bg-orange-500/80',
+  2: 'bg-emerald-500/80',
+  3: 'bg-cyan-400/80',
+};
+
+type CensusState =
+  | { status: 'loading' }
+  | { status: 'error'; message: string }
+  | { status: 'ready'; census: Census };
+
+function SummaryCard({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-xl border border-stone-800 bg-stone-900/60 p-4 text-center backdrop-blur-sm">
+      <p className="mb-1 text-[10px] font-semibold uppercase tracking-widest text-stone-500">{label}</p>
+      <p className="font-cinzel text-2xl font-bold text-stone-200">{value}</p>
+    </div>
+  );
+}
+
+function ChartSection({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="rounded-xl border border-stone-800 bg-stone-900/60 p-5 backdrop-blur-sm">
+      <h3 className="font-cinzel mb-4 text-xs font-semibold uppercase tracking-widest text-stone-400">{title}</h3>
+      {children}
+    </section>
+  );
+}
+
+/** Vertical bars scaled to the tallest one; each bar's tooltip carries its exact value. */
+function ColumnChart({ bars, from, to }: { bars: Array<{ key: string; title: string; value: number }>; from: string; to: string }) {
+  const max = Math.max(1, ...bars.map((bar) => bar.value));
+  return (
+    <div>
+      <div className="flex h-40 items-end gap-px" role="img" aria-label={`${bars.length} bars from ${from} to ${to}`}>
+        {bars.map((bar, idx) => (
+          <motion.div
+            key={bar.key}
+            title={bar.title}
+            className="min-w-0 flex-1 rounded-t-sm bg-red-800/80 transition-colors hover:bg-red-500"
+            initial={{ height: 0 }}
+            animate={{ height: `${(bar.value / max) * 100}%` }}
+            transition={{ duration: 0.5, delay: Math.min(idx * 0.01, 0.3) }}
+          />
+        ))}
+      </div>
+      <div className="mt-2 flex justify-between text-[10px] uppercase tracking-widest text-stone-600">
+        <span>{from}</span>
+        <span>{to}</span>
+      </div>
+    </div>
+  );
+}
+
+export default function CensusView() {
+  const [state, setState] = useState<CensusState>({ status: 'loading' });
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchCensus()
+      .then((census) => {
+        if (!cancelled) setState({ status: 'ready', census });
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setState({ status: 'error', message: err.message });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const heading = (
+    <h2 className="font-cinzel mb-8 text-center text-xl font-semibold tracking-widest text-stone-300 uppercase">
+      The Census of the Dead
+    </h2>
+  );
+
+  if (state.status !== 'ready') {
+    return (
+      <section>
+        {heading}
+        {state.status === 'loading' && <p className="text-zinc-500">Counting the graves…</p>}
+        {state.status === 'error' && <p className="text-center text-red-400">Failed to take the census: {state.message}.</p>}
+      </section>
+    );
+  }
+
+  const { summary, deathsPerDay, levels, damageTypes } = state.census;
+  if (summary.totalDeaths === 0) {
+    return (
+      <section>
+        {heading}
+        <p className="text-zinc-500">No souls to count yet.</p>
+      </section>
+    );
+  }
+
+  // Levels nobody died at still get a (empty) column, so the histogram keeps its shape.
+  const minLevel = levels[0]?.level ?? 0;
+  const maxLevel = levels[levels.length - 1]?.level ?? 0;
+  const deathsByLevel = new Map(levels.map((entry) => [entry.level, entry.deaths]));
+  const levelBars = Array.from({ length: maxLevel - minLevel + 1 }, (_, idx) => {
+    const level = minLevel + idx;
+    const deaths = deathsByLevel.get(level) ?? 0;
+    return { key: String(level), title: `Level ${level}: ${deaths} ${deaths === 1 ? 'death' : 'deaths'}`, value: deaths };
+  });
+  const dayBars = deathsPerDay.map(({ day, deaths }) => ({
+    key: day,
+    title: `${new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, { timeZone: 'UTC' })}: ${deaths} ${deaths === 1 ? 'death' : 'deaths'}`,
+    value: deaths,
+  }));
+  const formatDay = (day: string) => new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+  return (
+    <section>
+      {heading}
+
+      <motion.div className="space-y-6" initial={{ opacity: 0, y: 12 }} animate={{ opacity: 1, y: 0 }} transition={{ duration: 0.4 }}>
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          <SummaryCard label="Heroes counted" value={formatNumber(summary.totalDeaths)} />
+          <SummaryCard label="Median playtime" value={formatDuration(summary.medianCareerSeconds)} />
+          <SummaryCard label="Runs before death" value={summary.averageRuns === null ? '—' : summary.averageRuns.toFixed(1)} />
+          <SummaryCard label="Average level" value={summary.averageLevel === null ? '—' : summary.averageLevel.toFixed(1)} />
+        </div>
+
+        <ChartSection title={`Deaths per day (last ${CENSUS_DAYS} days, UTC)`}>
+          <ColumnChart bars={dayBars} from={formatDay(deathsPerDay[0].day)} to={formatDay(deathsPerDay[deathsPerDay.length - 1].day)} />
+        </ChartSection>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <ChartSection title="Level at death">
+            <ColumnChart bars={levelBars} from={`Lvl ${minLevel}`} to={`Lvl ${maxLevel}`} />
+          </ChartSection>
+
+          <ChartSection title="The killing blow">
+            <ul className="space-y-3">
+              {damageTypes.map(({ damageType, deaths }) => {
+                const share = (deaths / summary.totalDeaths) * 100;
+                return (
+                  <li key={damageType} className="space-y-1">
+                    <div className="flex justify-between text-sm">
+                      <span className="text-stone-300">{getDamageTypeLabel(damageType)}</span>
+                      <span className="text-stone-500">
+                        {formatNumber(deaths)} · {share.toFixed(1)}%
+                      </span>
+                    </div>
+                    <div className="h-2 overflow-hidden rounded-full bg-stone-800">
+                      <motion.div
+                        className={`h-full rounded-full ${DAMAGE_BAR_COLORS[damageType] ?? 'bg-stone-500'}`}
+                        initial={{ width: 0 }}
+                        animate={{ width: `${share}%` }}
+                        transition={{ duration: 0.6 }}
+                      />
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </ChartSection>
+        </div>
+      </motion.div>
+    </section>
+  );
+}
@@ -0,0 +1,144 @@
+// Condolences.tsx
+// Short messages left under a hero by signed-in users, shown in the expanded tombstone and on the hero page.
+// Posting sanitizes like an epitaph (post-condolence Edge Function); authors and the hero's owner can remove a message.
+
+import { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { MessageSquare, X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { DeathCondolenceRecord, DeathRecord } from '../types';
+import { MAX_CONDOLENCE_LENGTH, sanitizeCondolence } from '../lib/sanitize';
+import { deleteCondolence, fetchCondolences, postCondolence } from '../lib/condolences';
+
+interface CondolencesProps {
+  death: Pick<DeathRecord, 'id' | 'user_id' | 'review_status'>;
+  /** Tighter layout for the tombstone card. */
+  compact?: boolean;
+}
+
+export default function Condolences({ death, compact = false }: CondolencesProps) {
+  const [condolences, setCondolences] = useState<DeathCondolenceRecord[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [posting, setPosting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchCondolences(death.id)
+      .then((rows) => {
+        if (!cancelled) setCondolences(rows);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setLoadError(err.message);
+      });
+    supabase.auth.getUser().then(({ data: { user } }) => {
+      if (!cancelled) setUserId(user?.id ?? null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [death.id]);
+
+  const isOwner = userId != null && userId === death.user_id;
+  const engraved = sanitizeCondolence(draft);
+
+  async function handlePost(e: React.FormEvent) {
+    e.preventDefault();
+    if (!engraved) return;
+    setPosting(true);
+    setError(null);
+    try {
+      const posted = await postCondolence(death.id, engraved);
+      setCondolences((prev) => [...(prev ?? []), posted]);
+      setDraft('');
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'The condolence could not be left. Please try again.');
+    } finally {
+      setPosting(false);
+    }
+  }
+
+  async function handleDelete(id: string) {
+    setError(null);
+    try {
+      await deleteCondolence(id);
+      setCondolences((prev) => (prev ?? []).filter((condolence) => condolence.id !== id));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'The message could not be removed. Please try again.');
+    }
+  }
+
+  const textSize = compact ? 'text-xs' : 'text-sm';
+
+  return (
+    <div className={compact ? 'space-y-2' : 'space-y-3'}>
+      {loadError && <p className={`${textSize} text-red-400`}>Failed to load the condolences: {loadError}.</p>}
+      {!loadError && condolences === null && <p className={`${textSize} italic text-stone-600`}>Listening for whispers…</p>}
+      {condolences?.length === 0 && <p className={`${textSize} italic text-stone-600`}>No condolences yet.</p>}
+
+      {condolences && condolences.length > 0 && (
+        <ul className={compact ? 'space-y-1.5' : 'space-y-2'}>
+          <AnimatePresence initial={false}>
+            {condolences.map((condolence) => (
+              <motion.li
+                key={condolence.id}
+                initial={{ opacity: 0, y: 4 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, height: 0 }}
+                className={`group/condolence flex items-start gap-2 ${textSize}`}
+              >
+                <p className="min-w-0 flex-1 break-words text-stone-300">
+                  <span className="font-semibold text-stone-400">{condolence.author_name}</span>{' '}
+                  {condolence.body}
+                  {!compact && (
+                    <span className="ml-2 text-xs text-stone-600">{new Date(condolence.created_at).toLocaleDateString()}</span>
+                  )}
+                </p>
+                {(isOwner || condolence.user_id === userId) && (
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(condolence.id)}
+                    className="shrink-0 text-stone-600 transition hover:text-red-400"
+                    title={condolence.user_id === userId ? 'Remove your message' : 'Remove this message from your hero'}
+                    aria-label="Remove message"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                )}
+              </motion.li>
+            ))}
+          </AnimatePresence>
+        </ul>
+      )}
+
+      {userId && death.review_status === 'approved' && (
+        <form onSubmit={handlePost} className="flex items-center gap-2">
+          <input
+            type="text"
+            maxLength={MAX_CONDOLENCE_LENGTH}
+            placeholder="Leave a few words…"
+            value={draft}
+            disabled={posting}
+            onChange={(e) => setDraft(e.target.value)}
+            aria-label="Condolence message"
+            className={`min-w-0 flex-1 rounded-lg border border-stone-700 bg-stone-800 px-3 py-1.5 ${textSize} text-stone-100 placeholder:text-stone-500 focus:border-red-600 focus:outline-none focus:ring-1 focus:ring-red-600/50 disabled:opacity-50`}
+          />
+          <button
+            type="submit"
+            disabled={posting || !engraved}
+            className="flex shrink-0 items-center gap-1.5 rounded-full border border-red-900 bg-red-950/30 px-3 py-1.5 text-xs uppercase tracking-wider text-red-300 transition hover:bg-red-900/50 disabled:opacity-50"
+          >
+            <MessageSquare className="h-3.5 w-3.5" aria-hidden />
+            {posting ? 'Sending…' : 'Send'}
+          </button>
+        </form>
+      )}
+      {draft.trim() !== '' && engraved !== draft.trim() && (
+        <p className="text-xs text-stone-500">Will read: <span className="text-stone-400">{engraved ?? '(nothing)'}</span></p>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+// EpitaphEditor.tsx
+// Inline form for the owner of a hero to engrave, change or clear its epitaph.
+// Shows the sanitized preview while typing; the edit-hero Edge Function applies the same rules before saving.
+
+import { useState } from 'react';
+import { MAX_EPITAPH_LENGTH, sanitizeEpitaph } from '../lib/sanitize';
+import { editHero } from '../lib/heroEdits';
+
+interface EpitaphEditorProps {
+  heroId: string;
+  epitaph: string | null;
+  onSaved: (epitaph: string | null) => void;
+  onCancel: () => void;
+}
+
+export default function EpitaphEditor({ heroId, epitaph, onSaved, onCancel }: EpitaphEditorProps) {
+  const [draft, setDraft] = useState(epitaph ?? '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const engraved = sanitizeEpitaph(draft);
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const saved = await editHero(heroId, { epitaph: engraved });
+      onSaved(saved.epitaph);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'The stone could not be engraved. Please try again.');
+      setSaving(false);
+    }
+  }
+
+  return (
+    <form onSubmit={handleSave} className="space-y-2">
+      <input
+        type="text"
+        maxLength={MAX_EPITAPH_LENGTH}
+        placeholder="Here lies a hero who should have dodged."
+        value={draft}
+        disabled={saving}
+        onChange={(e) => setDraft(e.target.value)}
+        aria-label="Epitaph"
+        autoFocus
+        className="w-full rounded-lg border border-stone-600 bg-stone-800 px-3 py-1.5 text-sm italic text-stone-100 placeholder:text-stone-500 focus:border-red-600 focus:outline-none focus:ring-1 focus:ring-red-600/50 disabled:opacity-50"
+      />
+      <div className="flex items-center gap-3 text-xs text-stone-500">
+        <span>
+          {draft.length}/{MAX_EPITAPH_LENGTH}
+          {draft.trim() !== '' && engraved !== draft.trim() && <> · Will read: <span className="italic text-stone-400">{engraved ?? '(nothing)'}</span></>}
+        </span>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={saving}
+          className="ml-auto uppercase tracking-wider transition hover:text-stone-300 disabled:opacity-40"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="rounded-full border border-red-900 bg-red-950/30 px-4 py-1 uppercase tracking-wider text-red-300 transition hover:bg-red-900/50 disabled:opacity-50"
+        >
+          {saving ? 'Engraving…' : 'Engrave'}
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </form>
+  );
+}
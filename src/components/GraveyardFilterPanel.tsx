@@ -0,0 +1,147 @@
+// GraveyardFilterPanel.tsx
+// Advanced Graveyard filters: level range, killing damage type, skill used, death date range and minimum kills/bosses.
+// Purely controlled: App owns the filter state (and mirrors it into the URL).
+
+import { X } from 'lucide-react';
+import { countActiveFilters, type GraveyardFilters } from '../lib/graveyard';
+import { DAMAGE_TYPES } from '../lib/damageTypes';
+import { SKILL_OPTIONS } from '../lib/skills';
+
+interface GraveyardFilterPanelProps {
+  filters: GraveyardFilters;
+  onChange: (filters: GraveyardFilters) => void;
+  onClear: () => void;
+}
+
+const inputClass =
+  'w-full rounded-lg border border-stone-800 bg-stone-900/60 px-3 py-1.5 text-sm text-stone-200 placeholder-stone-600 focus:border-red-900 focus:ring-1 focus:ring-red-900 focus:outline-none';
+const labelClass = 'mb-1 block text-[10px] font-semibold uppercase tracking-widest text-stone-500';
+
+/** Empty input clears the filter; anything else is read as a non-negative whole number. */
+function toCount(value: string): number | null {
+  if (value.trim() === '') return null;
+  const n = Math.floor(Number(value));
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+export default function GraveyardFilterPanel({ filters, onChange, onClear }: GraveyardFilterPanelProps) {
+  const set = <K extends keyof GraveyardFilters>(key: K, value: GraveyardFilters[K]) =>
+    onChange({ ...filters, [key]: value });
+
+  return (
+    <div className="w-full max-w-3xl rounded-xl border border-stone-800 bg-stone-900/60 p-4 backdrop-blur-sm">
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <div>
+          <span className={labelClass}>Level</span>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={0}
+              placeholder="Min"
+              aria-label="Minimum level"
+              value={filters.minLevel ?? ''}
+              onChange={(e) => set('minLevel', toCount(e.target.value))}
+              className={inputClass}
+            />
+            <span className="text-stone-600">–</span>
+            <input
+              type="number"
+              min={0}
+              placeholder="Max"
+              aria-label="Maximum level"
+              value={filters.maxLevel ?? ''}
+              onChange={(e) => set('maxLevel', toCount(e.target.value))}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <label>
+          <span className={labelClass}>Killed by</span>
+          <select
+            value={filters.damageType ?? ''}
+            onChange={(e) => set('damageType', e.target.value === '' ? null : Number(e.target.value))}
+            className={inputClass}
+          >
+            <option value="">Any damage</option>
+            {DAMAGE_TYPES.map((type) => (
+              <option key={type.id} value={type.id}>{type.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          <span className={labelClass}>Used skill</span>
+          <select
+            value={filters.skillId ?? ''}
+            onChange={(e) => set('skillId', e.target.value === '' ? null : Number(e.target.value))}
+            className={inputClass}
+          >
+            <option value="">Any skill</option>
+            {SKILL_OPTIONS.map((skill) => (
+              <option key={skill.id} value={skill.id}>{skill.name}</option>
+            ))}
+          </select>
+        </label>
+
+        <div>
+          <span className={labelClass}>Minimum</span>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={0}
+              placeholder="Kills"
+              aria-label="Minimum kills"
+              value={filters.minKills ?? ''}
+              onChange={(e) => set('minKills', toCount(e.target.value))}
+              className={inputClass}
+            />
+            <input
+              type="number"
+              min={0}
+              placeholder="Bosses"
+              aria-label="Minimum bosses"
+              value={filters.minBosses ?? ''}
+              onChange={(e) => set('minBosses', toCount(e.target.value))}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="sm:col-span-2">
+          <span className={labelClass}>Died between</span>
+          <div className="flex items-center gap-2">
+            <input
+              type="date"
+              aria-label="Died on or after"
+              value={filters.diedFrom ?? ''}
+              onChange={(e) => set('diedFrom', e.target.value || null)}
+              className={`${inputClass} [color-scheme:dark]`}
+            />
+            <span className="text-stone-600">–</span>
+            <input
+              type="date"
+              aria-label="Died on or before"
+              value={filters.diedTo ?? ''}
+              onChange={(e) => set('diedTo', e.target.value || null)}
+              className={`${inputClass} [color-scheme:dark]`}
+            />
+          </div>
+        </div>
+
+        <div className="flex items-end justify-end sm:col-span-2">
+          {countActiveFilters(filters) > 0 && (
+            <button
+              type="button"
+              onClick={onClear}
+              className="flex items-center gap-1 rounded-full border border-stone-800 px-4 py-1.5 text-xs font-semibold uppercase tracking-wider text-stone-400 transition hover:border-stone-600 hover:text-stone-200"
+            >
+              <X className="h-3.5 w-3.5" aria-hidden />
+              Clear filters
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,342 @@
+// HeroPage.tsx
+// Permalink page for a single fallen hero (`/hero/:id`): the full tombstone plus the complete stat breakdown.
+// Keeps the document title and link-preview tags in sync with the hero while it is shown.
+// The hero's owner can engrave or change its epitaph here; everyone sees who paid respects and the condolences left.
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Flame, PenLine } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { DeathRecord, DeathRespectRecord, DeathRunRecord } from '../types';
+import { formatDuration, formatNumber } from '../lib/format';
+import { getDamageTypeLabel } from '../lib/damageTypes';
+import { getSkillName } from '../lib/skills';
+import { SITE_DESCRIPTION, SITE_TITLE, describeHero, type HeroMeta } from '../lib/heroMeta';
+import { graveyardPath, mournerPath, navigate } from '../lib/router';
+import { MOURNER_LIST_LIMIT, fetchMourners } from '../lib/respects';
+import Tombstone from './Tombstone';
+import EpitaphEditor from './EpitaphEditor';
+import Condolences from './Condolences';
+
+interface HeroPageProps {
+  heroId: string;
+  /** The signed-in user, if any; owners get the epitaph editor. */
+  currentUserId?: string | null;
+}
+
+type HeroState =
+  | { status: 'loading' }
+  | { status: 'missing' }
+  | { status: 'error'; message: string }
+  | { status: 'ready'; death: DeathRecord; runs: DeathRunRecord[] };
+
+/** Points the title and the meta tags from index.html at the given text. */
+function applyMeta(meta: HeroMeta): void {
+  document.title = meta.title;
+  const tags: Array<[string, string]> = [
+    ['meta[name="description"]', meta.description],
+    ['meta[property="og:title"]', meta.title],
+    ['meta[property="og:description"]', meta.description],
+    ['meta[name="twitter:title"]', meta.title],
+    ['meta[name="twitter:description"]', meta.description],
+  ];
+  for (const [selector, content] of tags) {
+    document.querySelector(selector)?.setAttribute('content', content);
+  }
+}
+
+function StatRow({ label, value, className = 'text-stone-300' }: { label: string; value: React.ReactNode; className?: string }) {
+  return (
+    <>
+      <dt className="text-stone-500">{label}</dt>
+      <dd className={`text-right ${className}`}>{value}</dd>
+    </>
+  );
+}
+
+function StatSection({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="rounded-xl border border-stone-800 bg-stone-900/60 p-5 backdrop-blur-sm">
+      <h3 className="font-cinzel mb-3 text-xs font-semibold uppercase tracking-widest text-stone-400">{title}</h3>
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-1.5 text-sm">{children}</dl>
+    </section>
+  );
+}
+
+/** Who lit a candle for the hero, newest first. Refetches whenever `refreshKey` changes. */
+function MournerList({ heroId, refreshKey, currentUserId }: { heroId: string; refreshKey: number; currentUserId?: string | null }) {
+  const [mourners, setMourners] = useState<DeathRespectRecord[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchMourners(heroId)
+      .then((rows) => {
+        if (cancelled) return;
+        setMourners(rows);
+        setError(null);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [heroId, refreshKey]);
+
+  return (
+    <section className="rounded-xl border border-stone-800 bg-stone-900/60 p-5 backdrop-blur-sm">
+      <h3 className="font-cinzel mb-3 flex items-center gap-2 text-xs font-semibold uppercase tracking-widest text-stone-400">
+        <Flame className="h-3.5 w-3.5 text-orange-500/80" aria-hidden />
+        Respects Paid
+      </h3>
+      {error && <p className="text-sm text-red-400">Failed to load the mourners: {error}.</p>}
+      {!error && mourners === null && <p className="text-sm text-stone-500">Counting the candles…</p>}
+      {!error && mourners?.length === 0 && <p className="text-sm text-stone-500">No candles yet. Be the first to light one.</p>}
+      {!error && mourners && mourners.length > 0 && (
+        <ul className="grid gap-x-6 gap-y-1.5 text-sm sm:grid-cols-2">
+          {mourners.map((mourner) => (
+            <li key={mourner.id} className="flex items-baseline justify-between gap-3">
+              <span className={`truncate ${mourner.user_id === currentUserId ? 'text-orange-300' : 'text-stone-300'}`}>
+                {mourner.mourner_name ?? 'Unknown Soul'}
+                {mourner.user_id === currentUserId && <span className="ml-1.5 text-xs text-stone-500">(you)</span>}
+              </span>
+              <span className="shrink-0 text-xs text-stone-500">{new Date(mourner.created_at).toLocaleDateString()}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {mourners && mourners.length === MOURNER_LIST_LIMIT && (
+        <p className="mt-3 text-xs text-stone-600">Showing the latest {MOURNER_LIST_LIMIT} mourners.</p>
+      )}
+    </section>
+  );
+}
+
+export default function HeroPage({ heroId, currentUserId }: HeroPageProps) {
+  const [state, setState] = useState<HeroState>({ status: 'loading' });
+  const [editingEpitaph, setEditingEpitaph] = useState(false);
+  const [respectsKey, setRespectsKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      supabase.from('deaths').select('*').eq('id', heroId).maybeSingle(),
+      supabase.from('death_runs').select('*').eq('death_id', heroId).order('run_index', { ascending: true }),
+    ]).then(([deathResult, runsResult]) => {
+      if (cancelled) return;
+      if (deathResult.error) {
+        setState({ status: 'error', message: deathResult.error.message });
+      } else if (!deathResult.data) {
+        setState({ status: 'missing' });
+      } else {
+        setState({
+          status: 'ready',
+          death: deathResult.data as DeathRecord,
+          runs: (runsResult.data as DeathRunRecord[] | null) ?? [],
+        });
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [heroId]);
+
+  useEffect(() => {
+    if (state.status !== 'ready') return;
+    applyMeta(describeHero(state.death));
+    return () => applyMeta({ title: SITE_TITLE, description: SITE_DESCRIPTION });
+  }, [state]);
+
+  const backLink = (
+    <a
+      href={graveyardPath()}
+      onClick={(e) => {
+        e.preventDefault();
+        navigate(graveyardPath());
+      }}
+      className="mb-8 inline-flex items-center gap-2 text-sm text-stone-500 transition hover:text-stone-300"
+    >
+      <ArrowLeft className="h-4 w-4" aria-hidden />
+      Back to the Graveyard
+    </a>
+  );
+
+  if (state.status !== 'ready') {
+    return (
+      <section>
+        {backLink}
+        {state.status === 'loading' && <p className="text-zinc-500">Unearthing the hero…</p>}
+        {state.status === 'missing' && (
+          <p className="text-zinc-500">No hero rests here. The grave may have been removed, or is still awaiting review.</p>
+        )}
+        {state.status === 'error' && <p className="text-red-400">Failed to load the hero: {state.message}.</p>}
+      </section>
+    );
+  }
+
+  const { death, runs } = state;
+  const skillIds = (death.skill_ids ?? []).filter((id) => id > 0);
+  const isOwner = currentUserId != null && currentUserId === death.user_id;
+
+  return (
+    <section>
+      {backLink}
+
+      <motion.div
+        className="grid items-start gap-10 md:grid-cols-[300px_1fr]"
+        initial={{ opacity: 0, y: 12 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.4 }}
+      >
+        <div className="flex justify-center">
+          <Tombstone
+            death={death}
+            mournedBy={death.mourned_by}
+            runs={runs}
+            alwaysExpanded
+            onUpdate={(respects) => {
+              setState({ ...state, death: { ...death, respects_paid: respects } });
+              setRespectsKey((key) => key + 1);
+            }}
+          />
+        </div>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <h2 className="font-cinzel text-2xl font-bold tracking-wide text-stone-100">{death.character_name}</h2>
+            {editingEpitaph ? (
+              <EpitaphEditor
+                heroId={death.id}
+                epitaph={death.epitaph}
+                onSaved={(epitaph) => {
+                  setState({ ...state, death: { ...death, epitaph } });
+                  setEditingEpitaph(false);
+                }}
+                onCancel={() => setEditingEpitaph(false)}
+              />
+            ) : (
+              <div className="flex items-center gap-3">
+                {death.epitaph && <p className="italic text-stone-400">“{death.epitaph}”</p>}
+                {isOwner && (
+                  <button
+                    type="button"
+                    onClick={() => setEditingEpitaph(true)}
+                    className="flex items-center gap-1.5 text-xs uppercase tracking-wider text-stone-500 transition hover:text-stone-300"
+                  >
+                    <PenLine className="h-3.5 w-3.5" aria-hidden />
+                    {death.epitaph ? 'Edit epitaph' : 'Engrave an epitaph'}
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <StatSection title="The Death">
+              <StatRow label="Level" value={death.level} />
+              <StatRow
+                label="Killing blow"
+                value={`${formatNumber(Math.round(Number(death.damage_taken ?? 0)))} ${getDamageTypeLabel(death.last_run_damage_type)}`}
+                className="text-red-400"
+              />
+              <StatRow label="Died on" value={new Date(death.death_date).toLocaleDateString()} />
+              <StatRow label="Respects paid" value={death.respects_paid} />
+              {death.mourned_by && (
+                <StatRow
+                  label="Mourned by"
+                  value={
+                    <a
+                      href={mournerPath(death.user_id)}
+                      onClick={(e) => {
+                        e.preventDefault();
+                        navigate(mournerPath(death.user_id));
+                      }}
+                      className="underline decoration-stone-600 underline-offset-2 transition hover:text-red-300"
+                    >
+                      {death.mourned_by}
+                    </a>
+                  }
+                />
+              )}
+            </StatSection>
+
+            <StatSection title="Career Totals">
+              <StatRow label="Playtime" value={formatDuration(death.career_seconds)} className="text-emerald-600/90" />
+              <StatRow label="Runs" value={death.career_runs ?? 0} />
+              <StatRow label="Kills" value={formatNumber(death.career_kills)} className="text-rose-500/90" />
+              <StatRow label="Elites" value={formatNumber(death.career_elite_kills)} className="text-orange-600/90" />
+              <StatRow label="Bosses" value={formatNumber(death.career_bosses)} className="text-amber-600/90" />
+              <StatRow label="Gold" value={formatNumber(death.career_gold)} className="text-amber-500/90" />
+              <StatRow label="Soulstones" value={formatNumber(death.career_soulstones)} className="text-fuchsia-500/90" />
+            </StatSection>
+
+            <StatSection title="Final Run">
+              <StatRow label="Duration" value={formatDuration(death.last_run_duration)} />
+              <StatRow label="Kills" value={formatNumber(death.last_run_kills)} />
+              <StatRow label="Regular" value={formatNumber(death.last_run_regular_kills)} />
+              <StatRow label="Elites" value={formatNumber(death.last_run_elite_kills)} className="text-orange-600/90" />
+              <StatRow label="Bosses" value={formatNumber(death.last_run_boss_kills)} className="text-amber-600/90" />
+              <StatRow label="Damage dealt" value={formatNumber(Math.round(Number(death.last_run_damage_dealt ?? 0)))} />
+              <StatRow label="Gold" value={formatNumber(death.last_run_gold)} className="text-amber-500/90" />
+              <StatRow label="Soulstones" value={formatNumber(death.last_run_soulstones)} className="text-fuchsia-500/90" />
+            </StatSection>
+
+            <StatSection title="Loadout">
+              {skillIds.length === 0 && <StatRow label="Skills" value="None equipped" className="text-stone-600" />}
+              {skillIds.map((id, idx) => (
+                <StatRow key={`${id}-${idx}`} label={`Slot ${idx + 1}`} value={getSkillName(id)} />
+              ))}
+            </StatSection>
+          </div>
+
+          {runs.length > 0 && (
+            <section className="rounded-xl border border-stone-800 bg-stone-900/60 p-5 backdrop-blur-sm">
+              <h3 className="font-cinzel mb-3 text-xs font-semibold uppercase tracking-widest text-stone-400">Run History</h3>
+              <div className="overflow-x-auto">
+                <table className="w-full text-right text-xs text-stone-400">
+                  <thead className="text-[10px] uppercase tracking-widest text-stone-500">
+                    <tr>
+                      <th className="py-1 text-left font-semibold">Run</th>
+                      <th className="font-semibold">Level</th>
+                      <th className="font-semibold">Kills</th>
+                      <th className="font-semibold">Elites</th>
+                      <th className="font-semibold">Bosses</th>
+                      <th className="font-semibold">Gold</th>
+                      <th className="font-semibold">Time</th>
+                      <th className="font-semibold">Killed by</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {runs.map((run, idx) => (
+                      <tr
+                        key={run.id}
+                        className={`border-t border-stone-800/60 ${idx === runs.length - 1 ? 'text-red-400' : ''}`}
+                      >
+                        <td className="py-1 text-left">{run.run_index + 1}</td>
+                        <td>{run.level}</td>
+                        <td>{formatNumber(run.kills)}</td>
+                        <td>{formatNumber(run.elite_kills)}</td>
+                        <td>{formatNumber(run.boss_kills)}</td>
+                        <td>{formatNumber(run.gold)}</td>
+                        <td>{formatDuration(Number(run.run_time))}</td>
+                        <td>{run.damage_type === null ? '—' : getDamageTypeLabel(run.damage_type)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          )}
+
+          <MournerList heroId={death.id} refreshKey={respectsKey} currentUserId={currentUserId} />
+
+          <section className="rounded-xl border border-stone-800 bg-stone-900/60 p-5 backdrop-blur-sm">
+            <h3 className="font-cinzel mb-3 text-xs font-semibold uppercase tracking-widest text-stone-400">Condolences</h3>
+            <Condolences death={death} />
+          </section>
+        </div>
+      </motion.div>
+    </section>
+  );
+}
@@ -0,0 +1,29 @@
+// InfiniteScrollSentinel.tsx
+// Invisible marker placed after a list; calls onVisible when it scrolls into view so the next page can load.
+
+import { useEffect, useRef } from 'react';
+
+interface InfiniteScrollSentinelProps {
+  onVisible: () => void;
+  /** Start loading a little before the end of the list is reached. */
+  rootMargin?: string;
+}
+
+export default function InfiniteScrollSentinel({ onVisible, rootMargin = '400px' }: InfiniteScrollSentinelProps) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const node = ref.current;
+    if (!node) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) onVisible();
+      },
+      { rootMargin }
+    );
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [onVisible, rootMargin]);
+
+  return <div ref={ref} aria-hidden className="h-px w-full" />;
+}
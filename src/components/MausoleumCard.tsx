@@ -0,0 +1,86 @@
+// MausoleumCard.tsx
+// Displays a softcore or still-living character as a marble plaque.
+// Deliberately distinct from the Tombstone so archived heroes never read as Hardcore deaths.
+
+import { Landmark, HeartPulse, User } from 'lucide-react';
+import { Filter } from 'bad-words';
+import type { MausoleumRecord } from '../types';
+import { formatDuration, formatNumber } from '../lib/format';
+import { getSkillIconSrc } from '../lib/skills';
+
+const filter = new Filter();
+
+interface MausoleumCardProps {
+  entry: MausoleumRecord;
+}
+
+export default function MausoleumCard({ entry }: MausoleumCardProps) {
+  const skillIds = entry.skill_ids || [];
+  const careerSeconds = entry.career_seconds != null ? Number(entry.career_seconds) : 0;
+  const careerGold = entry.career_gold != null ? Number(entry.career_gold) : 0;
+
+  return (
+    <article className="relative w-full max-w-[300px] mx-auto rounded-md border-2 border-slate-700 bg-slate-900/90 bg-card-texture shadow-2xl transition-colors duration-500 hover:border-sky-900">
+      {/* Pediment */}
+      <div className="flex flex-col items-center gap-2 border-b border-slate-700/70 px-6 pb-4 pt-6 text-center">
+        <Landmark className="h-10 w-10 text-sky-300/80" aria-hidden />
+        <h3 className="font-cinzel font-bold tracking-wider text-slate-100 whitespace-nowrap overflow-hidden text-ellipsis px-1 max-w-full">
+          {entry.character_name}
+        </h3>
+        {entry.is_hardcore ? (
+          <span className="flex items-center gap-1 rounded-full border border-emerald-800/60 bg-emerald-950/30 px-3 py-0.5 text-[10px] font-semibold uppercase tracking-widest text-emerald-400">
+            <HeartPulse className="h-3 w-3" aria-hidden /> Still Walks · Hardcore
+          </span>
+        ) : (
+          <span className="rounded-full border border-sky-800/60 bg-sky-950/30 px-3 py-0.5 text-[10px] font-semibold uppercase tracking-widest text-sky-300">
+            Softcore · {entry.total_deaths} {entry.total_deaths === 1 ? 'Death' : 'Deaths'}
+          </span>
+        )}
+      </div>
+
+      <div className="space-y-3 px-6 py-4 text-xs text-slate-400">
+        <p className="text-center text-sm text-slate-500">
+          Highest Lvl <span className="text-slate-200">{entry.level}</span>
+        </p>
+
+        <div className="grid grid-cols-2 gap-x-2 gap-y-1">
+          <span>Kills:</span> <span className="text-right text-rose-500/90">{formatNumber(entry.career_kills)}</span>
+          <span>Elites:</span> <span className="text-right text-orange-600/90">{formatNumber(entry.career_elite_kills)}</span>
+          <span>Bosses:</span> <span className="text-right text-amber-600/90">{formatNumber(entry.career_bosses)}</span>
+          <span>Gold:</span> <span className="text-right text-amber-500/90">{formatNumber(careerGold)}</span>
+          <span>Soulstones:</span> <span className="text-right text-fuchsia-500/90">{formatNumber(entry.career_soulstones)}</span>
+          <span>Runs:</span> <span className="text-right text-slate-300">{entry.career_runs ?? 0}</span>
+          <span>Playtime:</span> <span className="text-right text-emerald-600/90">{formatDuration(careerSeconds)}</span>
+        </div>
+
+        {/* Equipped Skills */}
+        <div className="flex justify-center gap-2 border-t border-slate-700/70 pt-3 min-h-[50px]">
+          {skillIds.length === 0 && <span className="text-[10px] text-slate-600 italic py-2">No skills equipped</span>}
+          {skillIds.map((skillId, idx) => {
+            const iconSrc = getSkillIconSrc(skillId);
+            return (
+              <div
+                key={idx}
+                className="flex h-10 w-10 items-center justify-center rounded border border-slate-700 bg-slate-800 text-xs font-bold text-slate-500 shadow-sm overflow-hidden"
+                title={`Skill ${skillId || 'Empty'}`}
+              >
+                {iconSrc ? (
+                  <img src={iconSrc} alt={`Skill ${skillId}`} className="h-full w-full object-cover" />
+                ) : (
+                  <span className="opacity-20 text-[10px]">{skillId > 0 ? '?' : '—'}</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {entry.kept_by && (
+          <div className="flex items-center justify-center gap-1.5 pt-1 text-slate-500">
+            <User className="h-3 w-3" aria-hidden />
+            <span>Kept by <span className="text-slate-300">{filter.clean(entry.kept_by)}</span></span>
+          </div>
+        )}
+      </div>
+    </article>
+  );
+}
@@ -0,0 +1,74 @@
+// MausoleumView.tsx
+// Lists the Mausoleum: softcore and still-living characters, kept apart from the Hardcore Graveyard.
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { supabase } from '../lib/supabase';
+import type { MausoleumRecord } from '../types';
+import MausoleumCard from './MausoleumCard';
+
+interface MausoleumViewProps {
+  /** Bumped by the parent after an upload to trigger a refetch. */
+  refreshKey: number;
+}
+
+export default function MausoleumView({ refreshKey }: MausoleumViewProps) {
+  const [entries, setEntries] = useState<MausoleumRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    supabase
+      .from('mausoleum')
+      .select('*')
+      .order('archived_at', { ascending: false })
+      .then(({ data, error: err }) => {
+        if (cancelled) return;
+        setError(err ? err.message : null);
+        setEntries(err ? [] : (data as MausoleumRecord[]) ?? []);
+        setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  return (
+    <section>
+      <h2 className="font-cinzel mb-8 text-center text-xl font-semibold tracking-widest text-slate-300 uppercase">
+        The Mausoleum
+      </h2>
+
+      {loading && <p className="text-zinc-500">Opening the Mausoleum…</p>}
+      {error && <p className="text-center text-red-400">Failed to load the Mausoleum: {error}.</p>}
+      {!loading && !error && entries.length === 0 && (
+        <p className="text-zinc-500">No heroes enshrined yet. Softcore and living characters rest here.</p>
+      )}
+
+      {!loading && entries.length > 0 && (
+        <motion.ul
+          className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3"
+          initial="hidden"
+          animate="visible"
+          variants={{
+            visible: { transition: { staggerChildren: 0.06 } },
+            hidden: {},
+          }}
+        >
+          {entries.map((entry) => (
+            <motion.li
+              key={entry.id}
+              variants={{
+                hidden: { opacity: 0, y: 12 },
+                visible: { opacity: 1, y: 0 },
+              }}
+            >
+              <MausoleumCard entry={entry} />
+            </motion.li>
+          ))}
+        </motion.ul>
+      )}
+    </section>
+  );
+}
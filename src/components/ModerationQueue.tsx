@@ -0,0 +1,164 @@
+// ModerationQueue.tsx
+// Moderator-only list of heroes awaiting a verdict: held by the plausibility engine or hidden by reports.
+// Each can be restored to the Graveyard or removed (rejected; its owner still sees it under My Dead).
+
+import { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Check, Flag, Trash2 } from 'lucide-react';
+import { formatNumber } from '../lib/format';
+import { heroPath, navigate } from '../lib/router';
+import {
+  REPORT_REASONS,
+  fetchModerationQueue,
+  moderateDeath,
+  type ModerationAction,
+  type ModerationItem,
+} from '../lib/moderation';
+
+interface ModerationQueueProps {
+  /** Called after a verdict, so the Graveyard can refetch. */
+  onChange?: () => void;
+}
+
+function QueueRow({ item, onModerated }: { item: ModerationItem; onModerated: () => void }) {
+  const { death, reports } = item;
+  const [busy, setBusy] = useState<ModerationAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handle(action: ModerationAction) {
+    setBusy(action);
+    setError(null);
+    try {
+      await moderateDeath(death.id, action);
+      onModerated();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'The verdict could not be recorded. Please try again.');
+      setBusy(null);
+    }
+  }
+
+  return (
+    <motion.li
+      layout
+      initial={{ opacity: 0, y: 6 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, height: 0 }}
+      className="space-y-3 rounded-lg border border-stone-800 bg-stone-900/60 p-4 backdrop-blur-sm"
+    >
+      <div className="flex flex-wrap items-center gap-3">
+        <a
+          href={heroPath(death.id)}
+          onClick={(e) => {
+            e.preventDefault();
+            navigate(heroPath(death.id));
+          }}
+          className="min-w-0 truncate font-cinzel font-bold tracking-wide text-stone-100 transition hover:text-red-300"
+        >
+          {death.character_name}
+        </a>
+        <span className="ml-auto text-xs text-stone-500">
+          Lvl {death.level} · {formatNumber(death.career_kills)} kills · buried {new Date(death.death_date).toLocaleDateString()}
+          {death.mourned_by ? ` by ${death.mourned_by}` : ''}
+        </span>
+      </div>
+
+      {death.epitaph && <p className="text-sm italic text-stone-400">“{death.epitaph}”</p>}
+
+      {death.review_reasons.length > 0 && (
+        <ul className="list-disc space-y-0.5 pl-4 text-xs text-amber-400/80">
+          {death.review_reasons.map((reason) => <li key={reason}>{reason}</li>)}
+        </ul>
+      )}
+
+      {Object.keys(reports).length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {REPORT_REASONS.filter((reason) => reports[reason.id]).map((reason) => (
+            <span
+              key={reason.id}
+              className="flex items-center gap-1 rounded-full border border-red-900/60 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wider text-red-400"
+            >
+              <Flag className="h-3 w-3" aria-hidden />
+              {reason.label} × {reports[reason.id]}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-3">
+        {error && <p className="mr-auto text-xs text-red-400">{error}</p>}
+        <button
+          type="button"
+          onClick={() => handle('remove')}
+          disabled={busy !== null}
+          className="flex items-center gap-1.5 rounded-full border border-red-900 bg-red-950/30 px-4 py-1 text-xs uppercase tracking-wider text-red-300 transition hover:bg-red-900/50 disabled:opacity-50"
+        >
+          <Trash2 className="h-3.5 w-3.5" aria-hidden />
+          {busy === 'remove' ? 'Removing…' : 'Remove'}
+        </button>
+        <button
+          type="button"
+          onClick={() => handle('restore')}
+          disabled={busy !== null}
+          className="flex items-center gap-1.5 rounded-full border border-emerald-900/60 bg-emerald-950/20 px-4 py-1 text-xs uppercase tracking-wider text-emerald-300 transition hover:bg-emerald-900/40 disabled:opacity-50"
+        >
+          <Check className="h-3.5 w-3.5" aria-hidden />
+          {busy === 'restore' ? 'Restoring…' : 'Restore'}
+        </button>
+      </div>
+    </motion.li>
+  );
+}
+
+export default function ModerationQueue({ onChange }: ModerationQueueProps) {
+  const [items, setItems] = useState<ModerationItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchModerationQueue()
+      .then((queue) => {
+        if (!cancelled) setItems(queue);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return (
+    <section>
+      <h2 className="font-cinzel mb-8 text-center text-xl font-semibold tracking-widest text-stone-300 uppercase">
+        Moderation Queue
+      </h2>
+
+      {loading && <p className="text-zinc-500">Gathering the disputed…</p>}
+      {error && <p className="text-center text-red-400">Failed to load the queue: {error}.</p>}
+      {!loading && !error && items.length === 0 && (
+        <p className="text-zinc-500">Nothing awaits judgement. The dead rest quietly.</p>
+      )}
+
+      {!loading && items.length > 0 && (
+        <ul className="mx-auto max-w-3xl space-y-3">
+          <AnimatePresence initial={false}>
+            {items.map((item) => (
+              <QueueRow
+                key={item.death.id}
+                item={item}
+                onModerated={() => {
+                  setItems((prev) => prev.filter((other) => other.death.id !== item.death.id));
+                  onChange?.();
+                }}
+              />
+            ))}
+          </AnimatePresence>
+        </ul>
+      )}
+    </section>
+  );
+}
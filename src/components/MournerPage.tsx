@@ -0,0 +1,156 @@
+// MournerPage.tsx
+// Profile page of one user (`/mourner/:id`): their Discord name and avatar, aggregate stats over the heroes
+// they buried (from the mourner_stats RPC) and the tombstones themselves.
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, User } from 'lucide-react';
+import type { DeathRecord, ProfileRecord } from '../types';
+import { formatNumber } from '../lib/format';
+import { getDamageTypeLabel } from '../lib/damageTypes';
+import { getSkillIconSrc, getSkillName } from '../lib/skills';
+import { fetchMournerDeaths, fetchMournerStats, fetchProfile, type MournerStats } from '../lib/mourners';
+import { graveyardPath, navigate } from '../lib/router';
+import Tombstone from './Tombstone';
+
+interface MournerPageProps {
+  userId: string;
+  /** The signed-in user, if any; on their own page they also see their heroes awaiting review. */
+  currentUserId?: string | null;
+}
+
+type MournerState =
+  | { status: 'loading' }
+  | { status: 'missing' }
+  | { status: 'error'; message: string }
+  | { status: 'ready'; profile: ProfileRecord | null; stats: MournerStats; deaths: DeathRecord[] };
+
+function StatCard({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="rounded-xl border border-stone-800 bg-stone-900/60 p-4 text-center backdrop-blur-sm">
+      <p className="mb-1 text-[10px] font-semibold uppercase tracking-widest text-stone-500">{label}</p>
+      <div className="font-cinzel text-xl font-bold text-stone-200">{children}</div>
+    </div>
+  );
+}
+
+export default function MournerPage({ userId, currentUserId = null }: MournerPageProps) {
+  const [state, setState] = useState<MournerState>({ status: 'loading' });
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([fetchProfile(userId), fetchMournerStats(userId), fetchMournerDeaths(userId, currentUserId)])
+      .then(([profile, stats, deaths]) => {
+        if (cancelled) return;
+        setState(!profile && deaths.length === 0 ? { status: 'missing' } : { status: 'ready', profile, stats, deaths });
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setState({ status: 'error', message: err.message });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, currentUserId]);
+
+  const backLink = (
+    <a
+      href={graveyardPath()}
+      onClick={(e) => {
+        e.preventDefault();
+        navigate(graveyardPath());
+      }}
+      className="mb-8 inline-flex items-center gap-2 text-sm text-stone-500 transition hover:text-stone-300"
+    >
+      <ArrowLeft className="h-4 w-4" aria-hidden />
+      Back to the Graveyard
+    </a>
+  );
+
+  if (state.status !== 'ready') {
+    return (
+      <section>
+        {backLink}
+        {state.status === 'loading' && <p className="text-zinc-500">Looking up the mourner…</p>}
+        {state.status === 'missing' && <p className="text-zinc-500">No mourner by that name walks these grounds.</p>}
+        {state.status === 'error' && <p className="text-red-400">Failed to load the mourner: {state.message}.</p>}
+      </section>
+    );
+  }
+
+  const { profile, stats, deaths } = state;
+  // Users who have not signed in since profiles were added still have the name their stones were buried under.
+  const name = profile?.display_name ?? deaths[0]?.mourned_by ?? 'Unknown Soul';
+
+  return (
+    <section>
+      {backLink}
+
+      <motion.div
+        className="space-y-10"
+        initial={{ opacity: 0, y: 12 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.4 }}
+      >
+        <div className="flex flex-col items-center gap-3">
+          {profile?.avatar_url ? (
+            <img
+              src={profile.avatar_url}
+              alt=""
+              className="h-20 w-20 rounded-full border-2 border-stone-700 object-cover shadow-lg"
+            />
+          ) : (
+            <div className="flex h-20 w-20 items-center justify-center rounded-full border-2 border-stone-700 bg-stone-900">
+              <User className="h-8 w-8 text-stone-600" aria-hidden />
+            </div>
+          )}
+          <h2 className="font-cinzel text-2xl font-bold tracking-wide text-stone-100">{name}</h2>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+          <StatCard label="Heroes buried">{formatNumber(stats.totalDeaths)}</StatCard>
+          <StatCard label="Average level">{stats.averageLevel ?? '—'}</StatCard>
+          <StatCard label="Respects received">{formatNumber(stats.totalRespects)}</StatCard>
+          <StatCard label="Deadliest damage">
+            <span className="text-red-400">
+              {stats.deadliestDamageType === null ? '—' : getDamageTypeLabel(stats.deadliestDamageType)}
+            </span>
+          </StatCard>
+          <StatCard label="Favorite skills">
+            {stats.favoriteSkills.length === 0 ? (
+              '—'
+            ) : (
+              <div className="flex justify-center gap-2">
+                {stats.favoriteSkills.map((skillId) => {
+                  const iconSrc = getSkillIconSrc(skillId);
+                  return iconSrc ? (
+                    <img
+                      key={skillId}
+                      src={iconSrc}
+                      alt={getSkillName(skillId)}
+                      title={getSkillName(skillId)}
+                      className="h-8 w-8 rounded border border-stone-700 object-cover"
+                    />
+                  ) : (
+                    <span key={skillId} className="text-xs font-sans font-normal text-stone-400">{getSkillName(skillId)}</span>
+                  );
+                })}
+              </div>
+            )}
+          </StatCard>
+        </div>
+
+        {deaths.length === 0 ? (
+          <p className="text-center text-zinc-500">No heroes of theirs rest in the Graveyard.</p>
+        ) : (
+          <ul className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+            {deaths.map((death) => (
+              <li key={death.id}>
+                <Tombstone death={death} mournedBy={death.mourned_by} />
+              </li>
+            ))}
+          </ul>
+        )}
+      </motion.div>
+    </section>
+  );
+}
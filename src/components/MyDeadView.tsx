@@ -0,0 +1,289 @@
+// MyDeadView.tsx
+// "My Dead": the signed-in user's own burials, whatever their review state, with the owner's tools.
+// Rename and epitaph edits go through the edit-hero Edge Function (same sanitization as an upload);
+// exhuming deletes the hero after an explicit confirmation.
+
+import { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Hourglass, Pencil, PenLine, Trash2, XCircle } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { DeathRecord } from '../types';
+import { formatNumber } from '../lib/format';
+import { MAX_NAME_LENGTH, sanitizeCharacterName } from '../lib/sanitize';
+import { editHero, exhumeHero } from '../lib/heroEdits';
+import { heroPath, navigate } from '../lib/router';
+import EpitaphEditor from './EpitaphEditor';
+
+interface MyDeadViewProps {
+  userId: string;
+  /** Bumped by the parent after an upload to trigger a refetch. */
+  refreshKey: number;
+  /** Called after a rename, epitaph edit or exhumation, so the Graveyard can refetch. */
+  onChange?: () => void;
+}
+
+type RowMode = 'idle' | 'rename' | 'epitaph' | 'exhume';
+
+const REVIEW_BADGES: Record<Exclude<DeathRecord['review_status'], 'approved'>, { label: string; className: string; icon: React.ReactNode }> = {
+  pending: { label: 'Awaiting review', className: 'border-amber-900/60 text-amber-300', icon: <Hourglass className="h-3 w-3" /> },
+  rejected: { label: 'Rejected', className: 'border-red-900/60 text-red-400', icon: <XCircle className="h-3 w-3" /> },
+};
+
+const actionClass = 'flex items-center gap-1.5 text-xs uppercase tracking-wider text-stone-500 transition hover:text-stone-300 disabled:opacity-40';
+
+function RenameForm({ death, onSaved, onCancel }: {
+  death: DeathRecord;
+  onSaved: (characterName: string) => void;
+  onCancel: () => void;
+}) {
+  const [draft, setDraft] = useState(death.character_name);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const engraved = sanitizeCharacterName(draft || 'Fallen Hero');
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const saved = await editHero(death.id, { characterName: engraved });
+      onSaved(saved.characterName);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'The stone could not be engraved. Please try again.');
+      setSaving(false);
+    }
+  }
+
+  return (
+    <form onSubmit={handleSave} className="space-y-2">
+      <input
+        type="text"
+        maxLength={MAX_NAME_LENGTH}
+        placeholder="Fallen Hero"
+        value={draft}
+        disabled={saving}
+        onChange={(e) => setDraft(e.target.value)}
+        aria-label={`New name for ${death.character_name}`}
+        autoFocus
+        className="w-full rounded-lg border border-stone-600 bg-stone-800 px-3 py-1.5 font-cinzel text-sm text-stone-100 placeholder:text-stone-500 focus:border-red-600 focus:outline-none focus:ring-1 focus:ring-red-600/50 disabled:opacity-50"
+      />
+      <div className="flex items-center gap-3 text-xs text-stone-500">
+        {engraved !== draft.trim() && <span>Will read: <span className="font-cinzel text-stone-400">{engraved}</span></span>}
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={saving}
+          className="ml-auto uppercase tracking-wider transition hover:text-stone-300 disabled:opacity-40"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="rounded-full border border-red-900 bg-red-950/30 px-4 py-1 uppercase tracking-wider text-red-300 transition hover:bg-red-900/50 disabled:opacity-50"
+        >
+          {saving ? 'Engraving…' : 'Rename'}
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </form>
+  );
+}
+
+function ExhumeConfirm({ death, onExhumed, onCancel }: {
+  death: DeathRecord;
+  onExhumed: () => void;
+  onCancel: () => void;
+}) {
+  const [exhuming, setExhuming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleExhume() {
+    setExhuming(true);
+    setError(null);
+    try {
+      await exhumeHero(death.id);
+      onExhumed();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'The grave could not be opened. Please try again.');
+      setExhuming(false);
+    }
+  }
+
+  return (
+    <div role="alertdialog" aria-label={`Exhume ${death.character_name}`} className="space-y-3 rounded-lg border border-red-900/60 bg-red-950/20 p-3">
+      <p className="text-sm text-red-200">
+        Exhume <span className="font-cinzel font-semibold">{death.character_name}</span>? The tombstone, its run history and
+        every respect paid are removed for good.
+      </p>
+      <div className="flex items-center justify-end gap-3 text-xs">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={exhuming}
+          autoFocus
+          className="uppercase tracking-wider text-stone-400 transition hover:text-stone-200 disabled:opacity-40"
+        >
+          Keep Resting
+        </button>
+        <button
+          type="button"
+          onClick={handleExhume}
+          disabled={exhuming}
+          className="rounded-full bg-red-800 px-4 py-1 uppercase tracking-wider text-white transition hover:bg-red-700 disabled:opacity-50"
+        >
+          {exhuming ? 'Exhuming…' : 'Exhume'}
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
+
+function MyDeadRow({ death, onEdited, onExhumed }: {
+  death: DeathRecord;
+  onEdited: (patch: Partial<DeathRecord>) => void;
+  onExhumed: () => void;
+}) {
+  const [mode, setMode] = useState<RowMode>('idle');
+  const badge = death.review_status === 'approved' ? null : REVIEW_BADGES[death.review_status];
+
+  return (
+    <motion.li
+      layout
+      initial={{ opacity: 0, y: 6 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, height: 0 }}
+      className="space-y-3 rounded-lg border border-stone-800 bg-stone-900/60 p-4 backdrop-blur-sm"
+    >
+      <div className="flex flex-wrap items-center gap-3">
+        <a
+          href={heroPath(death.id)}
+          onClick={(e) => {
+            e.preventDefault();
+            navigate(heroPath(death.id));
+          }}
+          className="min-w-0 truncate font-cinzel font-bold tracking-wide text-stone-100 transition hover:text-red-300"
+        >
+          {death.character_name}
+        </a>
+        {badge && (
+          <span className={`flex shrink-0 items-center gap-1 rounded-full border px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wider ${badge.className}`}>
+            {badge.icon}
+            {badge.label}
+          </span>
+        )}
+        <span className="ml-auto text-xs text-stone-500">
+          Lvl {death.level} · {new Date(death.death_date).toLocaleDateString()} · {formatNumber(death.respects_paid)} respects
+        </span>
+      </div>
+
+      {mode !== 'epitaph' && death.epitaph && <p className="text-sm italic text-stone-400">“{death.epitaph}”</p>}
+
+      {mode === 'rename' && (
+        <RenameForm
+          death={death}
+          onSaved={(characterName) => {
+            onEdited({ character_name: characterName });
+            setMode('idle');
+          }}
+          onCancel={() => setMode('idle')}
+        />
+      )}
+      {mode === 'epitaph' && (
+        <EpitaphEditor
+          heroId={death.id}
+          epitaph={death.epitaph}
+          onSaved={(epitaph) => {
+            onEdited({ epitaph });
+            setMode('idle');
+          }}
+          onCancel={() => setMode('idle')}
+        />
+      )}
+      {mode === 'exhume' && <ExhumeConfirm death={death} onExhumed={onExhumed} onCancel={() => setMode('idle')} />}
+
+      {mode === 'idle' && (
+        <div className="flex flex-wrap items-center gap-5">
+          <button type="button" onClick={() => setMode('rename')} className={actionClass}>
+            <Pencil className="h-3.5 w-3.5" aria-hidden />
+            Rename
+          </button>
+          <button type="button" onClick={() => setMode('epitaph')} className={actionClass}>
+            <PenLine className="h-3.5 w-3.5" aria-hidden />
+            {death.epitaph ? 'Edit epitaph' : 'Engrave an epitaph'}
+          </button>
+          <button
+            type="button"
+            onClick={() => setMode('exhume')}
+            className="ml-auto flex items-center gap-1.5 text-xs uppercase tracking-wider text-red-500/70 transition hover:text-red-400"
+          >
+            <Trash2 className="h-3.5 w-3.5" aria-hidden />
+            Exhume
+          </button>
+        </div>
+      )}
+    </motion.li>
+  );
+}
+
+export default function MyDeadView({ userId, refreshKey, onChange }: MyDeadViewProps) {
+  const [deaths, setDeaths] = useState<DeathRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    // RLS lets owners see their own heroes even while they await review.
+    supabase
+      .from('deaths')
+      .select('*')
+      .eq('user_id', userId)
+      .order('death_date', { ascending: false })
+      .then(({ data, error: err }) => {
+        if (cancelled) return;
+        setError(err ? err.message : null);
+        setDeaths(err ? [] : (data as DeathRecord[]) ?? []);
+        setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, refreshKey]);
+
+  return (
+    <section>
+      <h2 className="font-cinzel mb-8 text-center text-xl font-semibold tracking-widest text-stone-300 uppercase">
+        My Dead
+      </h2>
+
+      {loading && <p className="text-zinc-500">Finding your graves…</p>}
+      {error && <p className="text-center text-red-400">Failed to load your heroes: {error}.</p>}
+      {!loading && !error && deaths.length === 0 && (
+        <p className="text-zinc-500">You have not buried anyone yet.</p>
+      )}
+
+      {!loading && deaths.length > 0 && (
+        <ul className="mx-auto max-w-3xl space-y-3">
+          <AnimatePresence initial={false}>
+            {deaths.map((death) => (
+              <MyDeadRow
+                key={death.id}
+                death={death}
+                onEdited={(patch) => {
+                  setDeaths((prev) => prev.map((d) => (d.id === death.id ? { ...d, ...patch } : d)));
+                  onChange?.();
+                }}
+                onExhumed={() => {
+                  setDeaths((prev) => prev.filter((d) => d.id !== death.id));
+                  onChange?.();
+                }}
+              />
+            ))}
+          </AnimatePresence>
+        </ul>
+      )}
+    </section>
+  );
+}
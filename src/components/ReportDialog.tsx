@@ -0,0 +1,162 @@
+// ReportDialog.tsx
+// Reports a tombstone to the moderators with a reason (offensive name, fake save, duplicate).
+// One report per user per hero: reporting again changes the reason. Enough reports hide the hero until reviewed.
+
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Flag, X } from 'lucide-react';
+import type { DeathRecord } from '../types';
+import { supabase } from '../lib/supabase';
+import { REPORT_REASONS, fetchOwnReport, reportDeath, type ReportReason } from '../lib/moderation';
+
+interface ReportDialogProps {
+  death: DeathRecord;
+  onClose: () => void;
+}
+
+type ReportState =
+  | { status: 'loading' }
+  | { status: 'signed-out' }
+  | { status: 'ready'; previous: ReportReason | null }
+  | { status: 'done'; hidden: boolean };
+
+export default function ReportDialog({ death, onClose }: ReportDialogProps) {
+  const [state, setState] = useState<ReportState>({ status: 'loading' });
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    supabase.auth.getUser().then(async ({ data: { user } }) => {
+      if (!user) {
+        if (!cancelled) setState({ status: 'signed-out' });
+        return;
+      }
+      const previous = await fetchOwnReport(death.id, user.id);
+      if (cancelled) return;
+      setState({ status: 'ready', previous });
+      setReason(previous);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [death.id]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!reason) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      const hidden = await reportDeath(death.id, reason);
+      setState({ status: 'done', hidden });
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'The report could not be sent. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={`Report ${death.character_name}`}
+        className="relative w-full max-w-md space-y-5 rounded-xl border border-stone-800 bg-stone-900 p-6 text-stone-200 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          type="button"
+          onClick={onClose}
+          className="absolute right-4 top-4 text-stone-500 transition hover:text-stone-200"
+          aria-label="Close"
+        >
+          <X className="h-5 w-5" />
+        </button>
+
+        <h2 className="flex items-center gap-2 font-cinzel text-lg font-bold tracking-wide text-stone-100">
+          <Flag className="h-4 w-4 text-red-500" aria-hidden />
+          Report {death.character_name}
+        </h2>
+
+        {state.status === 'loading' && <p className="text-sm text-stone-500">Checking the ledger…</p>}
+
+        {state.status === 'signed-out' && (
+          <p className="text-sm text-stone-400">Please log in with Discord to report a hero.</p>
+        )}
+
+        {state.status === 'done' && (
+          <div className="space-y-4">
+            <p className="text-sm text-stone-300">
+              {state.hidden
+                ? 'Thank you. This hero is now hidden from the Graveyard until a moderator reviews it.'
+                : 'Thank you. The moderators will take a look.'}
+            </p>
+            <button
+              type="button"
+              onClick={onClose}
+              className="rounded-full border border-stone-700 px-5 py-1.5 text-xs uppercase tracking-wider text-stone-300 transition hover:border-stone-500"
+            >
+              Close
+            </button>
+          </div>
+        )}
+
+        {state.status === 'ready' && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {state.previous && (
+              <p className="text-xs text-stone-500">You already reported this hero. Sending again changes the reason.</p>
+            )}
+            <fieldset className="space-y-2">
+              <legend className="mb-2 block text-[10px] font-semibold uppercase tracking-widest text-stone-500">Reason</legend>
+              {REPORT_REASONS.map((option) => (
+                <label
+                  key={option.id}
+                  className={`flex cursor-pointer items-start gap-3 rounded-lg border px-3 py-2 transition
+                    ${reason === option.id ? 'border-red-900 bg-red-950/30' : 'border-stone-800 hover:border-stone-600'}`}
+                >
+                  <input
+                    type="radio"
+                    name="report-reason"
+                    value={option.id}
+                    checked={reason === option.id}
+                    onChange={() => setReason(option.id)}
+                    className="mt-1 accent-red-700"
+                  />
+                  <span>
+                    <span className="block text-sm text-stone-200">{option.label}</span>
+                    <span className="block text-xs text-stone-500">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </fieldset>
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+
+            <button
+              type="submit"
+              disabled={!reason || submitting}
+              className="flex w-full items-center justify-center gap-2 rounded-full border border-red-900 bg-red-950/30 px-6 py-2 text-sm text-red-300 transition hover:bg-red-900/50 disabled:opacity-50"
+            >
+              {submitting ? 'Sending…' : 'Send Report'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+}
@@ -0,0 +1,41 @@
+// SaveIssueList.tsx
+// Lists every problem found in a save file, grouped by where it sits in the file (character, run N, ...).
+
+import { AlertCircle, AlertTriangle } from 'lucide-react';
+import { groupIssuesByLocation, type SaveIssue } from '../saveIssues';
+
+interface SaveIssueListProps {
+  issues: SaveIssue[];
+}
+
+export default function SaveIssueList({ issues }: SaveIssueListProps) {
+  const hasError = issues.some((issue) => issue.severity === 'error');
+
+  return (
+    <div
+      className={`space-y-3 rounded-lg border px-4 py-3 ${hasError
+        ? 'border-red-900/50 bg-red-950/30 text-red-300'
+        : 'border-amber-900/50 bg-amber-950/20 text-amber-300'
+      }`}
+    >
+      {groupIssuesByLocation(issues).map(({ location, issues: grouped }) => (
+        <div key={location}>
+          <p className="mb-1 text-[10px] font-semibold uppercase tracking-widest opacity-70">{location}</p>
+          <ul className="space-y-1">
+            {grouped.map((issue, idx) => (
+              <li key={`${issue.code}-${issue.path}-${idx}`} className="flex items-start gap-2 text-sm">
+                {issue.severity === 'error'
+                  ? <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" aria-hidden />
+                  : <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-amber-400" aria-hidden />}
+                <span>
+                  {issue.message}
+                  {issue.path && <span className="ml-1 font-mono text-[10px] opacity-60">{issue.path}</span>}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
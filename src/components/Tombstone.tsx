@@ -1,102 +1,96 @@
 // Tombstone.tsx
 // Displays a single death record as an interactive, expandable card.
-// Features: Dynamic SVG noise, equip-based skill rendering, and HTML-to-Image export.
+// Features: Dynamic SVG noise, equip-based skill rendering, and image export (renderTombstoneSvg, through TombstoneExportDialog).
 
 import { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { toPng } from 'html-to-image';
 import {
   Skull,
   User,
   Download,
   Flame,
+  Link2,
+  Flag,
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { Filter } from 'bad-words';
 const filter = new Filter();
-import type { DeathRecord } from '../types';
-import skillsData from '../assets/Skills.json';
+import type { DeathRecord, DeathRunRecord } from '../types';
+import { formatDuration, formatNumber } from '../lib/format';
+import CareerTimeline from './CareerTimeline';
+import TombstoneExportDialog from './TombstoneExportDialog';
+import ReportDialog from './ReportDialog';
+import Condolences from './Condolences';
+import { getSkillIconSrc } from '../lib/skills';
+import { getDamageTypeLabel } from '../lib/damageTypes';
+import { heroPath, mournerPath, navigate } from '../lib/router';
+import { fetchHasPaidRespects, payRespects, takeBackRespects } from '../lib/respects';
 import defaultClassIcon from '../assets/icons/default_icon.png';
 
-/** 
- * Pre-compute skill icon paths from JSON resource.
- * Optimization: Loading imports eagerly avoids async flickering during render.
- */
-const skillIconMap = new Map<number, string>();
-skillsData.Skills.forEach((skill) => {
-  skillIconMap.set(skill.id, skill.icon);
-});
-
-const iconImages = import.meta.glob('../assets/icons/*.png', { eager: true, as: 'url' });
-
-function getSkillIconSrc(skillId: number): string | undefined {
-  const iconName = skillIconMap.get(skillId);
-  return iconName ? iconImages[`../assets/icons/${iconName}.png`] : undefined;
-}
-
-/** Formats seconds into h/m string (e.g., "1h 30m"). */
-function formatDuration(seconds: number | null | undefined): string {
-  if (seconds == null || Number.isNaN(seconds)) return '0h';
-  const h = Math.floor(seconds / 3600);
-  const m = Math.floor((seconds % 3600) / 60);
-  if (h === 0) return `${m}m`;
-  if (m === 0) return `${h}h`;
-  return `${h}h ${m}m`;
-}
-
-/** Formats large numbers with suffixes (1.2k, 1.5M). */
-function formatNumber(n: number | null | undefined): string {
-  if (n == null || Number.isNaN(n)) return '0';
-  if (n >= 1e9) return `${(n / 1e9).toFixed(1)}B`;
-  if (n >= 1e6) return `${(n / 1e6).toFixed(1)}M`;
-  if (n >= 1e3) return `${(n / 1e3).toFixed(1)}K`;
-  return n.toLocaleString();
-}
-
 const NOISE_BASE64 = "url('data:image/svg+xml;base64,PHN2ZyB2aWV3Qm94PScwIDAgMjAwIDIwMCcgeG1sbnM9J2h0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnJz48ZmlsdGVyIGlkPSduJz48ZmVUdXJidWxlbmNlIHR5cGU9J2ZyYWN0YWxOb2lzZScgYmFzZUZyZXF1ZW5jeT0nMC42NScgbnVtT2N0YXZlcz0nMycgc3RpdGNoVGlsZXM9J3N0aXRjaCcvPjwvZmlsdGVyPjxyZWN0IHdpZHRoPScxMDAlJyBoZWlnaHQ9JzEwMCUnIGZpbHRlcj0ndXJsKCNuKScgb3BhY2l0eT0nMC4xNScvPjwvc3ZnPg==')";
 
 interface TombstoneProps {
   death: DeathRecord;
   mournedBy?: string | null;
-  onUpdate?: () => void;
+  /** Called after the viewer pays or takes back respects, with the new count. */
+  onUpdate?: (respects: number) => void;
+  /** Keeps the card open (hero page): hover and click no longer collapse it. */
+  alwaysExpanded?: boolean;
+  /** Run history already loaded by the parent; skips the lazy fetch. */
+  runs?: DeathRunRecord[];
 }
 
-export default function Tombstone({ death, mournedBy, onUpdate }: TombstoneProps) {
-  const tombstoneRef = useRef<HTMLDivElement>(null);
-  const [expanded, setExpanded] = useState(false);
-  const [respects, setRespects] = useState(death.respects_paid);
+export default function Tombstone({ death, mournedBy, onUpdate, alwaysExpanded = false, runs: providedRuns }: TombstoneProps) {
+  const [expandedState, setExpanded] = useState(alwaysExpanded);
+  const expanded = alwaysExpanded || expandedState;
+  // Count returned by the last candle lit or snuffed on this card; a fresher record from the parent takes over again.
+  const [ownCount, setOwnCount] = useState<{ base: number; count: number } | null>(null);
+  const respects = ownCount && ownCount.base === death.respects_paid ? ownCount.count : death.respects_paid;
   const [respectLoading, setRespectLoading] = useState(false);
-  const [hasPaidRespects, setHasPaidRespects] = useState(false);
-  const [exportLoading, setExportLoading] = useState(false);
+  const [paidStatus, setPaidStatus] = useState<{ deathId: string; paid: boolean } | null>(null);
+  const hasPaidRespects = paidStatus?.deathId === death.id && paidStatus.paid;
+  const [showExport, setShowExport] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+  const [loadedRuns, setRuns] = useState<DeathRunRecord[] | null>(null);
+  const runs = providedRuns ?? loadedRuns;
 
   const actionsRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
-    setRespects(death.respects_paid);
-    checkRespectsStatus();
-  }, [death.respects_paid, death.id]);
+    let cancelled = false;
+    supabase.auth.getUser().then(async ({ data: { user } }) => {
+      if (!user) return;
+      const paid = await fetchHasPaidRespects(death.id, user.id);
+      if (!cancelled) setPaidStatus({ deathId: death.id, paid });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [death.id]);
 
   // Scroll into view on expansion
   useEffect(() => {
-    if (expanded && actionsRef.current) {
+    if (expanded && !alwaysExpanded && actionsRef.current) {
       const timer = setTimeout(() => {
         actionsRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
       }, 500); // Increased delay slightly to match new 0.5s animation duration
       return () => clearTimeout(timer);
     }
-  }, [expanded]);
+  }, [expanded, alwaysExpanded]);
 
-  async function checkRespectsStatus() {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) return;
-    const { data } = await supabase
-      .from('death_respects')
-      .select('id')
+  // Lazy-load the career timeline the first time the card is expanded
+  useEffect(() => {
+    if (!expanded || runs !== null) return;
+    supabase
+      .from('death_runs')
+      .select('*')
       .eq('death_id', death.id)
-      .eq('user_id', user.id)
-      .single();
-    setHasPaidRespects(!!data);
-  }
+      .order('run_index', { ascending: true })
+      .then(({ data, error }) => {
+        if (error) console.error('Failed to load run history:', error);
+        setRuns((data as DeathRunRecord[]) ?? []);
+      });
+  }, [expanded, runs, death.id]);
 
   const ClassIconSrc = defaultClassIcon;
   const damage = death.damage_taken != null ? Math.round(Number(death.damage_taken)) : 0;
@@ -126,83 +120,18 @@ export default function Tombstone({ death, mournedBy, onUpdate }: TombstoneProps
     }
   }
 
-  /** Resolves damage type ID to display label. */
-  function getDamageLabel(typeId: number | null | undefined): string {
-    switch (typeId) {
-      case 1: return 'Fire';
-      case 2: return 'Plague';
-      case 3: return 'Lightning';
-      case 0:
-      default: return 'Physical';
-    }
-  }
-
-  /** Handles the "Pay Respects" (Like) action. */
-  async function handlePayRespects() {
-    if (hasPaidRespects) return;
+  /** Handles the "Pay Respects" (Like) action; lighting the candle again takes the respects back. */
+  async function handleToggleRespects() {
     setRespectLoading(true);
-    const { error } = await supabase.rpc('pay_respects', { row_id: death.id });
-    setRespectLoading(false);
-    if (!error) {
-      setHasPaidRespects(true);
-      setRespects((n) => n + 1);
-      onUpdate?.();
-    }
-  }
-
-  /** Generates and downloads a high-res PNG of the card. */
-  async function handleExport() {
-    if (!tombstoneRef.current || exportLoading) return;
-    setExportLoading(true);
-
     try {
-      const wasExpanded = expanded;
-
-      // Always expand and wait for animation to complete to ensure full content is visible
-      setExpanded(true);
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-
-      // Generate PNG with generous margins and explicit styling to avoid clipping
-      const dataUrl = await toPng(tombstoneRef.current, {
-        cacheBust: true,
-        pixelRatio: 2,
-        style: {
-          margin: '60px',
-          padding: '0',
-          borderColor: '#7f1d1d',
-          borderWidth: '4px',
-          borderStyle: 'solid',
-          transform: 'scale(1)',
-          height: 'auto',
-          overflow: 'visible',
-          backgroundImage: `${NOISE_BASE64}, linear-gradient(to bottom, transparent, #0c0a09)`,
-        },
-        width: tombstoneRef.current.offsetWidth + 120,
-        height: tombstoneRef.current.scrollHeight + 120,
-        onClone: (node: HTMLElement) => {
-          // Explicitly re-apply texture to base in the clone
-          const base = node.querySelector('.tombstone-base-visual') as HTMLElement;
-          if (base) {
-            base.style.backgroundImage = NOISE_BASE64;
-            base.style.backgroundAttachment = 'scroll'; // Prevent 'local' issues in canvas
-          }
-        }
-      } as any);
-
-      const a = document.createElement('a');
-      a.href = dataUrl;
-      a.download = `${death.character_name.replace(/[^a-z0-9]/gi, '_')}-tombstone.png`;
-      a.click();
-
-      setExportLoading(false);
-
-      if (!wasExpanded) {
-        setExpanded(false);
-      }
-    } catch (error) {
-      console.error('Export failed:', error);
-      alert('Failed to generate image. Please try again.');
-      setExportLoading(false);
+      const count = hasPaidRespects ? await takeBackRespects(death.id) : await payRespects(death.id);
+      setPaidStatus({ deathId: death.id, paid: !hasPaidRespects });
+      setOwnCount({ base: death.respects_paid, count });
+      onUpdate?.(count);
+    } catch (err: unknown) {
+      console.error('Failed to pay respects:', err);
+    } finally {
+      setRespectLoading(false);
     }
   }
 
@@ -210,11 +139,10 @@ export default function Tombstone({ death, mournedBy, onUpdate }: TombstoneProps
     <div className="group relative flex flex-col items-center gap-4">
       <motion.article
         layout
-        ref={tombstoneRef}
         className="relative w-full max-w-[300px] rounded-t-[10rem] rounded-b-md border-2 border-stone-800 bg-stone-900 shadow-2xl transition-all duration-500 will-change-transform bg-card-texture"
-        onHoverStart={() => !exportLoading && setExpanded(true)}
-        onHoverEnd={() => !exportLoading && setExpanded(false)}
-        onClick={() => !exportLoading && setExpanded(!expanded)}
+        onHoverStart={() => setExpanded(true)}
+        onHoverEnd={() => setExpanded(false)}
+        onClick={() => setExpanded(!expanded)}
         onLayoutAnimationComplete={() => {
           // Scroll handled by useEffect to avoid race conditions
         }}
@@ -291,7 +219,7 @@ export default function Tombstone({ death, mournedBy, onUpdate }: TombstoneProps
             </p>
             <p className="text-sm font-semibold text-stone-400 pb-0.5">
               Slain by <span className={`${getDamageColor(death.last_run_damage_type)} text-sm`}>
-                {formatNumber(damage)} {getDamageLabel(death.last_run_damage_type)}
+                {formatNumber(damage)} {getDamageTypeLabel(death.last_run_damage_type)}
               </span> Dmg
             </p>
             {/* Damage Dealt - Conditional Display */}
@@ -311,7 +239,16 @@ export default function Tombstone({ death, mournedBy, onUpdate }: TombstoneProps
               {formatDuration(death.last_run_duration)}
             </p>
             <p className="text-[10px] uppercase tracking-widest text-stone-400 pt-2 font-semibold">
-              {respects} Respects Paid
+              <motion.span
+                key={respects}
+                className="inline-block"
+                initial={{ opacity: 0, y: -4 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.3 }}
+              >
+                {respects}
+              </motion.span>{' '}
+              Respects Paid
             </p>
           </div>
 
@@ -362,10 +299,42 @@ export default function Tombstone({ death, mournedBy, onUpdate }: TombstoneProps
                 <span>Playtime:</span> <span className="text-right text-emerald-600/90">{formatDuration(careerSeconds)}</span>
               </div>
 
+              <p className="text-[10px] text-center uppercase tracking-widest text-stone-400 pt-2 font-semibold">Career Timeline</p>
+              {runs === null ? (
+                <p className="text-[10px] text-center text-stone-600 italic">Unearthing past runs…</p>
+              ) : (
+                <CareerTimeline runs={runs} />
+              )}
+
+              {death.epitaph && (
+                <p className="pt-4 text-center font-serif text-sm italic text-stone-300">“{death.epitaph}”</p>
+              )}
+
               {mournedBy != null && mournedBy !== '' && (
                 <div className="flex items-center justify-center gap-1.5 pt-4 text-stone-400">
                   <User className="h-3 w-3" aria-hidden />
-                  <span>Mourned by <span className="text-stone-300">{filter.clean(mournedBy)}</span></span>
+                  <span>
+                    Mourned by{' '}
+                    <a
+                      href={mournerPath(death.user_id)}
+                      onClick={(e) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        navigate(mournerPath(death.user_id));
+                      }}
+                      className="text-stone-300 underline decoration-stone-600 underline-offset-2 transition hover:text-red-300"
+                    >
+                      {filter.clean(mournedBy)}
+                    </a>
+                  </span>
+                </div>
+              )}
+
+              {/* The hero page shows the condolences beside the card instead. Clicks inside must not collapse the card. */}
+              {expanded && !alwaysExpanded && (
+                <div onClick={(e) => e.stopPropagation()}>
+                  <p className="text-[10px] text-center uppercase tracking-widest text-stone-400 pt-4 pb-2 font-semibold">Condolences</p>
+                  <Condolences death={death} compact />
                 </div>
               )}
             </div>
@@ -378,10 +347,11 @@ export default function Tombstone({ death, mournedBy, onUpdate }: TombstoneProps
       <div ref={actionsRef} className="flex items-center gap-4 pt-2">
         {/* Candle (Pay Respects) */}
         <button
-          onClick={handlePayRespects}
-          disabled={respectLoading || hasPaidRespects}
+          onClick={handleToggleRespects}
+          disabled={respectLoading}
           className="group/candle relative flex flex-col items-center gap-1 disabled:opacity-80 disabled:cursor-not-allowed"
-          title="Light a candle to pay respects"
+          title={hasPaidRespects ? 'Snuff your candle to take back your respects' : 'Light a candle to pay respects'}
+          aria-pressed={hasPaidRespects}
         >
           <div className={`relative flex h-10 w-10 items-center justify-center rounded-full border bg-stone-950 shadow-lg ring-1 ring-stone-900 transition-all duration-500 ${hasPaidRespects ? 'border-orange-900/50 bg-orange-950/20 shadow-[0_0_15px_rgba(249,115,22,0.4)]' : 'border-stone-700 hover:border-stone-500 hover:bg-stone-900'}`}>
             <Flame
@@ -390,16 +360,42 @@ export default function Tombstone({ death, mournedBy, onUpdate }: TombstoneProps
           </div>
         </button>
 
+        {/* Permalink */}
+        {!alwaysExpanded && (
+          <a
+            href={heroPath(death.id)}
+            onClick={(e) => {
+              e.preventDefault();
+              navigate(heroPath(death.id));
+            }}
+            className="flex h-8 w-8 items-center justify-center rounded-full border border-stone-700 bg-stone-950 shadow-md transition-colors hover:border-stone-500 hover:text-stone-300"
+            title="Open hero page"
+          >
+            <Link2 className="h-4 w-4" />
+          </a>
+        )}
+
         {/* Download */}
         <button
-          onClick={handleExport}
-          disabled={exportLoading}
-          className="flex h-8 w-8 items-center justify-center rounded-full border border-stone-700 bg-stone-950 shadow-md transition-colors hover:border-stone-500 hover:text-stone-300 disabled:opacity-50"
-          title="Download Epitaph"
+          onClick={() => setShowExport(true)}
+          className="flex h-8 w-8 items-center justify-center rounded-full border border-stone-700 bg-stone-950 shadow-md transition-colors hover:border-stone-500 hover:text-stone-300"
+          title="Export tombstone"
         >
           <Download className="h-4 w-4" />
         </button>
+
+        {/* Report */}
+        <button
+          onClick={() => setShowReport(true)}
+          className="flex h-8 w-8 items-center justify-center rounded-full border border-stone-700 bg-stone-950 shadow-md transition-colors hover:border-red-900 hover:text-red-400"
+          title="Report to the moderators"
+        >
+          <Flag className="h-4 w-4" />
+        </button>
       </div>
+
+      {showExport && <TombstoneExportDialog death={death} onClose={() => setShowExport(false)} />}
+      {showReport && <ReportDialog death={death} onClose={() => setShowReport(false)} />}
     </div>
   );
 }
@@ -0,0 +1,283 @@
+// TombstoneExportDialog.tsx
+// Export options for a tombstone: file format, full card or square crop, transparent background and card template.
+// Shows a live preview of exactly what will be saved. Rendered into document.body so transformed cards do not clip it.
+// Besides downloading, the image can be copied to the clipboard (always as PNG) or handed to the native share sheet.
+
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Copy, Download, Share2, X } from 'lucide-react';
+import type { DeathRecord } from '../types';
+import { heroUrl } from '../lib/router';
+import type { TombstoneImageFrame, TombstoneTemplate } from '../lib/tombstoneSvg';
+import {
+  buildTombstoneSvg,
+  copyTombstoneImage,
+  downloadBlob,
+  exportTombstone,
+  shareTombstone,
+  tombstoneFileName,
+  type TombstoneExportFormat,
+  type TombstoneExportOptions,
+  type TombstoneShareOutcome,
+} from '../lib/tombstoneExport';
+
+interface TombstoneExportDialogProps {
+  death: DeathRecord;
+  onClose: () => void;
+}
+
+const FORMATS: Array<{ id: TombstoneExportFormat; label: string }> = [
+  { id: 'png', label: 'PNG' },
+  { id: 'webp', label: 'WebP' },
+  { id: 'svg', label: 'SVG' },
+];
+
+const FRAMES: Array<{ id: Exclude<TombstoneImageFrame, 'preview'>; label: string }> = [
+  { id: 'card', label: 'Full Card' },
+  { id: 'square', label: 'Square' },
+];
+
+const TEMPLATES: Array<{ id: TombstoneTemplate; label: string }> = [
+  { id: 'classic', label: 'Classic' },
+  { id: 'minimal', label: 'Minimal' },
+  { id: 'epitaph', label: 'Epitaph' },
+];
+
+type Action = 'download' | 'copy' | 'share';
+
+const OUTCOME_NOTICES: Record<TombstoneShareOutcome, string | null> = {
+  'copied-image': 'Image copied. Paste it anywhere.',
+  'copied-link': "This browser can't copy images, so the link was copied instead.",
+  shared: null,
+  'shared-link': "This browser can't share images, so only the link was shared.",
+  downloaded: "This browser can't copy or share images, so it was downloaded instead.",
+  cancelled: null,
+};
+
+const secondaryButtonClass =
+  'flex flex-1 items-center justify-center gap-2 rounded-full border border-stone-700 bg-stone-900/40 px-4 py-2 text-xs text-stone-300 transition hover:border-stone-500 hover:text-stone-100 disabled:opacity-50';
+
+const labelClass = 'mb-2 block text-[10px] font-semibold uppercase tracking-widest text-stone-500';
+
+function OptionChips<T extends string>({ options, value, onChange }: {
+  options: Array<{ id: T; label: string }>;
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {options.map((option) => (
+        <button
+          key={option.id}
+          type="button"
+          onClick={() => onChange(option.id)}
+          aria-pressed={value === option.id}
+          className={`rounded-full border px-4 py-1.5 text-xs font-semibold uppercase tracking-wider transition-all
+            ${value === option.id
+              ? 'border-red-900 bg-red-900/40 text-red-200'
+              : 'border-stone-800 bg-stone-900/40 text-stone-500 hover:border-stone-600 hover:text-stone-300'
+            }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export default function TombstoneExportDialog({ death, onClose }: TombstoneExportDialogProps) {
+  const [options, setOptions] = useState<TombstoneExportOptions>({
+    format: 'png',
+    frame: 'card',
+    template: 'classic',
+    transparent: false,
+  });
+  const [preview, setPreview] = useState<{ key: string; url: string } | null>(null);
+  const [prepared, setPrepared] = useState<{ key: string; blob: Blob } | null>(null);
+  const [busy, setBusy] = useState<Action | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // The preview only depends on what is drawn, not on the file format.
+  const { frame, template, transparent } = options;
+  const previewKey = `${frame}|${template}|${transparent}`;
+  const exportKey = `${options.format}|${previewKey}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    let url: string | null = null;
+    buildTombstoneSvg(death, { frame, template, transparent })
+      .then((svg) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+        setPreview({ key: `${frame}|${template}|${transparent}`, url });
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message);
+      });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [death, frame, template, transparent]);
+
+  // The share sheet must open inside the click, so the image to share is exported ahead of it for the current options.
+  useEffect(() => {
+    let cancelled = false;
+    exportTombstone(death, options)
+      .then((blob) => {
+        if (!cancelled) setPrepared({ key: exportKey, blob });
+      })
+      .catch(() => {
+        // Sharing draws the image itself then, and Download / Copy report the error.
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [death, options, exportKey]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  const update = (patch: Partial<TombstoneExportOptions>) => {
+    setError(null);
+    setNotice(null);
+    setOptions((current) => ({ ...current, ...patch }));
+  };
+
+  async function run(action: Action, task: () => Promise<TombstoneShareOutcome | void>) {
+    setBusy(action);
+    setError(null);
+    setNotice(null);
+    try {
+      const outcome = await task();
+      if (outcome) setNotice(OUTCOME_NOTICES[outcome]);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to generate image. Please try again.');
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  const handleExport = () =>
+    run('download', async () => {
+      const blob = await exportTombstone(death, options);
+      downloadBlob(blob, tombstoneFileName(death.character_name, options));
+      onClose();
+    });
+
+  // The clipboard write starts synchronously inside the click, which Safari requires; so does the share once the
+  // prepared image is ready. A share clicked earlier draws the image first and may fall back to copying the link.
+  const handleCopy = () => run('copy', () => copyTombstoneImage(death, options, heroUrl(death.id)));
+  const handleShare = () =>
+    run('share', () => shareTombstone(death, options, heroUrl(death.id), prepared?.key === exportKey ? prepared.blob : undefined));
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={`Export the tombstone of ${death.character_name}`}
+        className="relative flex max-h-full w-full max-w-3xl flex-col gap-6 overflow-y-auto rounded-xl border border-stone-800 bg-stone-900 p-6 text-stone-200 shadow-2xl md:flex-row"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          type="button"
+          onClick={onClose}
+          className="absolute right-4 top-4 text-stone-500 transition hover:text-stone-200"
+          aria-label="Close"
+        >
+          <X className="h-5 w-5" />
+        </button>
+
+        {/* Preview (checkerboard shows through transparent exports) */}
+        <div
+          className="flex min-h-[320px] flex-1 items-center justify-center rounded-lg border border-stone-800 p-4"
+          style={{ background: 'repeating-conic-gradient(#1c1917 0% 25%, #292524 0% 50%) 50% / 20px 20px' }}
+        >
+          {preview && preview.key === previewKey ? (
+            <img src={preview.url} alt="Export preview" className="max-h-[60vh] w-auto" />
+          ) : (
+            <p className="text-sm text-stone-500">Carving the stone…</p>
+          )}
+        </div>
+
+        {/* Options */}
+        <div className="flex w-full flex-col gap-5 md:w-64">
+          <h2 className="font-cinzel text-lg font-bold tracking-wide text-stone-100">Export Tombstone</h2>
+
+          <div>
+            <span className={labelClass}>Format</span>
+            <OptionChips options={FORMATS} value={options.format} onChange={(format) => update({ format })} />
+          </div>
+
+          <div>
+            <span className={labelClass}>Crop</span>
+            <OptionChips options={FRAMES} value={frame === 'square' ? 'square' : 'card'} onChange={(value) => update({ frame: value })} />
+          </div>
+
+          <div>
+            <span className={labelClass}>Template</span>
+            <OptionChips options={TEMPLATES} value={template ?? 'classic'} onChange={(value) => update({ template: value })} />
+          </div>
+
+          <label className="flex cursor-pointer items-center gap-2 text-sm text-stone-400">
+            <input
+              type="checkbox"
+              checked={!!transparent}
+              onChange={(e) => update({ transparent: e.target.checked })}
+              className="accent-red-700"
+            />
+            Transparent background
+          </label>
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          {notice && <p className="text-sm text-stone-400" role="status">{notice}</p>}
+
+          <div className="mt-auto flex flex-col gap-2">
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={busy !== null}
+              className="flex items-center justify-center gap-2 rounded-full border border-red-900 bg-red-950/30 px-6 py-2 text-sm text-red-300 transition hover:bg-red-900/50 disabled:opacity-50"
+            >
+              <Download className="h-4 w-4" aria-hidden />
+              {busy === 'download' ? 'Carving…' : `Download ${options.format.toUpperCase()}`}
+            </button>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={handleCopy}
+                disabled={busy !== null}
+                title="Copy the image as PNG"
+                className={secondaryButtonClass}
+              >
+                <Copy className="h-3.5 w-3.5" aria-hidden />
+                {busy === 'copy' ? 'Copying…' : 'Copy Image'}
+              </button>
+              <button
+                type="button"
+                onClick={handleShare}
+                disabled={busy !== null}
+                title="Share the image and permalink"
+                className={secondaryButtonClass}
+              >
+                <Share2 className="h-3.5 w-3.5" aria-hidden />
+                {busy === 'share' ? 'Sharing…' : 'Share'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+}
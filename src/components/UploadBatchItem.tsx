@@ -0,0 +1,146 @@
+// UploadBatchItem.tsx
+// One save file in an UploadCrypt batch: its validation status, problems found, and the name (and optional epitaph) to bury it under.
+
+import { motion } from 'framer-motion';
+import { AlertCircle, CheckCircle2, Copy as CopyIcon, FileJson, Hourglass, X, XCircle } from 'lucide-react';
+import type { ExtractedDeathPayload } from '../types';
+import type { PlausibilityReport } from '../plausibilityRules';
+import type { SaveIssue } from '../saveIssues';
+import { formatDuration, formatNumber } from '../lib/format';
+import { MAX_EPITAPH_LENGTH, MAX_NAME_LENGTH } from '../lib/sanitize';
+import SaveIssueList from './SaveIssueList';
+
+/**
+ * valid: passed local checks; submitted if selected.
+ * duplicate: same death (by canonical fingerprint) already in this batch or already buried by anyone.
+ * rejected: failed validation.
+ * buried / held / failed: outcome of the submission.
+ */
+export type UploadBatchStatus = 'valid' | 'duplicate' | 'rejected' | 'buried' | 'held' | 'failed';
+
+export interface UploadBatchEntry {
+  key: string;
+  path: string;
+  rawJson: string;
+  fingerprint: string | null;
+  status: UploadBatchStatus;
+  /** Why the file is a duplicate or why its submission failed. */
+  reason: string;
+  issues: SaveIssue[];
+  payload: ExtractedDeathPayload | null;
+  plausibility: PlausibilityReport | null;
+  heroName: string;
+  /** Optional line engraved on the stone. */
+  epitaph: string;
+  /** Whether a valid save is picked for burial. */
+  selected: boolean;
+}
+
+interface UploadBatchItemProps {
+  entry: UploadBatchEntry;
+  disabled: boolean;
+  onNameChange: (name: string) => void;
+  onEpitaphChange: (epitaph: string) => void;
+  onSelectedChange: (selected: boolean) => void;
+  onRemove: () => void;
+}
+
+const STATUS_STYLES: Record<UploadBatchStatus, { label: string; className: string; icon: React.ReactNode }> = {
+  valid: { label: 'Valid', className: 'border-emerald-900/60 text-emerald-400', icon: <CheckCircle2 className="h-3.5 w-3.5" /> },
+  duplicate: { label: 'Duplicate', className: 'border-stone-700 text-stone-400', icon: <CopyIcon className="h-3.5 w-3.5" /> },
+  rejected: { label: 'Rejected', className: 'border-red-900/60 text-red-400', icon: <XCircle className="h-3.5 w-3.5" /> },
+  buried: { label: 'Buried', className: 'border-emerald-900/60 text-emerald-300', icon: <CheckCircle2 className="h-3.5 w-3.5" /> },
+  held: { label: 'Held for review', className: 'border-amber-900/60 text-amber-300', icon: <Hourglass className="h-3.5 w-3.5" /> },
+  failed: { label: 'Failed', className: 'border-red-900/60 text-red-400', icon: <XCircle className="h-3.5 w-3.5" /> },
+};
+
+export default function UploadBatchItem({ entry, disabled, onNameChange, onEpitaphChange, onSelectedChange, onRemove }: UploadBatchItemProps) {
+  const style = STATUS_STYLES[entry.status];
+  const { payload, plausibility } = entry;
+
+  return (
+    <motion.li
+      layout
+      initial={{ opacity: 0, y: 6 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, height: 0 }}
+      className="space-y-3 rounded-lg border border-stone-800 bg-stone-950/40 p-4"
+    >
+      <div className="flex items-center gap-3">
+        {entry.status === 'valid' ? (
+          <input
+            type="checkbox"
+            checked={entry.selected}
+            disabled={disabled}
+            onChange={(e) => onSelectedChange(e.target.checked)}
+            aria-label={`Bury ${entry.path}`}
+            className="h-4 w-4 shrink-0 accent-red-700"
+          />
+        ) : (
+          <FileJson className="h-4 w-4 shrink-0 text-stone-500" aria-hidden />
+        )}
+        <span className="min-w-0 flex-1 truncate font-mono text-xs text-stone-400" title={entry.path}>{entry.path}</span>
+        <span className={`flex shrink-0 items-center gap-1 rounded-full border px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wider ${style.className}`}>
+          {style.icon}
+          {style.label}
+        </span>
+        <button
+          type="button"
+          onClick={onRemove}
+          disabled={disabled}
+          className="rounded p-1 text-stone-500 transition hover:bg-stone-800 hover:text-stone-200 disabled:opacity-40"
+          title="Remove from batch"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      {payload && (
+        <p className="text-xs text-stone-500">
+          Level {payload.level} · {formatNumber(payload.careerKills)} kills · {formatDuration(payload.careerSeconds)} played · {payload.runs.length} runs
+        </p>
+      )}
+
+      {entry.reason && <p className="text-xs text-stone-400">{entry.reason}</p>}
+
+      {entry.issues.length > 0 && <SaveIssueList issues={entry.issues} />}
+
+      {plausibility?.suspicious && entry.status === 'valid' && (
+        <div className="flex items-start gap-2 rounded-lg border border-amber-900/50 bg-amber-950/20 px-3 py-2 text-amber-300">
+          <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" aria-hidden />
+          <div className="space-y-1 text-xs">
+            <p className="font-semibold">This save will be held for review before it appears in The Graveyard:</p>
+            <ul className="list-disc space-y-0.5 pl-4 text-amber-400/80">
+              {plausibility.reasons.map((reason) => <li key={reason}>{reason}</li>)}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      {entry.status === 'valid' && entry.selected && (
+        <div className="space-y-2">
+          <input
+            type="text"
+            maxLength={MAX_NAME_LENGTH}
+            placeholder="Fallen Hero"
+            value={entry.heroName}
+            disabled={disabled}
+            onChange={(e) => onNameChange(e.target.value)}
+            aria-label={`Name for ${entry.path}`}
+            className="w-full rounded-lg border border-stone-600 bg-stone-800 px-3 py-1.5 font-cinzel text-sm text-stone-100 placeholder:text-stone-500 focus:border-red-600 focus:outline-none focus:ring-1 focus:ring-red-600/50 disabled:opacity-50"
+          />
+          <input
+            type="text"
+            maxLength={MAX_EPITAPH_LENGTH}
+            placeholder="Epitaph (optional)"
+            value={entry.epitaph}
+            disabled={disabled}
+            onChange={(e) => onEpitaphChange(e.target.value)}
+            aria-label={`Epitaph for ${entry.path}`}
+            className="w-full rounded-lg border border-stone-700 bg-stone-800/60 px-3 py-1.5 text-sm italic text-stone-200 placeholder:not-italic placeholder:text-stone-500 focus:border-red-600 focus:outline-none focus:ring-1 focus:ring-red-600/50 disabled:opacity-50"
+          />
+        </div>
+      )}
+    </motion.li>
+  );
+}
@@ -1,139 +1,193 @@
 // UploadCrypt.tsx
-// Handles Drag & Drop file upload, validation, parsing, and submission of save files.
-// Interacts with Supabase 'deaths' table and enforces unique run hashes.
+// Handles Drag & Drop upload of one or many save files (folders and .zip backups included), per-file validation preview,
+// picking which deaths to bury, and submission.
+// The batch goes through the 'bury-hero' Edge Function, which re-validates and inserts server-side, in calls of at most
+// MAX_BATCH_SIZE saves each.
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { FileJson, Skull, AlertCircle, Copy } from 'lucide-react';
-import { Filter } from 'bad-words';
-import { validateSaveFile, extractDeathPayload } from '../saveFileParser';
-import type { PlayerSaveData, ExtractedDeathPayload } from '../types';
-import { generateUniqueHash } from '../lib/hash';
+import { FileJson, Skull, Copy } from 'lucide-react';
+import { sanitizeCharacterName, sanitizeEpitaph } from '../lib/sanitize';
+import { MAX_BATCH_SIZE } from '../lib/burialLimits';
+import { invokeFunction } from '../lib/functions';
+import { collectDroppedFiles, collectPickedFiles, type SaveFileSource } from '../lib/files';
+import { parseSavesInWorker, type ParsedSave, type ParseProgress } from '../lib/saveWorker';
 import { supabase } from '../lib/supabase';
+import UploadBatchItem, { type UploadBatchEntry } from './UploadBatchItem';
 
-const filter = new Filter();
+interface UploadCryptProps {
+  /** Called after a submit that buried at least one save, so the Graveyard can refetch. */
+  onUploadSuccess?: () => void;
+  /** Called when the user dismisses the per-save results with "Done". */
+  onDone?: () => void;
+}
 
-const MAX_NAME_LENGTH = 20;
+/** Per-save outcome returned by bury-hero for a batch, in request order. */
+type BurialResponse = { status: number; body: { id: string; flagged: boolean } | { error: string } };
 
-/** Sanitizes input name: trims, max length check, and profanity filtering. */
-/** Sanitizes input name: trims, restricts to ASCII (A-Z, 0-9, symbols), and filters profanity. */
-function sanitizeCharacterName(input: string): string {
-  // Remove any character that is NOT: a-z, A-Z, 0-9, space, hyphen, underscore, or apostrophe.
-  // This effectively blocks Cyrillic, Nordic/Accent characters, and Emojis.
-  const asciiOnly = input.replace(/[^a-zA-Z0-9\s\-_']/g, '');
-  const trimmed = asciiOnly.trim().slice(0, MAX_NAME_LENGTH);
-  return filter.clean(trimmed) || 'Fallen Hero';
+const STAGE_LABELS: Record<ParseProgress['stage'], string> = {
+  reading: 'Reading',
+  validating: 'Validating',
+  hashing: 'Hashing',
+};
+
+/** Sends one group of saves (at most MAX_BATCH_SIZE) to bury-hero. Throws with the server's message when the call fails. */
+async function buryGroup(group: UploadBatchEntry[]): Promise<BurialResponse[]> {
+  const data = await invokeFunction<{ results: BurialResponse[] }>(
+    'bury-hero',
+    {
+      burials: group.map((entry) => ({
+        rawSave: entry.rawJson,
+        characterName: sanitizeCharacterName(entry.heroName || 'Fallen Hero'),
+        epitaph: sanitizeEpitaph(entry.epitaph),
+      })),
+    },
+    'The crypt could not be sealed. Please try again.'
+  );
+  return data.results;
 }
 
-interface UploadCryptProps {
-  onUploadSuccess?: () => void;
+/** An earlier burial of the same death, as shown on a duplicate row. */
+type BuriedHero = { fingerprint: string; character_name: string; mourned_by: string | null };
+
+/**
+ * Looks up earlier burials by fingerprint, MAX_BATCH_SIZE at a time: a large archive would otherwise put every
+ * fingerprint in one request URL, longer than PostgREST accepts. Throws with the query's message when a lookup fails.
+ */
+async function findBuried(fingerprints: string[]): Promise<Map<string, BuriedHero>> {
+  const buried = new Map<string, BuriedHero>();
+  for (let start = 0; start < fingerprints.length; start += MAX_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('deaths')
+      .select('fingerprint, character_name, mourned_by')
+      .in('fingerprint', fingerprints.slice(start, start + MAX_BATCH_SIZE));
+    if (error) throw new Error(error.message);
+    for (const row of (data ?? []) as BuriedHero[]) buried.set(row.fingerprint, row);
+  }
+  return buried;
+}
+
+/** Local verdict from the worker, as a batch row. The bury-hero Edge Function re-runs the same checks before inserting. */
+function toBatchEntry(save: ParsedSave): UploadBatchEntry {
+  const valid = save.payload !== null;
+  return {
+    ...save,
+    key: `${save.path}-${crypto.randomUUID()}`,
+    status: valid ? 'valid' : 'rejected',
+    reason: '',
+    heroName: '',
+    epitaph: '',
+    selected: valid,
+  };
 }
 
-export default function UploadCrypt({ onUploadSuccess }: UploadCryptProps) {
-  const [fileError, setFileError] = useState<string | null>(null);
-  const [payload, setPayload] = useState<ExtractedDeathPayload | null>(null);
-  const [rawJson, setRawJson] = useState<string>('');
-  const [heroName, setHeroName] = useState('');
+export default function UploadCrypt({ onUploadSuccess, onDone }: UploadCryptProps) {
+  const [entries, setEntries] = useState<UploadBatchEntry[]>([]);
+  const [isReading, setIsReading] = useState(false);
+  const [progress, setProgress] = useState<ParseProgress | null>(null);
+  const parseAbort = useRef<AbortController | null>(null);
   const [submitStatus, setSubmitStatus] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
   const [submitMessage, setSubmitMessage] = useState('');
+  // Saves sent so far out of the batch being submitted, for batches that go up in several groups.
+  const [submitProgress, setSubmitProgress] = useState({ done: 0, total: 0 });
+
+  const updateEntry = useCallback((key: string, patch: Partial<UploadBatchEntry>) => {
+    setEntries((prev) => prev.map((entry) => (entry.key === key ? { ...entry, ...patch } : entry)));
+  }, []);
+
+  // Stop a running parse when the crypt is closed.
+  useEffect(() => () => parseAbort.current?.abort(), []);
+
+  /** Takes the pending file collection, since unpacking zip archives can take a moment. */
+  const processFiles = useCallback(async (collecting: Promise<SaveFileSource[]>) => {
+    parseAbort.current?.abort();
+    const abort = new AbortController();
+    parseAbort.current = abort;
 
-  const processFile = useCallback((file: File) => {
-    // Reset state before processing new file
-    setFileError(null);
-    setPayload(null);
-    setRawJson('');
-    setHeroName('');
     setSubmitStatus('idle');
     setSubmitMessage('');
-
-    const reader = new FileReader();
-    reader.onload = () => {
-      const text = reader.result as string;
-      let data: unknown;
+    setIsReading(true);
+    setProgress(null);
+    try {
+      let sources: SaveFileSource[];
       try {
-        // Pre-check for scientific notation on critical numeric fields.
-        // Full-file checks risk false positives on non-numeric strings (e.g. hashes).
-        const NUMERIC_FIELDS_TO_CHECK = [
-          'LevelAchieved',
-          '_totalDamage',
-          'EnemiesDefeated',
-          'SoulStonesCollected',
-          'RegularEnemiesDefeated',
-          'EliteEnemiesDefeated',
-          'BossEnemiesDefeated',
-          'GoldGained',
-          'DamageDealt',
-          'RunTime',
-          'gameplayTime',
-          'cumulativeTotalRuns',
-          'EDamageTypeDefinition'
-        ];
-
-        for (const key of NUMERIC_FIELDS_TO_CHECK) {
-          // Pattern: "Key" : (spaces) (number with e/E)
-          // regex: /"Key"\s*:\s*[-]?\d+(\.\d+)?[eE]/
-          const regex = new RegExp(`"${key}"\\s*:\\s*[-]?\\d+(\\.\\d+)?[eE]`);
-          if (regex.test(text)) {
-            setFileError(`Scientific notation detected in field '${key}'. Please use standard numbers.`);
-            return;
-          }
-        }
-
-        data = JSON.parse(text) as unknown;
+        sources = await collecting;
       } catch {
-        setFileError('Invalid JSON.');
+        setSubmitStatus('error');
+        setSubmitMessage('Could not read the archive. Is it a valid .zip file?');
         return;
       }
-
-      const validationError = validateSaveFile(data);
-      if (validationError) {
-        setFileError(validationError.message);
+      if (sources.length === 0) {
+        setSubmitStatus('error');
+        setSubmitMessage('No player saves were found.');
         return;
       }
 
-      let extracted: ExtractedDeathPayload;
+      let added: UploadBatchEntry[];
       try {
-        extracted = extractDeathPayload(data as PlayerSaveData);
+        const parsed = await parseSavesInWorker(sources, { onProgress: setProgress, signal: abort.signal });
+        added = parsed.map(toBatchEntry);
       } catch (err: unknown) {
-        const msg = err instanceof Error ? err.message : 'Failed to parse save file attributes.';
-        setFileError(msg);
+        if (err instanceof DOMException && err.name === 'AbortError') return;
+        setSubmitStatus('error');
+        setSubmitMessage(err instanceof Error ? err.message : 'Could not read the save files.');
         return;
       }
 
-      // Post-Extraction Validation
-      if (extracted.level > 50) {
-        setFileError('Validation Error: Level cannot exceed 50.');
-        return;
-      }
-      if (extracted.damageTaken < 1) {
-        setFileError('Validation Error: Damage taken must be at least 1.');
+      // The fingerprint ignores formatting and uploader, so re-saved files and other accounts' burials match too.
+      // Deaths still awaiting review are hidden here; bury-hero catches those on submit.
+      let buried: Map<string, BuriedHero>;
+      try {
+        buried = await findBuried(added.flatMap((entry) => (entry.fingerprint ? [entry.fingerprint] : [])));
+      } catch (err: unknown) {
+        setSubmitStatus('error');
+        setSubmitMessage(`Could not check the Crypt for earlier burials: ${err instanceof Error ? err.message : 'unknown error'}`);
         return;
       }
 
-      // Recursive check for negative numbers in top-level fields
-      const hasNegative = Object.values(extracted).some(val => typeof val === 'number' && val < 0);
-      if (hasNegative) {
-        setFileError('Validation Error: Save file contains negative values.');
-        return;
+      setEntries((prev) => {
+        const seen = new Set(prev.flatMap((entry) => (entry.fingerprint ? [entry.fingerprint] : [])));
+        const marked = added.map((entry) => {
+          if (!entry.fingerprint) return entry;
+          const original = buried.get(entry.fingerprint);
+          if (original) {
+            const by = original.mourned_by ? ` by ${original.mourned_by}` : '';
+            return { ...entry, status: 'duplicate' as const, selected: false, reason: `This hero was already buried as "${original.character_name}"${by}.` };
+          }
+          if (seen.has(entry.fingerprint)) {
+            return { ...entry, status: 'duplicate' as const, selected: false, reason: 'The same death is already in this batch.' };
+          }
+          seen.add(entry.fingerprint);
+          return entry;
+        });
+        return [...prev, ...marked];
+      });
+    } finally {
+      // A newer batch may have taken over; only the current one clears the progress.
+      if (parseAbort.current === abort) {
+        parseAbort.current = null;
+        setIsReading(false);
+        setProgress(null);
       }
+    }
+  }, []);
 
-      console.log('Extracted payload:', extracted);
-      setPayload(extracted);
-      setRawJson(text);
-      setHeroName('');
-    };
-    reader.readAsText(file);
+  const cancelParsing = useCallback(() => {
+    parseAbort.current?.abort();
   }, []);
 
   const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) processFile(file);
-  }, [processFile]);
+    processFiles(collectPickedFiles(e.target.files));
+    // Allow picking the same files again after removing them from the batch.
+    e.target.value = '';
+  }, [processFiles]);
+
+  const accepted = entries.filter((entry) => entry.status === 'valid' && entry.selected);
+  const selectable = entries.filter((entry) => entry.status === 'valid');
 
   const handleSubmit = useCallback(async () => {
-    if (!payload || !rawJson) return;
+    if (accepted.length === 0) return;
 
-    const sanitizedName = sanitizeCharacterName(heroName || 'Fallen Hero');
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) {
       setSubmitStatus('error');
@@ -143,60 +197,58 @@ export default function UploadCrypt({ onUploadSuccess }: UploadCryptProps) {
 
     setSubmitStatus('loading');
     setSubmitMessage('');
+    setSubmitProgress({ done: 0, total: accepted.length });
 
+    // bury-hero refuses batches over MAX_BATCH_SIZE, so large folders and archives go up in groups, one after another.
+    // A group that fails as a whole marks its own saves as not buried; the remaining groups are still sent.
+    let buriedCount = 0;
+    let heldCount = 0;
+    for (let start = 0; start < accepted.length; start += MAX_BATCH_SIZE) {
+      const group = accepted.slice(start, start + MAX_BATCH_SIZE);
+      let results: BurialResponse[];
+      try {
+        results = await buryGroup(group);
+      } catch (err: unknown) {
+        const reason = err instanceof Error ? err.message : 'The crypt could not be sealed. Please try again.';
+        group.forEach((entry) => updateEntry(entry.key, { status: 'failed', reason }));
+        setSubmitProgress({ done: start + group.length, total: accepted.length });
+        continue;
+      }
 
-    let uniqueHash: string;
-    try {
-      uniqueHash = await generateUniqueHash({
-        userId: user.id,
-        rawSnapshot: rawJson,
+      group.forEach((entry, idx) => {
+        const result = results[idx];
+        if (!result) {
+          updateEntry(entry.key, { status: 'failed', reason: 'The crypt did not answer for this save. Please try again.' });
+          return;
+        }
+        if ('error' in result.body) {
+          updateEntry(entry.key, {
+            status: result.status === 409 ? 'duplicate' : 'failed',
+            reason: result.body.error,
+          });
+          return;
+        }
+        if (result.body.flagged) heldCount += 1;
+        else buriedCount += 1;
+        updateEntry(entry.key, {
+          status: result.body.flagged ? 'held' : 'buried',
+          reason: result.body.flagged ? 'Buried, but awaits review before joining The Graveyard.' : '',
+        });
       });
-    } catch {
-      setSubmitStatus('error');
-      setSubmitMessage('Failed to generate submission hash.');
-      return;
+      setSubmitProgress({ done: start + group.length, total: accepted.length });
     }
 
-    const insertData = {
-      user_id: user.id,
-      mourned_by: user.user_metadata?.username || user.email?.split('@')[0] || 'Unknown Soul',
-      character_name: sanitizedName,
-      level: payload.level,
-      damage_taken: payload.damageTaken,
-      career_seconds: payload.careerSeconds,
-      career_runs: payload.careerRuns,
-      career_kills: payload.careerKills,
-      career_elite_kills: payload.careerEliteKills,
-      career_bosses: payload.careerBosses,
-      career_gold: payload.careerGold,
-      career_soulstones: payload.careerSoulstones,
-      skill_ids: payload.skillIds,
-      // Last run
-      last_run_kills: payload.lastRunKills,
-      last_run_soulstones: payload.lastRunSoulstones,
-      last_run_regular_kills: payload.lastRunRegularKills,
-      last_run_elite_kills: payload.lastRunEliteKills,
-      last_run_boss_kills: payload.lastRunBossKills,
-      last_run_gold: payload.lastRunGold,
-      last_run_damage_dealt: payload.lastRunDamageDealt,
-      last_run_duration: payload.lastRunDuration,
-      last_run_damage_type: payload.lastRunDamageType,
-      unique_hash: uniqueHash,
-    };
-    console.log('Inserting data:', insertData);
-    const { error, data: insertedData } = await supabase.from('deaths').insert(insertData).select();
-    console.log('Insert result:', { error, insertedData });
-
-    if (error) {
-      setSubmitStatus('error');
-      setSubmitMessage(error.code === '23505' ? 'This death was already submitted.' : error.message);
-      return;
-    }
+    const failedCount = accepted.length - buriedCount - heldCount;
+    setSubmitStatus(failedCount === accepted.length ? 'error' : 'success');
+    setSubmitMessage([
+      buriedCount > 0 && `${buriedCount} laid to rest`,
+      heldCount > 0 && `${heldCount} awaiting review`,
+      failedCount > 0 && `${failedCount} not buried`,
+    ].filter(Boolean).join(' · ') + '.');
+    if (buriedCount + heldCount > 0) onUploadSuccess?.();
+  }, [accepted, updateEntry, onUploadSuccess]);
 
-    setSubmitStatus('success');
-    setSubmitMessage('Your fallen hero has been laid to rest in The Graveyard.');
-    onUploadSuccess?.();
-  }, [payload, rawJson, heroName, onUploadSuccess]);
+  const isBusy = isReading || submitStatus === 'loading';
 
   return (
     <motion.section
@@ -221,8 +273,7 @@ export default function UploadCrypt({ onUploadSuccess }: UploadCryptProps) {
         onDrop={(e) => {
           e.preventDefault();
           e.stopPropagation();
-          const file = e.dataTransfer.files?.[0];
-          if (file) processFile(file);
+          processFiles(collectDroppedFiles(e.dataTransfer));
         }}
         onClick={() => {
           // Use div instead of label to prevent event propagation issues with nested interactive elements.
@@ -232,7 +283,7 @@ export default function UploadCrypt({ onUploadSuccess }: UploadCryptProps) {
         }}
       >
         <FileJson className="h-10 w-10 text-stone-500" aria-hidden />
-        <span className="text-sm font-medium text-stone-300">Drop PlayerSave.json here or click to browse</span>
+        <span className="text-sm font-medium text-stone-300">Drop PlayerSave.json files, folders or .zip backups here, or click to browse</span>
 
         {/* Path Helper */}
         <div className="mt-6 flex w-full max-w-sm flex-col items-center gap-2">
@@ -267,80 +318,136 @@ export default function UploadCrypt({ onUploadSuccess }: UploadCryptProps) {
         <input
           id="save-file-input"
           type="file"
-          accept=".json,application/json"
+          accept=".json,.zip,application/json,application/zip"
+          multiple
           className="hidden"
           onClick={(e) => e.stopPropagation()} // Stop bubbling to parent div
           onChange={handleFileChange}
         />
       </div>
 
-      <AnimatePresence mode="wait">
-        {fileError && (
-          <motion.div
-            key="error"
-            initial={{ opacity: 0, height: 0 }}
-            animate={{ opacity: 1, height: 'auto' }}
-            exit={{ opacity: 0, height: 0 }}
-            className="mt-4 flex items-center gap-2 rounded-lg border border-red-900/50 bg-red-950/30 px-4 py-3 text-red-300"
-          >
-            <AlertCircle className="h-5 w-5 shrink-0" aria-hidden />
-            <span className="text-sm">{fileError}</span>
-          </motion.div>
-        )}
-
-        {payload && !fileError && (
-          <motion.div
-            key="name-step"
-            initial={{ opacity: 0, height: 0 }}
-            animate={{ opacity: 1, height: 'auto' }}
-            exit={{ opacity: 0 }}
-            className="mt-6 space-y-4"
-          >
-            <label className="block text-sm font-medium text-stone-300">
-              Name your Fallen Hero
-            </label>
-            <input
-              type="text"
-              maxLength={MAX_NAME_LENGTH}
-              placeholder="Fallen Hero"
-              value={heroName}
-              onChange={(e) => setHeroName(e.target.value)}
-              className="w-full rounded-lg border border-stone-600 bg-stone-800 px-4 py-2 font-cinzel text-stone-100 placeholder:text-stone-500 focus:border-red-600 focus:outline-none focus:ring-1 focus:ring-red-600/50"
+      {isReading && (
+        <div className="mt-4 space-y-2">
+          <div className="flex items-center justify-between gap-3 text-xs text-stone-500">
+            <span className="min-w-0 truncate">
+              {progress
+                ? `${STAGE_LABELS[progress.stage]} ${progress.path} (${progress.completed + 1}/${progress.total})`
+                : 'Gathering save files…'}
+            </span>
+            <button
+              type="button"
+              onClick={cancelParsing}
+              className="shrink-0 uppercase tracking-wider transition hover:text-stone-300"
+            >
+              Cancel
+            </button>
+          </div>
+          <div className="h-1 overflow-hidden rounded-full bg-stone-800">
+            <div
+              className="h-full bg-red-800 transition-all"
+              style={{ width: `${progress ? (progress.completed / progress.total) * 100 : 0}%` }}
             />
-            <p className="text-xs text-stone-500">
-              Max {MAX_NAME_LENGTH} characters. Profanity is filtered.
-            </p>
+          </div>
+        </div>
+      )}
+
+      {entries.length > 0 && (
+        <div className="mt-6 space-y-4">
+          <div className="flex items-center justify-between text-xs text-stone-500">
+            <span>
+              {entries.length} {entries.length === 1 ? 'file' : 'files'} · {accepted.length} of {selectable.length} valid selected
+            </span>
+            {selectable.length > 1 && (
+              <button
+                type="button"
+                onClick={() => {
+                  const selectAll = accepted.length < selectable.length;
+                  setEntries((prev) => prev.map((entry) => (entry.status === 'valid' ? { ...entry, selected: selectAll } : entry)));
+                }}
+                disabled={isBusy}
+                className="ml-auto mr-4 uppercase tracking-wider transition hover:text-stone-300 disabled:opacity-40"
+              >
+                {accepted.length < selectable.length ? 'Select all' : 'Select none'}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => {
+                setEntries([]);
+                setSubmitStatus('idle');
+                setSubmitMessage('');
+              }}
+              disabled={isBusy}
+              className="uppercase tracking-wider transition hover:text-stone-300 disabled:opacity-40"
+            >
+              Clear
+            </button>
+          </div>
+
+          <ul className="space-y-3">
+            <AnimatePresence initial={false}>
+              {entries.map((entry) => (
+                <UploadBatchItem
+                  key={entry.key}
+                  entry={entry}
+                  disabled={isBusy}
+                  onNameChange={(heroName) => updateEntry(entry.key, { heroName })}
+                  onEpitaphChange={(epitaph) => updateEntry(entry.key, { epitaph })}
+                  onSelectedChange={(selected) => updateEntry(entry.key, { selected })}
+                  onRemove={() => setEntries((prev) => prev.filter((e) => e.key !== entry.key))}
+                />
+              ))}
+            </AnimatePresence>
+          </ul>
+
+          {accepted.length > 0 && (
             <button
               type="button"
               onClick={handleSubmit}
-              disabled={submitStatus === 'loading'}
+              disabled={isBusy}
               className="w-full rounded-lg bg-red-800 px-4 py-2.5 font-medium text-white transition hover:bg-red-700 disabled:opacity-50"
             >
-              {submitStatus === 'loading' ? 'Submitting…' : 'Lay to Rest'}
+              {submitStatus === 'loading'
+                ? submitProgress.total > MAX_BATCH_SIZE ? `Submitting… (${submitProgress.done}/${submitProgress.total})` : 'Submitting…'
+                : accepted.length === 1 ? 'Lay to Rest' : `Lay ${accepted.length} Heroes to Rest`}
             </button>
-            <AnimatePresence>
-              {submitStatus === 'success' && (
-                <motion.p
-                  initial={{ opacity: 0 }}
-                  animate={{ opacity: 1 }}
-                  className="text-center text-sm text-emerald-400"
-                >
-                  {submitMessage}
-                </motion.p>
-              )}
-              {submitStatus === 'error' && submitMessage && (
-                <motion.p
-                  initial={{ opacity: 0 }}
-                  animate={{ opacity: 1 }}
-                  className="text-center text-sm text-red-400"
-                >
-                  {submitMessage}
-                </motion.p>
-              )}
-            </AnimatePresence>
-          </motion.div>
+          )}
+        </div>
+      )}
+
+      <AnimatePresence>
+        {submitStatus === 'success' && (
+          <motion.p
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            className="mt-4 text-center text-sm text-emerald-400"
+          >
+            {submitMessage}
+          </motion.p>
+        )}
+        {submitStatus === 'error' && submitMessage && (
+          <motion.p
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            className="mt-4 text-center text-sm text-red-400"
+          >
+            {submitMessage}
+          </motion.p>
         )}
       </AnimatePresence>
+
+      {/* The crypt stays open after a submit so the per-save verdicts above can be read. */}
+      {onDone && (submitStatus === 'success' || submitStatus === 'error') && (
+        <div className="mt-4 flex justify-center">
+          <button
+            type="button"
+            onClick={onDone}
+            className="rounded-full border border-stone-700 px-6 py-1.5 text-xs uppercase tracking-wider text-stone-300 transition hover:border-stone-500"
+          >
+            Done
+          </button>
+        </div>
+      )}
     </motion.section>
   );
 }
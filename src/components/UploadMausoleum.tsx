@@ -0,0 +1,171 @@
+// UploadMausoleum.tsx
+// Upload path for the Mausoleum: softcore characters and Hardcore characters still alive.
+// Validates locally for preview, then submits through the 'archive-hero' Edge Function.
+
+import { useState, useCallback } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { FileJson, Landmark } from 'lucide-react';
+import { parseArchiveFile } from '../saveFileParser';
+import type { ExtractedArchivePayload } from '../types';
+import type { SaveIssue } from '../saveIssues';
+import { MAX_NAME_LENGTH, sanitizeCharacterName } from '../lib/sanitize';
+import { invokeFunction } from '../lib/functions';
+import SaveIssueList from './SaveIssueList';
+
+interface UploadMausoleumProps {
+  onUploadSuccess?: () => void;
+}
+
+export default function UploadMausoleum({ onUploadSuccess }: UploadMausoleumProps) {
+  const [fileIssues, setFileIssues] = useState<SaveIssue[]>([]);
+  const [payload, setPayload] = useState<ExtractedArchivePayload | null>(null);
+  const [rawJson, setRawJson] = useState('');
+  const [heroName, setHeroName] = useState('');
+  const [submitStatus, setSubmitStatus] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
+  const [submitMessage, setSubmitMessage] = useState('');
+
+  const processFile = useCallback((file: File) => {
+    setFileIssues([]);
+    setPayload(null);
+    setRawJson('');
+    setSubmitStatus('idle');
+    setSubmitMessage('');
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      const text = reader.result as string;
+      // Local preview only: the archive-hero Edge Function re-runs the same checks before inserting.
+      const result = parseArchiveFile(text);
+      setFileIssues(result.issues);
+      if (!result.ok) return;
+
+      setPayload(result.payload);
+      setRawJson(text);
+    };
+    reader.readAsText(file);
+  }, []);
+
+  const handleSubmit = useCallback(async () => {
+    if (!payload || !rawJson) return;
+
+    setSubmitStatus('loading');
+    setSubmitMessage('');
+
+    try {
+      await invokeFunction<{ id: string }>(
+        'archive-hero',
+        { rawSave: rawJson, characterName: sanitizeCharacterName(heroName || 'Fallen Hero') },
+        'The hero could not be enshrined. Please try again.'
+      );
+    } catch (err: unknown) {
+      setSubmitStatus('error');
+      setSubmitMessage(err instanceof Error ? err.message : 'The hero could not be enshrined. Please try again.');
+      return;
+    }
+
+    setSubmitStatus('success');
+    setSubmitMessage('Your hero has been enshrined in the Mausoleum.');
+    onUploadSuccess?.();
+  }, [payload, rawJson, heroName, onUploadSuccess]);
+
+  return (
+    <motion.section
+      className="rounded-xl border border-slate-700 bg-slate-900/80 p-6 shadow-xl backdrop-blur-sm"
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4 }}
+    >
+      <div className="mb-4 flex items-center gap-2 text-slate-300">
+        <Landmark className="h-5 w-5 text-sky-300" aria-hidden />
+        <h2 className="font-cinzel text-lg font-semibold tracking-wide text-slate-200">
+          Enshrine in the Mausoleum
+        </h2>
+      </div>
+      <p className="mb-4 text-xs text-slate-500">
+        For softcore characters and Hardcore heroes who still draw breath. Fallen Hardcore heroes belong in The Graveyard.
+      </p>
+
+      <label
+        className="flex cursor-pointer flex-col items-center gap-2 rounded-lg border border-dashed border-slate-700 bg-slate-800/50 px-6 py-8 transition hover:border-sky-900/50 hover:bg-slate-800/80"
+        onDragOver={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+        }}
+        onDrop={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          const file = e.dataTransfer.files?.[0];
+          if (file) processFile(file);
+        }}
+      >
+        <FileJson className="h-10 w-10 text-slate-500" aria-hidden />
+        <span className="text-sm font-medium text-slate-300">Drop PlayerSave.json here or click to browse</span>
+        <input
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) processFile(file);
+          }}
+        />
+      </label>
+
+      <AnimatePresence mode="wait">
+        {fileIssues.length > 0 && (
+          <motion.div
+            key="issues"
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            className="mt-4"
+          >
+            <SaveIssueList issues={fileIssues} />
+          </motion.div>
+        )}
+
+        {payload && (
+          <motion.div
+            key="name-step"
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0 }}
+            className="mt-6 space-y-4"
+          >
+            <p className="text-sm text-slate-400">
+              {payload.isHardcore ? 'Living Hardcore hero' : `Softcore hero, ${payload.totalDeaths} deaths`} · Highest level {payload.level}
+            </p>
+            <label className="block text-sm font-medium text-slate-300">
+              Name your Hero
+            </label>
+            <input
+              type="text"
+              maxLength={MAX_NAME_LENGTH}
+              placeholder="Fallen Hero"
+              value={heroName}
+              onChange={(e) => setHeroName(e.target.value)}
+              className="w-full rounded-lg border border-slate-600 bg-slate-800 px-4 py-2 font-cinzel text-slate-100 placeholder:text-slate-500 focus:border-sky-600 focus:outline-none focus:ring-1 focus:ring-sky-600/50"
+            />
+            <p className="text-xs text-slate-500">
+              Max {MAX_NAME_LENGTH} characters. Profanity is filtered.
+            </p>
+            <button
+              type="button"
+              onClick={handleSubmit}
+              disabled={submitStatus === 'loading'}
+              className="w-full rounded-lg bg-sky-900 px-4 py-2.5 font-medium text-white transition hover:bg-sky-800 disabled:opacity-50"
+            >
+              {submitStatus === 'loading' ? 'Submitting…' : 'Enshrine'}
+            </button>
+            {submitStatus === 'success' && (
+              <p className="text-center text-sm text-emerald-400">{submitMessage}</p>
+            )}
+            {submitStatus === 'error' && submitMessage && (
+              <p className="text-center text-sm text-red-400">{submitMessage}</p>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </motion.section>
+  );
+}
@@ -0,0 +1,6 @@
+/**
+ * Utility: Limits of the `bury-hero` Edge Function, shared with UploadCrypt so the client never sends a batch the server refuses.
+ */
+
+/** Upper bound on saves per batch request, to keep one call within the Edge Function time limit. */
+export const MAX_BATCH_SIZE = 25;
@@ -0,0 +1,74 @@
+/**
+ * Utility: "The Census of the Dead", global statistics over every approved hero.
+ * The numbers are aggregated by the `census_*` views in supabase/schema.sql; the client only fills in the quiet days.
+ */
+
+import { supabase } from './supabase';
+
+/** How many days of deaths the daily chart covers, today included. */
+export const CENSUS_DAYS = 60;
+
+export interface CensusSummary {
+  totalDeaths: number;
+  medianCareerSeconds: number | null;
+  averageRuns: number | null;
+  averageLevel: number | null;
+}
+
+export interface Census {
+  summary: CensusSummary;
+  /** One entry per UTC day over the last CENSUS_DAYS days, oldest first; days without deaths count 0. */
+  deathsPerDay: Array<{ day: string; deaths: number }>;
+  /** Deaths per level reached, lowest level first. */
+  levels: Array<{ level: number; deaths: number }>;
+  /** Deaths per killing damage type, deadliest first. */
+  damageTypes: Array<{ damageType: number; deaths: number }>;
+}
+
+function toNumber(value: number | string | null): number | null {
+  return value === null ? null : Number(value);
+}
+
+/** `YYYY-MM-DD` of the UTC days from `days - 1` days ago up to today. */
+function lastDays(days: number): string[] {
+  const today = new Date();
+  return Array.from({ length: days }, (_, idx) => {
+    const day = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() - (days - 1 - idx)));
+    return day.toISOString().slice(0, 10);
+  });
+}
+
+export async function fetchCensus(): Promise<Census> {
+  const days = lastDays(CENSUS_DAYS);
+  const [summary, perDay, levels, damageTypes] = await Promise.all([
+    supabase.from('census_summary').select('*').single(),
+    supabase.from('census_deaths_per_day').select('day, deaths').gte('day', days[0]),
+    supabase.from('census_levels').select('level, deaths').order('level', { ascending: true }),
+    supabase.from('census_damage_types').select('damage_type, deaths').order('deaths', { ascending: false }),
+  ]);
+  const error = summary.error ?? perDay.error ?? levels.error ?? damageTypes.error;
+  if (error) throw new Error(error.message);
+
+  const row = summary.data as {
+    total_deaths: number;
+    median_career_seconds: number | null;
+    average_runs: string | null;
+    average_level: string | null;
+  };
+  const deathsByDay = new Map(((perDay.data ?? []) as Array<{ day: string; deaths: number }>).map((entry) => [entry.day, entry.deaths]));
+
+  return {
+    summary: {
+      totalDeaths: row.total_deaths,
+      medianCareerSeconds: row.median_career_seconds,
+      averageRuns: toNumber(row.average_runs),
+      averageLevel: toNumber(row.average_level),
+    },
+    deathsPerDay: days.map((day) => ({ day, deaths: deathsByDay.get(day) ?? 0 })),
+    levels: (levels.data ?? []) as Array<{ level: number; deaths: number }>,
+    damageTypes: ((damageTypes.data ?? []) as Array<{ damage_type: number; deaths: number }>).map((entry) => ({
+      damageType: entry.damage_type,
+      deaths: entry.deaths,
+    })),
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * Utility: Condolence messages under a hero.
+ * Messages are posted through the `post-condolence` Edge Function, which sanitizes them like epitaphs.
+ * Deleting is a plain delete: the `death_condolences_delete` policy limits it to the author and the hero's owner.
+ */
+
+import { invokeFunction } from './functions';
+import { supabase } from './supabase';
+import type { DeathCondolenceRecord } from '../types';
+
+/** Most condolences shown under one hero. */
+export const CONDOLENCE_LIST_LIMIT = 50;
+
+/** The latest condolences left under a hero, oldest first so the thread reads top to bottom. */
+export async function fetchCondolences(deathId: string): Promise<DeathCondolenceRecord[]> {
+  const { data, error } = await supabase
+    .from('death_condolences')
+    .select('*')
+    .eq('death_id', deathId)
+    .order('created_at', { ascending: false })
+    .limit(CONDOLENCE_LIST_LIMIT);
+  if (error) throw new Error(error.message);
+  return ((data as DeathCondolenceRecord[]) ?? []).reverse();
+}
+
+/** Leaves the signed-in user's message under a hero and resolves with the stored row. */
+export function postCondolence(deathId: string, text: string): Promise<DeathCondolenceRecord> {
+  return invokeFunction<DeathCondolenceRecord>(
+    'post-condolence',
+    { deathId, message: text },
+    'The condolence could not be left. Please try again.'
+  );
+}
+
+export async function deleteCondolence(id: string): Promise<void> {
+  const { data, error } = await supabase.from('death_condolences').delete().eq('id', id).select('id');
+  if (error) throw new Error(error.message);
+  // RLS turns a delete of someone else's message into a no-op rather than an error.
+  if (!data || data.length === 0) throw new Error('Only the author or the hero\'s owner can remove this message.');
+}
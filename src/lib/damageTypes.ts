@@ -0,0 +1,15 @@
+/**
+ * Utility: Damage types of the killing blow (`EDamageTypeDefinition` in the save, `last_run_damage_type` in the Crypt).
+ */
+
+export const DAMAGE_TYPES = [
+  { id: 0, label: 'Physical' },
+  { id: 1, label: 'Fire' },
+  { id: 2, label: 'Plague' },
+  { id: 3, label: 'Lightning' },
+] as const;
+
+/** Resolves damage type ID to display label; unknown IDs read as Physical. */
+export function getDamageTypeLabel(typeId: number | null | undefined): string {
+  return DAMAGE_TYPES.find((type) => type.id === typeId)?.label ?? 'Physical';
+}
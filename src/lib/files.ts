@@ -0,0 +1,113 @@
+/**
+ * Utility: Collects the save files from a drop or a file picker.
+ * Dropped folders are walked recursively and `.zip` backups are unpacked in the browser (no upload);
+ * only `.json` files are kept, and from archives only those that look like a player save.
+ */
+
+import { unzip, strFromU8, type Unzipped } from 'fflate';
+
+/** A picked or dropped file with the path it was found under, so several `PlayerSave.json` can be told apart. */
+export interface SaveFileSource {
+  file: File;
+  path: string;
+}
+
+/** Files larger than this inside an archive are skipped unread; real saves are well under 1 MB. */
+const MAX_ARCHIVED_SAVE_SIZE = 10 * 1024 * 1024;
+
+function hasExtension({ file }: SaveFileSource, extension: string): boolean {
+  return file.name.toLowerCase().endsWith(extension);
+}
+
+function isCandidate(source: SaveFileSource): boolean {
+  return hasExtension(source, '.json') || hasExtension(source, '.zip');
+}
+
+/** Cheap content sniff for archives, which also hold settings, logs and other JSON. */
+function looksLikePlayerSave(text: string): boolean {
+  return text.includes('"pastRunsData"') && text.includes('"hardcoreModeEnabled"');
+}
+
+function unzipArchive(data: Uint8Array): Promise<Unzipped> {
+  return new Promise((resolve, reject) => {
+    unzip(
+      data,
+      {
+        filter: (entry) =>
+          entry.name.toLowerCase().endsWith('.json') && entry.originalSize <= MAX_ARCHIVED_SAVE_SIZE,
+      },
+      (err, files) => (err ? reject(err) : resolve(files))
+    );
+  });
+}
+
+/** Every player save inside a zip archive, with paths prefixed by the archive's own path. */
+async function extractArchive(archive: SaveFileSource): Promise<SaveFileSource[]> {
+  const files = await unzipArchive(new Uint8Array(await archive.file.arrayBuffer()));
+  const sources: SaveFileSource[] = [];
+  for (const [name, bytes] of Object.entries(files)) {
+    const text = strFromU8(bytes);
+    if (!looksLikePlayerSave(text)) continue;
+    const fileName = name.split('/').pop() ?? name;
+    sources.push({ file: new File([text], fileName, { type: 'application/json' }), path: `${archive.path}/${name}` });
+  }
+  return sources;
+}
+
+/** Replaces every zip archive with the saves found inside it. */
+async function expandArchives(sources: SaveFileSource[]): Promise<SaveFileSource[]> {
+  const expanded = await Promise.all(
+    sources.map((source) => (hasExtension(source, '.zip') ? extractArchive(source) : [source]))
+  );
+  return expanded.flat();
+}
+
+function readEntryFile(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+/** Reads every entry of a directory; `readEntries` returns them in chunks until it yields an empty one. */
+async function readDirectoryEntries(dir: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = dir.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const chunk = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (chunk.length === 0) return entries;
+    entries.push(...chunk);
+  }
+}
+
+async function collectEntry(entry: FileSystemEntry): Promise<SaveFileSource[]> {
+  if (entry.isFile) {
+    const file = await readEntryFile(entry as FileSystemFileEntry);
+    return [{ file, path: entry.fullPath.replace(/^\//, '') }];
+  }
+  if (entry.isDirectory) {
+    const children = await readDirectoryEntries(entry as FileSystemDirectoryEntry);
+    const nested = await Promise.all(children.map(collectEntry));
+    return nested.flat();
+  }
+  return [];
+}
+
+/** Save files from a drop, including those inside dropped folders and zip archives. */
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<SaveFileSource[]> {
+  // Entries must be taken synchronously: the DataTransfer is emptied once the drop handler yields.
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  if (entries.length === 0) {
+    return expandArchives(Array.from(dataTransfer.files, (file) => ({ file, path: file.name })).filter(isCandidate));
+  }
+
+  const files = await Promise.all(entries.map(collectEntry));
+  return expandArchives(files.flat().filter(isCandidate));
+}
+
+/** Save files from a file input (multiple selection, possibly zip archives). */
+export function collectPickedFiles(list: FileList | null): Promise<SaveFileSource[]> {
+  return expandArchives(
+    Array.from(list ?? [], (file) => ({ file, path: file.webkitRelativePath || file.name })).filter(isCandidate)
+  );
+}
@@ -0,0 +1,22 @@
+/**
+ * Utility: Display formatting shared by Tombstone cards and charts.
+ */
+
+/** Formats seconds into h/m string (e.g., "1h 30m"). */
+export function formatDuration(seconds: number | null | undefined): string {
+  if (seconds == null || Number.isNaN(seconds)) return '0h';
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  if (h === 0) return `${m}m`;
+  if (m === 0) return `${h}h`;
+  return `${h}h ${m}m`;
+}
+
+/** Formats large numbers with suffixes (1.2k, 1.5M). */
+export function formatNumber(n: number | null | undefined): string {
+  if (n == null || Number.isNaN(n)) return '0';
+  if (n >= 1e9) return `${(n / 1e9).toFixed(1)}B`;
+  if (n >= 1e6) return `${(n / 1e6).toFixed(1)}M`;
+  if (n >= 1e3) return `${(n / 1e3).toFixed(1)}K`;
+  return n.toLocaleString();
+}
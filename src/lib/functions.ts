@@ -0,0 +1,24 @@
+/**
+ * Utility: Calls to the Supabase Edge Functions.
+ * A failing function answers with `{ error }` in its body; that reason is what the user sees, rather than
+ * the client's generic "non-2xx status code" message.
+ */
+
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+
+/** Invokes an Edge Function and resolves with its response body. Throws with the function's reason when the call fails. */
+export async function invokeFunction<T>(name: string, body: Record<string, unknown>, fallbackMessage: string): Promise<T> {
+  const { data, error } = await supabase.functions.invoke<T>(name, { body });
+
+  if (error || !data) {
+    let message = error?.message ?? fallbackMessage;
+    if (error instanceof FunctionsHttpError) {
+      const reply = await error.context.json().catch(() => null) as { error?: string } | null;
+      message = reply?.error ?? message;
+    }
+    throw new Error(message);
+  }
+
+  return data;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it, vi } from 'vitest';
+import { EMPTY_FILTERS, formatGraveyardQuery, parseGraveyardQuery, type GraveyardQuery } from './graveyard.ts';
+
+// The query string helpers never touch the database; this keeps the client from needing VITE_SUPABASE_URL.
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+const plain: GraveyardQuery = { sort: 'latest', search: '', filters: EMPTY_FILTERS };
+
+describe('Graveyard query string', () => {
+  it('keeps the plain view at a clean URL', () => {
+    expect(formatGraveyardQuery(plain)).toBe('');
+    expect(parseGraveyardQuery('')).toEqual(plain);
+  });
+
+  it('round-trips a query with every filter set', () => {
+    const query: GraveyardQuery = {
+      sort: 'playtime_low',
+      search: 'Sir & Lady?',
+      filters: {
+        minLevel: 0,
+        maxLevel: 50,
+        damageType: 2,
+        skillId: 17,
+        diedFrom: '2026-01-01',
+        diedTo: '2026-02-28',
+        minKills: 1000,
+        minBosses: 3,
+      },
+    };
+    const queryString = formatGraveyardQuery(query);
+
+    expect(queryString).toBe('?sort=playtime_low&q=Sir+%26+Lady%3F&lvl_min=0&lvl_max=50&dmg=2&skill=17&from=2026-01-01&to=2026-02-28&kills=1000&bosses=3');
+    expect(parseGraveyardQuery(queryString)).toEqual(query);
+  });
+
+  it('round-trips each filter on its own', () => {
+    for (const [field, value] of Object.entries({ minLevel: 12, diedTo: '2026-10-19', minBosses: 0 })) {
+      const query = { ...plain, filters: { ...EMPTY_FILTERS, [field]: value } };
+      expect(parseGraveyardQuery(formatGraveyardQuery(query))).toEqual(query);
+    }
+  });
+
+  it('trims the search before writing it', () => {
+    expect(formatGraveyardQuery({ ...plain, search: '  ghost ' })).toBe('?q=ghost');
+    expect(formatGraveyardQuery({ ...plain, search: '   ' })).toBe('');
+  });
+
+  it('falls back to defaults for unknown or malformed values', () => {
+    expect(parseGraveyardQuery('?sort=oldest&lvl_min=-1&lvl_max=2.5&dmg=fire&skill=&from=2026-13-45&to=yesterday&kills=lots')).toEqual(plain);
+  });
+});
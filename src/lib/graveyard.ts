@@ -0,0 +1,190 @@
+/**
+ * Utility: Paginated Graveyard listing.
+ * Sorting, search, filters and keyset pagination run in Postgres (`graveyard_page` in supabase/schema.sql);
+ * the client only keeps the cursor of the last row it received.
+ * The query (sort, search, filters) round-trips through the URL query string so filtered views can be shared.
+ */
+
+import { supabase } from './supabase';
+import type { DeathRecord } from '../types';
+
+export type GraveyardSort = 'latest' | 'respects' | 'kills' | 'playtime_high' | 'playtime_low';
+
+const SORTS: GraveyardSort[] = ['latest', 'respects', 'kills', 'playtime_high', 'playtime_low'];
+
+/** Combinable filters; null means "not applied". Dates are `YYYY-MM-DD`, both ends inclusive. */
+export interface GraveyardFilters {
+  minLevel: number | null;
+  maxLevel: number | null;
+  damageType: number | null;
+  skillId: number | null;
+  diedFrom: string | null;
+  diedTo: string | null;
+  minKills: number | null;
+  minBosses: number | null;
+}
+
+export const EMPTY_FILTERS: GraveyardFilters = {
+  minLevel: null,
+  maxLevel: null,
+  damageType: null,
+  skillId: null,
+  diedFrom: null,
+  diedTo: null,
+  minKills: null,
+  minBosses: null,
+};
+
+export interface GraveyardQuery {
+  sort: GraveyardSort;
+  search: string;
+  filters: GraveyardFilters;
+}
+
+/** Position after the last row of a page: its sort value and id (the tie-breaker). */
+export interface GraveyardCursor {
+  value: string;
+  id: string;
+}
+
+export interface GraveyardPage {
+  deaths: DeathRecord[];
+  /** Null once the last page has been reached. */
+  nextCursor: GraveyardCursor | null;
+}
+
+export const GRAVEYARD_PAGE_SIZE = 24;
+
+/** Column each sort orders by, mirrored from `graveyard_page`. */
+const SORT_COLUMNS: Record<GraveyardSort, keyof DeathRecord> = {
+  latest: 'death_date',
+  respects: 'respects_paid',
+  kills: 'career_kills',
+  playtime_high: 'career_seconds',
+  playtime_low: 'career_seconds',
+};
+
+/** Start of the day after `date`, so the upper date bound includes the whole day. */
+function dayAfter(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString();
+}
+
+export async function fetchGraveyardPage(
+  query: GraveyardQuery,
+  cursor: GraveyardCursor | null
+): Promise<GraveyardPage> {
+  const { sort, search, filters } = query;
+  const { data, error } = await supabase.rpc('graveyard_page', {
+    p_sort: sort,
+    p_search: search.trim() || null,
+    p_cursor_value: cursor?.value ?? null,
+    p_cursor_id: cursor?.id ?? null,
+    p_limit: GRAVEYARD_PAGE_SIZE,
+    p_min_level: filters.minLevel,
+    p_max_level: filters.maxLevel,
+    p_damage_type: filters.damageType,
+    p_skill_id: filters.skillId,
+    p_died_after: filters.diedFrom ? `${filters.diedFrom}T00:00:00Z` : null,
+    p_died_before: filters.diedTo ? dayAfter(filters.diedTo) : null,
+    p_min_kills: filters.minKills,
+    p_min_bosses: filters.minBosses,
+  });
+  if (error) throw new Error(error.message);
+
+  const deaths = (data as DeathRecord[] | null) ?? [];
+  const last = deaths[deaths.length - 1];
+  const nextCursor = last && deaths.length === GRAVEYARD_PAGE_SIZE
+    ? { value: String(last[SORT_COLUMNS[sort]]), id: last.id }
+    : null;
+  return { deaths, nextCursor };
+}
+
+/**
+ * Whether a hero belongs in the Graveyard under `query`, mirroring the WHERE clause of `graveyard_page`.
+ * Used for heroes that arrive live, which never went through the RPC.
+ */
+export function matchesGraveyardQuery(death: DeathRecord, { search, filters }: GraveyardQuery, userId: string | null): boolean {
+  if (death.review_status !== 'approved' && death.user_id !== userId) return false;
+  const needle = search.trim().toLowerCase();
+  if (needle && !death.character_name.toLowerCase().includes(needle) && !death.mourned_by?.toLowerCase().includes(needle)) {
+    return false;
+  }
+  const diedAt = Date.parse(death.death_date);
+  return (
+    (filters.minLevel === null || death.level >= filters.minLevel) &&
+    (filters.maxLevel === null || death.level <= filters.maxLevel) &&
+    (filters.damageType === null || death.last_run_damage_type === filters.damageType) &&
+    (filters.skillId === null || (death.skill_ids ?? []).includes(filters.skillId)) &&
+    (filters.diedFrom === null || diedAt >= Date.parse(`${filters.diedFrom}T00:00:00Z`)) &&
+    (filters.diedTo === null || diedAt < Date.parse(dayAfter(filters.diedTo))) &&
+    (filters.minKills === null || (death.career_kills ?? 0) >= filters.minKills) &&
+    (filters.minBosses === null || (death.career_bosses ?? 0) >= filters.minBosses)
+  );
+}
+
+export function countActiveFilters(filters: GraveyardFilters): number {
+  return Object.values(filters).filter((value) => value !== null).length;
+}
+
+// -----------------------------------------------------------------------------
+// URL query string
+// -----------------------------------------------------------------------------
+
+/** Query string key of each filter. */
+const FILTER_PARAMS: Record<keyof GraveyardFilters, string> = {
+  minLevel: 'lvl_min',
+  maxLevel: 'lvl_max',
+  damageType: 'dmg',
+  skillId: 'skill',
+  diedFrom: 'from',
+  diedTo: 'to',
+  minKills: 'kills',
+  minBosses: 'bosses',
+};
+
+function readInt(params: URLSearchParams, key: string): number | null {
+  const raw = params.get(key);
+  if (raw === null || raw.trim() === '') return null;
+  const value = Number(raw);
+  return Number.isInteger(value) && value >= 0 ? value : null;
+}
+
+function readDate(params: URLSearchParams, key: string): string | null {
+  const raw = params.get(key);
+  return raw && /^\d{4}-\d{2}-\d{2}$/.test(raw) && !Number.isNaN(Date.parse(raw)) ? raw : null;
+}
+
+/** Reads a Graveyard query from a URL query string; unknown or malformed values fall back to defaults. */
+export function parseGraveyardQuery(queryString: string): GraveyardQuery {
+  const params = new URLSearchParams(queryString);
+  const sort = params.get('sort');
+  return {
+    sort: SORTS.includes(sort as GraveyardSort) ? (sort as GraveyardSort) : 'latest',
+    search: params.get('q') ?? '',
+    filters: {
+      minLevel: readInt(params, FILTER_PARAMS.minLevel),
+      maxLevel: readInt(params, FILTER_PARAMS.maxLevel),
+      damageType: readInt(params, FILTER_PARAMS.damageType),
+      skillId: readInt(params, FILTER_PARAMS.skillId),
+      diedFrom: readDate(params, FILTER_PARAMS.diedFrom),
+      diedTo: readDate(params, FILTER_PARAMS.diedTo),
+      minKills: readInt(params, FILTER_PARAMS.minKills),
+      minBosses: readInt(params, FILTER_PARAMS.minBosses),
+    },
+  };
+}
+
+/** Writes a Graveyard query as a URL query string, leaving defaults out so plain views keep a clean URL. */
+export function formatGraveyardQuery({ sort, search, filters }: GraveyardQuery): string {
+  const params = new URLSearchParams();
+  if (sort !== 'latest') params.set('sort', sort);
+  if (search.trim()) params.set('q', search.trim());
+  for (const [field, key] of Object.entries(FILTER_PARAMS) as Array<[keyof GraveyardFilters, string]>) {
+    const value = filters[field];
+    if (value !== null) params.set(key, String(value));
+  }
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
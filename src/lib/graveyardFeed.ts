@@ -0,0 +1,30 @@
+/**
+ * Utility: Live Graveyard updates over Supabase Realtime.
+ * Streams new burials (inserts on `deaths`) and changed rows, such as respect counts ticking up.
+ * Realtime applies the `deaths` select policy to every change, so the viewer only receives heroes they could fetch;
+ * the table must be in the `supabase_realtime` publication (supabase/schema.sql).
+ */
+
+import { supabase } from './supabase';
+import type { DeathRecord } from '../types';
+
+export interface GraveyardFeedHandlers {
+  onBurial: (death: DeathRecord) => void;
+  onChange: (death: DeathRecord) => void;
+}
+
+/** Subscribes to the live feed. Returns the unsubscribe function. */
+export function subscribeToGraveyard({ onBurial, onChange }: GraveyardFeedHandlers): () => void {
+  const channel = supabase
+    .channel('graveyard-deaths')
+    .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'deaths' }, (payload) => {
+      onBurial(payload.new as DeathRecord);
+    })
+    .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'deaths' }, (payload) => {
+      onChange(payload.new as DeathRecord);
+    })
+    .subscribe();
+  return () => {
+    void supabase.removeChannel(channel);
+  };
+}
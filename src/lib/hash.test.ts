@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { parseSaveFile } from '../saveFileParser.ts';
+import { buildRun, buildSave, saveText } from '../testing/playerSave.ts';
+import { generateDeathFingerprint, generateUniqueHash } from './hash.ts';
+
+async function fingerprintOf(text: string): Promise<string> {
+  const result = parseSaveFile(text);
+  if (!result.ok) throw new Error(result.issues.map((issue) => issue.message).join('\n'));
+  return generateDeathFingerprint(result.payload);
+}
+
+/** Rebuilds every object with its keys in reverse order, and reverses the stat lists too. */
+function reorder(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(reorder);
+  if (value === null || typeof value !== 'object') return value;
+  return Object.fromEntries(
+    Object.entries(value)
+      .reverse()
+      .map(([key, entry]) => [key, key === '_serializedList' ? (reorder(entry) as unknown[]).reverse() : reorder(entry)])
+  );
+}
+
+describe('generateDeathFingerprint', () => {
+  it('is the same however the save was re-serialized', async () => {
+    const save = buildSave();
+    const pretty = await fingerprintOf(saveText(save));
+
+    expect(await fingerprintOf(JSON.stringify(save))).toBe(pretty);
+    expect(await fingerprintOf(JSON.stringify(save, null, '\t').replace(/\n/g, '\r\n'))).toBe(pretty);
+    expect(await fingerprintOf(saveText(reorder(save)))).toBe(pretty);
+  });
+
+  it('changes when any run stat changes', async () => {
+    const original = await fingerprintOf(saveText());
+    const [first, second, last] = buildSave().pastRunsData;
+    const lastRun = buildRun({ level: 25, kills: 501, regularKills: 497, runTime: 1800, damageType: 2 });
+    const earlierRun = buildRun({ level: 10, gold: 1001, runTime: 900, damageType: null });
+    const edited = buildSave({ pastRunsData: [first, second, lastRun] });
+    const earlier = buildSave({ pastRunsData: [earlierRun, second, last] });
+
+    expect(await fingerprintOf(saveText(edited))).not.toBe(original);
+    expect(await fingerprintOf(saveText(earlier))).not.toBe(original);
+    expect(await fingerprintOf(saveText(buildSave({ gameplayTime: 7201 })))).not.toBe(original);
+  });
+});
+
+describe('generateUniqueHash', () => {
+  it('tells the same file apart per uploader', async () => {
+    const rawSnapshot = saveText();
+    const mine = await generateUniqueHash({ userId: 'user-1', rawSnapshot });
+
+    expect(await generateUniqueHash({ userId: 'user-1', rawSnapshot })).toBe(mine);
+    expect(await generateUniqueHash({ userId: 'user-2', rawSnapshot })).not.toBe(mine);
+    expect(mine).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
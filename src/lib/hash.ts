@@ -1,15 +1,58 @@
 /**
  * Utility: Client-side hash generation.
- * Generates a SHA-256 hash to uniquely identify a death submission (User ID + Raw JSON).
+ * Generates SHA-256 hashes identifying a death: per submission (User ID + Raw JSON),
+ * and per death regardless of who uploads it or how the file was re-saved (canonical fingerprint).
  */
-export async function generateUniqueHash(payload: {
-  userId: string;
-  rawSnapshot: string;
-}): Promise<string> {
-  const str = `${payload.userId}|${payload.rawSnapshot}`;
+
+import type { ExtractedDeathPayload } from '../types.ts';
+
+async function sha256Hex(str: string): Promise<string> {
   const encoder = new TextEncoder();
   const data = encoder.encode(str);
   const hashBuffer = await crypto.subtle.digest('SHA-256', data);
   const hashArray = Array.from(new Uint8Array(hashBuffer));
   return hashArray.map((b) => b.toString(16).padStart(2, '0')).join('');
 }
+
+export async function generateUniqueHash(payload: {
+  userId: string;
+  rawSnapshot: string;
+}): Promise<string> {
+  return sha256Hex(`${payload.userId}|${payload.rawSnapshot}`);
+}
+
+/** Bump when the fields below change, so old and new fingerprints never collide. */
+const FINGERPRINT_VERSION = 1;
+
+/**
+ * Canonical fingerprint of a death, built from the extracted (normalized) values only:
+ * gameplay time, the killing blow and the stats of every run. Whitespace, key order and
+ * the uploading account do not affect it, so the same death is recognized across all users.
+ * Names are excluded on purpose: renaming a hero does not make it a new death.
+ */
+export async function generateDeathFingerprint(payload: ExtractedDeathPayload): Promise<string> {
+  const canonical = [
+    FINGERPRINT_VERSION,
+    payload.careerSeconds,
+    payload.careerRuns,
+    payload.level,
+    // Killing blow
+    payload.damageTaken,
+    payload.lastRunDamageType,
+    // Last run
+    payload.lastRunKills,
+    payload.lastRunRegularKills,
+    payload.lastRunEliteKills,
+    payload.lastRunBossKills,
+    payload.lastRunSoulstones,
+    payload.lastRunGold,
+    payload.lastRunDamageDealt,
+    payload.lastRunDuration,
+    // Whole career, in run order
+    payload.runs.map((run) => [
+      run.runIndex, run.level, run.kills, run.regularKills, run.eliteKills, run.bossKills,
+      run.gold, run.soulstones, run.damageDealt, run.runTime, run.damageType,
+    ]),
+  ];
+  return sha256Hex(JSON.stringify(canonical));
+}
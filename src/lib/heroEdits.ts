@@ -0,0 +1,33 @@
+/**
+ * Utility: Owner edits to a buried hero.
+ * Clients cannot update `deaths` directly; renames and epitaphs go through the `edit-hero` Edge Function, which checks
+ * ownership and sanitizes server-side. The response carries the text that was actually engraved.
+ * Exhuming (deleting) is a plain delete: the `deaths_owner_delete` policy already limits it to the owner.
+ */
+
+import { invokeFunction } from './functions';
+import { supabase } from './supabase';
+
+export interface HeroEdit {
+  characterName: string;
+  /** Null or empty clears the epitaph. */
+  epitaph: string | null;
+}
+
+/** Applies an edit to one of the signed-in user's heroes and resolves with the stored values. Omitted fields stay as they are. */
+export async function editHero(id: string, edit: Partial<HeroEdit>): Promise<HeroEdit> {
+  const data = await invokeFunction<{ id: string } & HeroEdit>(
+    'edit-hero',
+    { id, ...edit },
+    'The stone could not be engraved. Please try again.'
+  );
+  return { characterName: data.characterName, epitaph: data.epitaph };
+}
+
+/** Deletes one of the signed-in user's heroes, with its run history and respects. */
+export async function exhumeHero(id: string): Promise<void> {
+  const { data, error } = await supabase.from('deaths').delete().eq('id', id).select('id');
+  if (error) throw new Error(error.message);
+  // RLS turns a delete of someone else's hero into a no-op rather than an error.
+  if (!data || data.length === 0) throw new Error('No hero of yours rests here.');
+}
@@ -0,0 +1,77 @@
+/**
+ * Utility: Link-preview text for a hero (Open Graph / Twitter card).
+ * Used by the hero page at runtime and by scripts/prerender-heroes.ts, which writes the tags into
+ * static pages so crawlers that do not run JavaScript (Discord, Twitter) still see the hero.
+ * Imports keep their `.ts` extension so Node can run the prerender script without a bundler.
+ */
+
+import type { DeathRecord } from '../types.ts';
+import { formatDuration, formatNumber } from './format.ts';
+
+export const SITE_TITLE = 'The Graveyard — Hell Clock';
+export const SITE_DESCRIPTION = 'A memorial for fallen Hell Clock Hardcore heroes. Upload your PlayerSave.json and lay your hero to rest.';
+
+export interface HeroMeta {
+  title: string;
+  description: string;
+}
+
+type HeroMetaSource = Pick<
+  DeathRecord,
+  'character_name' | 'level' | 'career_kills' | 'career_seconds' | 'respects_paid' | 'mourned_by' | 'epitaph'
+>;
+
+export function describeHero(death: HeroMetaSource): HeroMeta {
+  const mourner = death.mourned_by ? ` Mourned by ${death.mourned_by}.` : '';
+  const epitaph = death.epitaph ? `“${death.epitaph}” ` : '';
+  return {
+    title: `${death.character_name} — Level ${death.level} · ${SITE_TITLE}`,
+    description:
+      `${epitaph}Fell at level ${death.level} after ${formatDuration(death.career_seconds)} and ${formatNumber(death.career_kills)} kills. ` +
+      `${death.respects_paid} respects paid.${mourner}`,
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** Preview image of a page, e.g. the tombstone PNG written by scripts/prerender-heroes.ts. */
+export interface MetaImage {
+  url: string;
+  width: number;
+  height: number;
+  alt: string;
+}
+
+/** The description, Open Graph and Twitter tags for a page, as HTML. With an image, Twitter shows a large card. */
+export function renderMetaTags(meta: HeroMeta, url: string, image?: MetaImage): string {
+  const tags: Array<[attribute: 'property' | 'name', key: string, value: string]> = [
+    ['name', 'description', meta.description],
+    ['property', 'og:type', 'website'],
+    ['property', 'og:site_name', 'The Graveyard'],
+    ['property', 'og:title', meta.title],
+    ['property', 'og:description', meta.description],
+    ['property', 'og:url', url],
+    ['name', 'twitter:card', image ? 'summary_large_image' : 'summary'],
+    ['name', 'twitter:title', meta.title],
+    ['name', 'twitter:description', meta.description],
+  ];
+  if (image) {
+    tags.push(
+      ['property', 'og:image', image.url],
+      ['property', 'og:image:width', String(image.width)],
+      ['property', 'og:image:height', String(image.height)],
+      ['property', 'og:image:alt', image.alt],
+      ['name', 'twitter:image', image.url],
+      ['name', 'twitter:image:alt', image.alt],
+    );
+  }
+  return tags
+    .map(([attribute, key, value]) => `<meta ${attribute}="${key}" content="${escapeHtml(value)}" />`)
+    .join('\n    ');
+}
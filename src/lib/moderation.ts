@@ -0,0 +1,81 @@
+/**
+ * Utility: Reporting heroes and working the moderation queue.
+ * Reports go through the `report_death` RPC (one per user per death), which hides a hero once enough users report it.
+ * Hidden heroes join the plausibility-held ones in the queue, where moderators (listed in `moderators`) restore or remove them.
+ */
+
+import { supabase } from './supabase';
+import type { DeathRecord } from '../types';
+import type { Database } from '../types/supabase';
+
+export type ReportReason = Database['public']['Tables']['death_reports']['Row']['reason'];
+export type ModerationAction = 'restore' | 'remove';
+
+export const REPORT_REASONS: Array<{ id: ReportReason; label: string; description: string }> = [
+  { id: 'offensive_name', label: 'Offensive name', description: 'The name or epitaph is abusive or slips past the filter.' },
+  { id: 'fake_save', label: 'Fake save', description: 'The stats look edited or impossible.' },
+  { id: 'duplicate', label: 'Duplicate', description: 'The same death was buried more than once.' },
+];
+
+/** A held hero with its reports counted per reason. */
+export interface ModerationItem {
+  death: DeathRecord;
+  reports: Partial<Record<ReportReason, number>>;
+}
+
+/** Files the signed-in user's report. Resolves true when the hero is now hidden pending review. */
+export async function reportDeath(deathId: string, reason: ReportReason): Promise<boolean> {
+  const { data, error } = await supabase.rpc('report_death', { p_death_id: deathId, p_reason: reason });
+  if (error) throw new Error(error.message);
+  return data as boolean;
+}
+
+/** The reason the signed-in user reported a hero for, or null when they have not. */
+export async function fetchOwnReport(deathId: string, userId: string): Promise<ReportReason | null> {
+  const { data } = await supabase
+    .from('death_reports')
+    .select('reason')
+    .eq('death_id', deathId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  return (data?.reason as ReportReason | undefined) ?? null;
+}
+
+export async function fetchIsModerator(userId: string): Promise<boolean> {
+  const { data } = await supabase.from('moderators').select('user_id').eq('user_id', userId).maybeSingle();
+  return data != null;
+}
+
+/**
+ * Every hero awaiting a verdict, oldest first: held by the plausibility engine or hidden by reports.
+ * Only moderators get rows back (RLS); everyone else sees just their own held heroes.
+ */
+export async function fetchModerationQueue(): Promise<ModerationItem[]> {
+  const { data: deaths, error } = await supabase
+    .from('deaths')
+    .select('*')
+    .eq('review_status', 'pending')
+    .order('death_date', { ascending: true });
+  if (error) throw new Error(error.message);
+  if (!deaths || deaths.length === 0) return [];
+
+  const { data: reports, error: reportsError } = await supabase
+    .from('death_reports')
+    .select('death_id, reason')
+    .in('death_id', deaths.map((death) => death.id));
+  if (reportsError) throw new Error(reportsError.message);
+
+  const counts = new Map<string, Partial<Record<ReportReason, number>>>();
+  for (const report of (reports ?? []) as Array<{ death_id: string; reason: ReportReason }>) {
+    const perReason = counts.get(report.death_id) ?? {};
+    perReason[report.reason] = (perReason[report.reason] ?? 0) + 1;
+    counts.set(report.death_id, perReason);
+  }
+
+  return (deaths as DeathRecord[]).map((death) => ({ death, reports: counts.get(death.id) ?? {} }));
+}
+
+export async function moderateDeath(deathId: string, action: ModerationAction): Promise<void> {
+  const { error } = await supabase.rpc('moderate_death', { p_death_id: deathId, p_action: action });
+  if (error) throw new Error(error.message);
+}
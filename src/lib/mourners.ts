@@ -0,0 +1,57 @@
+/**
+ * Utility: Mourner profiles (`/mourner/:id`): who a user is and the heroes they buried.
+ * Profiles mirror the Discord metadata on auth.users (`sync_profile` in supabase/schema.sql); the aggregates come
+ * from the `mourner_stats` RPC so the page never adds up heroes it did not download.
+ */
+
+import { supabase } from './supabase';
+import type { DeathRecord, ProfileRecord } from '../types';
+
+export interface MournerStats {
+  totalDeaths: number;
+  /** Null when the mourner has no visible heroes. */
+  averageLevel: number | null;
+  totalRespects: number;
+  /** The damage type that killed the most of their heroes (saves without one count as Physical); null when they have none. */
+  deadliestDamageType: number | null;
+  /** Most equipped skills across their heroes, most used first (up to three). */
+  favoriteSkills: number[];
+}
+
+export async function fetchProfile(userId: string): Promise<ProfileRecord | null> {
+  const { data, error } = await supabase.from('profiles').select('*').eq('id', userId).maybeSingle();
+  if (error) throw new Error(error.message);
+  return data as ProfileRecord | null;
+}
+
+export async function fetchMournerStats(userId: string): Promise<MournerStats> {
+  const { data, error } = await supabase.rpc('mourner_stats', { p_user_id: userId }).single();
+  if (error) throw new Error(error.message);
+  const row = data as {
+    total_deaths: number;
+    average_level: number | string | null;
+    total_respects: number;
+    deadliest_damage_type: number | null;
+    favorite_skills: number[] | null;
+  };
+  return {
+    totalDeaths: row.total_deaths,
+    // numeric arrives as a string from PostgREST.
+    averageLevel: row.average_level === null ? null : Number(row.average_level),
+    totalRespects: row.total_respects,
+    deadliestDamageType: row.deadliest_damage_type,
+    favoriteSkills: row.favorite_skills ?? [],
+  };
+}
+
+/**
+ * The user's heroes as the Graveyard lists them, newest first: approved ones, plus held ones on the viewer's own page.
+ * (RLS alone would also hand moderators every held hero.)
+ */
+export async function fetchMournerDeaths(userId: string, viewerId: string | null): Promise<DeathRecord[]> {
+  let query = supabase.from('deaths').select('*').eq('user_id', userId);
+  if (viewerId !== userId) query = query.eq('review_status', 'approved');
+  const { data, error } = await query.order('death_date', { ascending: false });
+  if (error) throw new Error(error.message);
+  return (data as DeathRecord[]) ?? [];
+}
@@ -0,0 +1,47 @@
+/**
+ * Utility: Paying respects (the candle) and the list of who paid them.
+ * Both directions go through RPCs that update `death_respects` and `deaths.respects_paid` in one transaction
+ * and return the new count, so the card can show the server's number instead of guessing.
+ */
+
+import { supabase } from './supabase';
+import type { DeathRespectRecord } from '../types';
+
+/** Longest respect list shown on a hero page. */
+export const MOURNER_LIST_LIMIT = 100;
+
+/** Lights the signed-in user's candle. Paying twice is harmless. Resolves with the new respect count. */
+export async function payRespects(deathId: string): Promise<number> {
+  const { data, error } = await supabase.rpc('pay_respects', { row_id: deathId });
+  if (error) throw new Error(error.message);
+  return data as number;
+}
+
+/** Snuffs the signed-in user's candle. Resolves with the new respect count. */
+export async function takeBackRespects(deathId: string): Promise<number> {
+  const { data, error } = await supabase.rpc('take_back_respects', { row_id: deathId });
+  if (error) throw new Error(error.message);
+  return data as number;
+}
+
+export async function fetchHasPaidRespects(deathId: string, userId: string): Promise<boolean> {
+  const { data } = await supabase
+    .from('death_respects')
+    .select('id')
+    .eq('death_id', deathId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  return data != null;
+}
+
+/** Who paid respects to a hero, most recent first. */
+export async function fetchMourners(deathId: string): Promise<DeathRespectRecord[]> {
+  const { data, error } = await supabase
+    .from('death_respects')
+    .select('*')
+    .eq('death_id', deathId)
+    .order('created_at', { ascending: false })
+    .limit(MOURNER_LIST_LIMIT);
+  if (error) throw new Error(error.message);
+  return (data as DeathRespectRecord[]) ?? [];
+}
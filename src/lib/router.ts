@@ -0,0 +1,60 @@
+/**
+ * Utility: Minimal client-side routing under the Vite base path (GitHub Pages project site).
+ * Deep links that GitHub Pages cannot resolve land on public/404.html, which hands the path
+ * back to index.html as `?redirect=`; index.html restores it before the app boots.
+ */
+
+import { useMemo, useSyncExternalStore } from 'react';
+
+export type Route =
+  | { page: 'graveyard' }
+  | { page: 'hero'; id: string }
+  | { page: 'mourner'; id: string };
+
+/** Always ends with a slash, e.g. `/Hellclock-Graveyard/`. */
+const BASE = import.meta.env.BASE_URL;
+
+export function parseRoute(pathname: string): Route {
+  const path = pathname.startsWith(BASE) ? pathname.slice(BASE.length) : pathname.replace(/^\//, '');
+  const hero = /^hero\/([^/]+)\/?$/.exec(path);
+  if (hero) return { page: 'hero', id: decodeURIComponent(hero[1]) };
+  const mourner = /^mourner\/([^/]+)\/?$/.exec(path);
+  if (mourner) return { page: 'mourner', id: decodeURIComponent(mourner[1]) };
+  return { page: 'graveyard' };
+}
+
+export function heroPath(id: string): string {
+  return `${BASE}hero/${encodeURIComponent(id)}`;
+}
+
+/** Absolute permalink of a hero, for sharing outside the app. */
+export function heroUrl(id: string): string {
+  return new URL(heroPath(id), window.location.origin).href;
+}
+
+/** Profile page of the user who buried a hero (their auth user id). */
+export function mournerPath(userId: string): string {
+  return `${BASE}mourner/${encodeURIComponent(userId)}`;
+}
+
+export function graveyardPath(): string {
+  return BASE;
+}
+
+/** Pushes a new history entry and notifies `useRoute` subscribers. */
+export function navigate(path: string): void {
+  if (path === window.location.pathname + window.location.search) return;
+  window.history.pushState(null, '', path);
+  window.dispatchEvent(new PopStateEvent('popstate'));
+}
+
+function subscribe(onChange: () => void): () => void {
+  window.addEventListener('popstate', onChange);
+  return () => window.removeEventListener('popstate', onChange);
+}
+
+/** Current route, re-rendering on navigation and back/forward. */
+export function useRoute(): Route {
+  const pathname = useSyncExternalStore(subscribe, () => window.location.pathname);
+  return useMemo(() => parseRoute(pathname), [pathname]);
+}
@@ -0,0 +1,41 @@
+/**
+ * Utility: User-authored text sanitization.
+ * Shared by the forms (preview) and the `bury-hero` / `edit-hero` / `post-condolence` Edge Functions (authoritative).
+ */
+import { Filter } from 'bad-words';
+
+const filter = new Filter();
+
+export const MAX_NAME_LENGTH = 20;
+
+/** Sanitizes input name: trims, restricts to ASCII (A-Z, 0-9, symbols), and filters profanity. */
+export function sanitizeCharacterName(input: string): string {
+  // Remove any character that is NOT: a-z, A-Z, 0-9, space, hyphen, underscore, or apostrophe.
+  // This effectively blocks Cyrillic, Nordic/Accent characters, and Emojis.
+  const asciiOnly = input.replace(/[^a-zA-Z0-9\s\-_']/g, '');
+  const trimmed = asciiOnly.trim().slice(0, MAX_NAME_LENGTH);
+  return filter.clean(trimmed) || 'Fallen Hero';
+}
+
+export const MAX_EPITAPH_LENGTH = 80;
+export const MAX_CONDOLENCE_LENGTH = 200;
+
+/**
+ * Same ASCII-only rule and profanity filter as names, plus sentence punctuation.
+ * Collapses whitespace onto one line. Returns null when nothing is left.
+ */
+function sanitizeSentence(input: string, maxLength: number): string | null {
+  const asciiOnly = input.replace(/[^a-zA-Z0-9\s\-_'".,!?:;()]/g, '');
+  const trimmed = asciiOnly.replace(/\s+/g, ' ').trim().slice(0, maxLength).trim();
+  return trimmed ? filter.clean(trimmed) : null;
+}
+
+/** Sanitizes an epitaph, engraved on one or two lines of the stone. Returns null when nothing is left. */
+export function sanitizeEpitaph(input: string): string | null {
+  return sanitizeSentence(input, MAX_EPITAPH_LENGTH);
+}
+
+/** Sanitizes a condolence message left under a hero. Returns null when nothing is left. */
+export function sanitizeCondolence(input: string): string | null {
+  return sanitizeSentence(input, MAX_CONDOLENCE_LENGTH);
+}
@@ -0,0 +1,80 @@
+/**
+ * Utility: Runs a batch of save files through the parsing Web Worker.
+ * Each call gets its own worker, terminated when the batch finishes or is aborted, so cancelling
+ * stops even a save that is halfway through `JSON.parse`.
+ */
+
+import type { SaveFileSource } from './files';
+import type { ParsedSave, ParseRequest, ParseResponse, ParseStage } from '../saveParser.worker';
+
+export type { ParsedSave, ParseStage };
+
+export interface ParseProgress {
+  /** Files fully processed so far. */
+  completed: number;
+  total: number;
+  /** File currently being processed, and what is being done to it. */
+  path: string;
+  stage: ParseStage;
+}
+
+interface ParseOptions {
+  onProgress?: (progress: ParseProgress) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Validates, extracts and fingerprints every source off the main thread. Results keep the order of `sources`.
+ * Rejects with an `AbortError` DOMException when `signal` aborts.
+ */
+export function parseSavesInWorker(
+  sources: SaveFileSource[],
+  { onProgress, signal }: ParseOptions = {}
+): Promise<ParsedSave[]> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Parsing was cancelled.', 'AbortError'));
+      return;
+    }
+
+    const worker = new Worker(new URL('../saveParser.worker.ts', import.meta.url), { type: 'module' });
+    const parsed: ParsedSave[] = [];
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(new DOMException('Parsing was cancelled.', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    worker.addEventListener('message', (event: MessageEvent<ParseResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress?.({ completed: message.completed, total: message.total, path: message.path, stage: message.stage });
+          break;
+        case 'parsed':
+          parsed.push(message.save);
+          break;
+        case 'done':
+          finish();
+          resolve(parsed);
+          break;
+        case 'failed':
+          finish();
+          reject(new Error(message.message));
+          break;
+      }
+    });
+    worker.addEventListener('error', (event) => {
+      finish();
+      reject(new Error(event.message || 'The save parser stopped unexpectedly.'));
+    });
+
+    const request: ParseRequest = { files: sources.map(({ path, file }) => ({ path, file })) };
+    worker.postMessage(request);
+  });
+}
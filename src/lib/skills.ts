@@ -0,0 +1,36 @@
+/**
+ * Utility: Skill lookups from the Skills.json game data.
+ */
+import skillsData from '../assets/Skills.json';
+
+/** 
+ * Pre-compute skill icon paths from JSON resource.
+ * Optimization: Loading imports eagerly avoids async flickering during render.
+ */
+const skillIconMap = new Map<number, string>();
+skillsData.Skills.forEach((skill) => {
+  skillIconMap.set(skill.id, skill.icon);
+});
+
+const iconImages = import.meta.glob('../assets/icons/*.png', { eager: true, as: 'url' });
+
+export function getSkillIconSrc(skillId: number): string | undefined {
+  const iconName = skillIconMap.get(skillId);
+  return iconName ? iconImages[`../assets/icons/${iconName}.png`] : undefined;
+}
+
+/** English display name of a skill, falling back to its internal definition name. */
+function skillDisplayName(skill: (typeof skillsData.Skills)[number]): string {
+  return skill.localizedName.find((entry) => entry.langCode === 'en')?.langTranslation ?? skill.name;
+}
+
+const skillNameMap = new Map(skillsData.Skills.map((skill) => [skill.id, skillDisplayName(skill)]));
+
+export function getSkillName(skillId: number): string {
+  return skillNameMap.get(skillId) ?? `Skill ${skillId}`;
+}
+
+/** Every skill from Skills.json by display name, for pickers. */
+export const SKILL_OPTIONS: Array<{ id: number; name: string }> = skillsData.Skills
+  .map((skill) => ({ id: skill.id, name: skillDisplayName(skill) }))
+  .sort((a, b) => a.name.localeCompare(b.name));
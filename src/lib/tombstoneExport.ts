@@ -0,0 +1,228 @@
+/**
+ * Utility: Exports a tombstone as an image file in the browser, copies it to the clipboard or hands it to the native share sheet.
+ * The card is drawn by `renderTombstoneSvg` from the death record, not captured from the page, so the result
+ * does not depend on whether (or how far) the on-screen card is expanded. PNG and WebP are rasterized on a canvas.
+ * Icons and the Cinzel/Inter web fonts are inlined as data URIs: an SVG drawn as an image cannot fetch anything.
+ */
+
+import defaultClassIcon from '../assets/icons/default_icon.png';
+import { getSkillIconSrc } from './skills';
+import { supabase } from './supabase';
+import {
+  renderTombstoneSvg,
+  type TombstoneImageAssets,
+  type TombstoneImageOptions,
+  type TombstoneImageRun,
+  type TombstoneImageSource,
+} from './tombstoneSvg';
+
+export type TombstoneExportFormat = 'png' | 'webp' | 'svg';
+
+export interface TombstoneExportOptions extends TombstoneImageOptions {
+  format: TombstoneExportFormat;
+}
+
+const MIME_TYPES: Record<TombstoneExportFormat, string> = {
+  png: 'image/png',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+};
+
+/** Raster exports are drawn at twice the card size, like the old DOM capture's `pixelRatio: 2`. */
+const RASTER_SCALE = 2;
+
+const GOOGLE_FONTS_CSS = 'https://fonts.googleapis.com/css2?family=Cinzel:wght@700&family=Inter:wght@400;500;600';
+
+function blobToDataUri(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function fetchDataUri(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Could not load ${url}.`);
+  return blobToDataUri(await response.blob());
+}
+
+/**
+ * `@font-face` rules for the card fonts with the font files inlined. Google Fonts subsets them to `characters`,
+ * which keeps the SVG small. Returns undefined when offline; the card then falls back to installed fonts.
+ */
+async function loadFontCss(characters: string): Promise<string | undefined> {
+  try {
+    const response = await fetch(`${GOOGLE_FONTS_CSS}&text=${encodeURIComponent(characters)}`);
+    if (!response.ok) return undefined;
+    let css = await response.text();
+    const urls = [...new Set(Array.from(css.matchAll(/url\((https:[^)]+)\)/g), (match) => match[1]))];
+    for (const url of urls) {
+      css = css.split(url).join(await fetchDataUri(url));
+    }
+    return css;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Only the full classic card draws the career timeline, so only it needs the run history. */
+async function loadRuns(deathId: string, { template = 'classic', frame = 'card' }: TombstoneImageOptions): Promise<TombstoneImageRun[] | undefined> {
+  if (template !== 'classic' || frame !== 'card') return undefined;
+  const { data, error } = await supabase
+    .from('death_runs')
+    .select('run_index, level, kills, run_time')
+    .eq('death_id', deathId)
+    .order('run_index', { ascending: true });
+  if (error) throw new Error(error.message);
+  return (data as TombstoneImageRun[]) ?? [];
+}
+
+async function loadAssets(death: TombstoneImageSource, options: TombstoneImageOptions): Promise<TombstoneImageAssets> {
+  const skillIcons = new Map<number, string>();
+  for (const skillId of death.skill_ids ?? []) {
+    const src = getSkillIconSrc(skillId);
+    if (src && !skillIcons.has(skillId)) skillIcons.set(skillId, await fetchDataUri(src));
+  }
+  return { classIcon: await fetchDataUri(defaultClassIcon), skillIcons, runs: await loadRuns(death.id, options) };
+}
+
+/** The tombstone as a self-contained SVG document (icons, run history and fonts inlined). */
+export async function buildTombstoneSvg(death: TombstoneImageSource, options: TombstoneImageOptions): Promise<string> {
+  const assets = await loadAssets(death, options);
+  // Render once to learn which characters the fonts must cover.
+  const characters = [...new Set(renderTombstoneSvg(death, assets, options).replace(/<[^>]*>/g, ''))].join('');
+  return renderTombstoneSvg(death, { ...assets, fontCss: await loadFontCss(characters) }, options);
+}
+
+function rasterize(svg: string, type: string): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: MIME_TYPES.svg }));
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement('canvas');
+      canvas.width = image.naturalWidth * RASTER_SCALE;
+      canvas.height = image.naturalHeight * RASTER_SCALE;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Could not draw the tombstone.'));
+        return;
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob((blob) => {
+        // Browsers that cannot encode a type (e.g. WebP in older Safari) silently hand back a PNG instead.
+        if (!blob || blob.type !== type) reject(new Error(`This browser cannot save ${type.replace('image/', '').toUpperCase()} images.`));
+        else resolve(blob);
+      }, type);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not draw the tombstone.'));
+    };
+    image.src = url;
+  });
+}
+
+export async function exportTombstone(death: TombstoneImageSource, { format, ...options }: TombstoneExportOptions): Promise<Blob> {
+  const svg = await buildTombstoneSvg(death, options);
+  if (format === 'svg') return new Blob([svg], { type: MIME_TYPES.svg });
+  return rasterize(svg, MIME_TYPES[format]);
+}
+
+export function tombstoneFileName(characterName: string, { format, frame = 'card', template = 'classic' }: TombstoneExportOptions): string {
+  const parts = [characterName.replace(/[^a-z0-9]/gi, '_'), 'tombstone'];
+  if (template !== 'classic') parts.push(template);
+  if (frame !== 'card') parts.push(frame);
+  return `${parts.join('-')}.${format}`;
+}
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// -----------------------------------------------------------------------------
+// Clipboard and Web Share
+// -----------------------------------------------------------------------------
+
+/** What actually happened, so the dialog can say so: browsers without image support fall back to the link or a download. */
+export type TombstoneShareOutcome = 'copied-image' | 'copied-link' | 'shared' | 'shared-link' | 'downloaded' | 'cancelled';
+
+function canCopyImages(): boolean {
+  return typeof ClipboardItem !== 'undefined' && typeof navigator.clipboard?.write === 'function';
+}
+
+async function copyLinkOrDownload(blob: Promise<Blob>, fileName: string, url: string): Promise<TombstoneShareOutcome> {
+  // The image is only awaited for the download; a failed render must not surface as an unhandled rejection when the link is copied.
+  blob.catch(() => undefined);
+  if (typeof navigator.clipboard?.writeText === 'function') {
+    try {
+      await navigator.clipboard.writeText(url);
+      return 'copied-link';
+    } catch {
+      // Clipboard blocked (permissions, insecure context): fall through to the download.
+    }
+  }
+  downloadBlob(await blob, fileName);
+  return 'downloaded';
+}
+
+/**
+ * Copies the tombstone to the clipboard as a PNG (the only image type browsers reliably accept there), whatever format is selected.
+ * Must be called straight from the click handler: Safari only allows the write while the user gesture is active,
+ * which is why the image is handed over as a promise instead of being awaited first.
+ */
+export async function copyTombstoneImage(
+  death: TombstoneImageSource,
+  options: TombstoneExportOptions,
+  url: string
+): Promise<TombstoneShareOutcome> {
+  const png = exportTombstone(death, { ...options, format: 'png' });
+  if (canCopyImages()) {
+    try {
+      await navigator.clipboard.write([new ClipboardItem({ [MIME_TYPES.png]: png })]);
+      return 'copied-image';
+    } catch {
+      // Image writes can be refused even where the API exists (e.g. Firefox without the pref).
+    }
+  }
+  return copyLinkOrDownload(png, tombstoneFileName(death.character_name, { ...options, format: 'png' }), url);
+}
+
+/**
+ * Opens the native share sheet with the image and the hero's permalink, or just the link where files cannot be shared.
+ * Browsers only open the sheet while the click's user gesture is active, so pass the image already exported for these
+ * options as `prepared`. Without it the image is drawn first, and when the browser then refuses the late call
+ * (NotAllowedError) the link is copied or the image downloaded instead.
+ */
+export async function shareTombstone(
+  death: TombstoneImageSource,
+  options: TombstoneExportOptions,
+  url: string,
+  prepared?: Blob
+): Promise<TombstoneShareOutcome> {
+  const exported = prepared ? Promise.resolve(prepared) : exportTombstone(death, options);
+  const fileName = tombstoneFileName(death.character_name, options);
+  const title = `${death.character_name} — The Graveyard`;
+  if (typeof navigator.share !== 'function') return copyLinkOrDownload(exported, fileName, url);
+
+  try {
+    const file = new File([prepared ?? (await exported)], fileName, { type: MIME_TYPES[options.format] });
+    if (navigator.canShare?.({ files: [file] })) {
+      await navigator.share({ files: [file], title, url });
+      return 'shared';
+    }
+    await navigator.share({ title, url });
+    return 'shared-link';
+  } catch (err: unknown) {
+    if (err instanceof DOMException && err.name === 'AbortError') return 'cancelled';
+    if (err instanceof DOMException && err.name === 'NotAllowedError') return copyLinkOrDownload(exported, fileName, url);
+    throw err;
+  }
+}
@@ -0,0 +1,448 @@
+/**
+ * Utility: The tombstone card as a standalone SVG document, built from the death record alone (no DOM, no browser).
+ * Used by the export dialog in the app and by scripts/tombstone-image.ts, which rasterizes it for link previews.
+ * Images (class and skill icons) and web fonts are passed in as data, so this module stays free of I/O.
+ * Imports keep their `.ts` extension so Node can run the scripts that use it without a bundler.
+ */
+
+import { Filter } from 'bad-words';
+import type { DeathRecord, DeathRunRecord } from '../types.ts';
+import { formatDuration, formatNumber } from './format.ts';
+import { getDamageTypeLabel } from './damageTypes.ts';
+
+export type TombstoneImageSource = Pick<
+  DeathRecord,
+  | 'character_name'
+  | 'level'
+  | 'death_date'
+  | 'damage_taken'
+  | 'career_seconds'
+  | 'career_runs'
+  | 'career_kills'
+  | 'career_elite_kills'
+  | 'career_bosses'
+  | 'career_gold'
+  | 'career_soulstones'
+  | 'last_run_damage_type'
+  | 'last_run_damage_dealt'
+  | 'last_run_kills'
+  | 'last_run_elite_kills'
+  | 'last_run_boss_kills'
+  | 'last_run_duration'
+  | 'respects_paid'
+  | 'skill_ids'
+  | 'mourned_by'
+  | 'id'
+  | 'epitaph'
+>;
+
+/** The parts of a `death_runs` row the career timeline draws. */
+export type TombstoneImageRun = Pick<DeathRunRecord, 'run_index' | 'level' | 'kills' | 'run_time'>;
+
+export interface TombstoneImageAssets {
+  classIcon?: string;
+  skillIcons?: ReadonlyMap<number, string>;
+  /** The hero's past runs, for the career timeline of the full classic card. Without them the timeline is left out. */
+  runs?: readonly TombstoneImageRun[];
+  /** `@font-face` rules (with inlined font files) for Cinzel and Inter; without them the nearest installed fonts are used. */
+  fontCss?: string;
+}
+
+/** `classic` is the in-app card; `minimal` keeps name, level and date; `epitaph` puts the inscription first. */
+export type TombstoneTemplate = 'classic' | 'minimal' | 'epitaph';
+
+/**
+ * `card`: the full card, with the career totals and timeline the expanded card shows.
+ * `square`: the card face centred on a square, for social posts.
+ * `preview`: the card face centred on a 1200×630 backdrop, the size Open Graph and Twitter cards expect.
+ */
+export type TombstoneImageFrame = 'card' | 'square' | 'preview';
+
+export interface TombstoneImageOptions {
+  template?: TombstoneTemplate;
+  frame?: TombstoneImageFrame;
+  /** Leaves everything around the stone see-through. */
+  transparent?: boolean;
+}
+
+export const TOMBSTONE_PREVIEW_SIZE = { width: 1200, height: 630 };
+
+const CARD_WIDTH = 300;
+const FACE_HEIGHT = 520;
+/** Room around the card for the plinth, which sticks out 12px on each side. */
+const CARD_MARGIN = 24;
+const SQUARE_SIZE = 600;
+
+/** Geometry of the career timeline, as in CareerTimeline.tsx. */
+const TIMELINE_WIDTH = 240;
+const TIMELINE_ROW_HEIGHT = 28;
+const TIMELINE_ROW_GAP = 14;
+
+/** Tailwind colours used by the Tombstone component. */
+const COLORS = {
+  stone950: '#0c0a09',
+  stone900: '#1c1917',
+  stone800: '#292524',
+  stone700: '#44403c',
+  stone600: '#57534e',
+  stone500: '#78716c',
+  stone400: '#a8a29e',
+  stone300: '#d6d3d1',
+  stone200: '#e7e5e4',
+  stone100: '#f5f5f4',
+  red700: '#b91c1c',
+  orange600: '#ea580c',
+  amber600: '#d97706',
+  amber500: '#f59e0b',
+  rose500: '#f43f5e',
+  fuchsia500: '#d946ef',
+  emerald600: '#059669',
+};
+
+// Unquoted on purpose: resvg drops quoted names after the first entry of a font list.
+const SERIF = 'Cinzel, Georgia, DejaVu Serif, serif';
+const SANS = 'Inter, Helvetica Neue, Arial, DejaVu Sans, sans-serif';
+const INSCRIPTION = 'Georgia, DejaVu Serif, serif';
+
+const profanity = new Filter();
+
+/** Same palette as `getDamageColor` in Tombstone.tsx. */
+function damageColor(typeId: number | null | undefined): string {
+  switch (typeId) {
+    case 1: return '#f97316'; // Fire
+    case 2: return '#10b981'; // Plague
+    case 3: return '#22d3ee'; // Lightning
+    case 0:
+    default: return '#ef4444'; // Physical
+  }
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/** There is no text measuring without a browser, so long names are cut by length (the card ellipsizes them). */
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+}
+
+/** Greedy word wrap by character count; the last line gets an ellipsis when text is left over. */
+function wrap(text: string, maxChars: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && line.length + 1 + word.length > maxChars) {
+      lines.push(line);
+      line = '';
+    }
+    line = line ? `${line} ${word}` : truncate(word, maxChars);
+  }
+  if (line) lines.push(line);
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  kept[maxLines - 1] = truncate(`${kept[maxLines - 1]} …`, maxChars);
+  return kept;
+}
+
+/** Dates are written out the same way everywhere, whatever the machine's locale or time zone. */
+function formatDeathDate(date: string): string {
+  return new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
+}
+
+/** The owner's epitaph, or an account of the death for heroes without one. */
+function inscription(death: TombstoneImageSource): string {
+  if (death.epitaph) return death.epitaph;
+  const damage = death.damage_taken != null ? Math.round(Number(death.damage_taken)) : 0;
+  return `Slain by ${formatNumber(damage)} ${getDamageTypeLabel(death.last_run_damage_type)} damage at level ${death.level}, ` +
+    `after ${formatNumber(death.career_kills)} kills and ${formatDuration(death.career_seconds)} in the Clock.`;
+}
+
+function text(x: number, y: number, attributes: string, content: string): string {
+  return `<text x="${x}" y="${y}" text-anchor="middle" ${attributes}>${content}</text>`;
+}
+
+/** Arched top (the card's `rounded-t-[10rem]`) over a flat bottom, inset by `inset` px. */
+function archPath(height: number, inset: number): string {
+  const left = inset;
+  const right = CARD_WIDTH - inset;
+  const radius = (right - left) / 2;
+  const top = inset + radius;
+  const bottom = height - inset;
+  return `M${left},${top} A${radius},${radius} 0 0 1 ${right},${top} V${bottom - 4} Q${right},${bottom} ${right - 4},${bottom} H${left + 4} Q${left},${bottom} ${left},${bottom - 4} Z`;
+}
+
+/** Plinth, textured stone and engraved inner border of a card `height` px tall. */
+function renderStone(height: number): string {
+  const plinthY = height - 24;
+  return [
+    `<rect x="-12" y="${plinthY}" width="${CARD_WIDTH + 24}" height="24" rx="2" fill="${COLORS.stone950}" stroke="${COLORS.stone800}" stroke-width="2"/>`,
+    `<rect x="-12" y="${plinthY}" width="${CARD_WIDTH + 24}" height="24" rx="2" filter="url(#noise)" opacity="0.15"/>`,
+    `<path d="${archPath(height, 0)}" fill="url(#stone)" stroke="${COLORS.stone800}" stroke-width="2"/>`,
+    `<clipPath id="card-clip"><path d="${archPath(height, 0)}"/></clipPath>`,
+    `<rect width="${CARD_WIDTH}" height="${height}" filter="url(#noise)" clip-path="url(#card-clip)" opacity="0.15"/>`,
+    `<path d="${archPath(height, 12)}" fill="none" stroke="${COLORS.stone800}" stroke-opacity="0.6" stroke-width="2"/>`,
+  ].join('');
+}
+
+/** lucide `Skull` on its 24px grid, scaled to `size` px with its top-left corner at (x, y). */
+function renderSkull(x: number, y: number, size: number): string {
+  return `<g transform="translate(${x} ${y}) scale(${size / 24})" fill="none" stroke="#ef4444" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">` +
+    `<path d="m12.5 17-.5-1-.5 1h1z"/>` +
+    `<path d="M15 22a1 1 0 0 0 1-1v-1a2 2 0 0 0 1.56-3.25 8 8 0 1 0-11.12 0A2 2 0 0 0 8 20v1a1 1 0 0 0 1 1z"/>` +
+    `<circle cx="15" cy="12" r="1"/><circle cx="9" cy="12" r="1"/>` +
+    `</g>`;
+}
+
+function renderSkills(skillIds: number[], skillIcons: ReadonlyMap<number, string> | undefined): string {
+  if (skillIds.length === 0) {
+    return text(150, 438, `font-family="${SANS}" font-size="10" font-style="italic" fill="${COLORS.stone600}"`, 'No skills equipped');
+  }
+  const size = 40;
+  const gap = 8;
+  const startX = (CARD_WIDTH - (skillIds.length * size + (skillIds.length - 1) * gap)) / 2;
+  return skillIds
+    .map((skillId, idx) => {
+      const x = startX + idx * (size + gap);
+      const icon = skillIcons?.get(skillId);
+      const content = icon
+        ? `<image href="${escapeXml(icon)}" x="${x}" y="414" width="${size}" height="${size}" clip-path="url(#skill-clip-${idx})" preserveAspectRatio="xMidYMid slice"/>`
+        : text(x + size / 2, 438, `font-family="${SANS}" font-size="10" fill="${COLORS.stone500}" fill-opacity="0.2"`, skillId > 0 ? '?' : '—');
+      return `<clipPath id="skill-clip-${idx}"><rect x="${x}" y="414" width="${size}" height="${size}" rx="4"/></clipPath>` +
+        `<rect x="${x}" y="414" width="${size}" height="${size}" rx="4" fill="${COLORS.stone800}" stroke="${COLORS.stone700}"/>` +
+        content;
+    })
+    .join('');
+}
+
+/** Same rows as CareerTimeline.tsx. */
+const TIMELINE_METRICS: Array<{ label: string; value: (run: TombstoneImageRun) => number; format: (n: number) => string }> = [
+  { label: 'Level', value: (run) => run.level, format: (n) => `Lvl ${n}` },
+  { label: 'Kills', value: (run) => run.kills, format: (n) => `${formatNumber(n)} kills` },
+  { label: 'Duration', value: (run) => Number(run.run_time), format: (n) => formatDuration(n) },
+];
+
+/** The career timeline chart of the expanded card, starting at `top`. Returns the markup and the baseline of its last line. */
+function renderTimeline(runs: readonly TombstoneImageRun[], top: number): { markup: string; bottom: number } {
+  if (runs.length === 0) {
+    const bottom = top + 12;
+    return {
+      markup: text(150, bottom, `font-family="${SANS}" font-size="10" font-style="italic" fill="${COLORS.stone600}"`, 'No run history recorded'),
+      bottom,
+    };
+  }
+
+  const ordered = [...runs].sort((a, b) => a.run_index - b.run_index);
+  const fatalIndex = ordered.length - 1;
+  const left = (CARD_WIDTH - TIMELINE_WIDTH) / 2;
+  const right = left + TIMELINE_WIDTH;
+  const slot = TIMELINE_WIDTH / ordered.length;
+  // Keep a visible gap between bars until runs get too dense to afford one.
+  const barWidth = slot > 4 ? slot - 1.5 : slot;
+
+  const parts = TIMELINE_METRICS.map((metric, row) => {
+    const rowTop = top + row * (TIMELINE_ROW_HEIGHT + TIMELINE_ROW_GAP) + TIMELINE_ROW_GAP - 4;
+    const baseline = rowTop + TIMELINE_ROW_HEIGHT;
+    const max = Math.max(1, ...ordered.map(metric.value));
+    const bars = ordered.map((run, idx) => {
+      // Zero-valued runs still get a sliver so the run count stays readable.
+      const height = Math.max(1, (metric.value(run) / max) * TIMELINE_ROW_HEIGHT);
+      return `<rect x="${left + idx * slot}" y="${baseline - height}" width="${barWidth}" height="${height}" fill="${idx === fatalIndex ? '#dc2626' : COLORS.stone600}"/>`;
+    });
+    return `<text x="${left}" y="${rowTop - 3}" font-family="${SANS}" font-size="7" letter-spacing="1" fill="${COLORS.stone400}">${metric.label.toUpperCase()}</text>` +
+      `<text x="${right}" y="${rowTop - 3}" text-anchor="end" font-family="${SANS}" font-size="7" fill="${COLORS.stone500}">max ${escapeXml(metric.format(max))}</text>` +
+      `<line x1="${left}" y1="${baseline}" x2="${right}" y2="${baseline}" stroke="${COLORS.stone700}" stroke-width="0.5"/>` +
+      bars.join('');
+  });
+  const bottom = top + TIMELINE_METRICS.length * (TIMELINE_ROW_HEIGHT + TIMELINE_ROW_GAP) + 8;
+  parts.push(
+    `<text x="${left}" y="${bottom}" font-family="${SANS}" font-size="9" letter-spacing="1.5" fill="${COLORS.stone600}">RUN 1</text>`,
+    `<text x="${right}" y="${bottom}" text-anchor="end" font-family="${SANS}" font-size="9" letter-spacing="1.5" fill="${COLORS.red700}">FATAL RUN ${ordered.length}</text>`
+  );
+  return { markup: parts.join(''), bottom };
+}
+
+/** Career totals, timeline, epitaph and mourner, as in the expanded card. Returns the markup and the card height it needs. */
+function renderCareer(death: TombstoneImageSource, runs: readonly TombstoneImageRun[] | undefined): { markup: string; height: number } {
+  const rows: Array<[string, string, string]> = [
+    ['Soulstones', formatNumber(death.career_soulstones), COLORS.fuchsia500],
+    ['Gold', formatNumber(death.career_gold != null ? Number(death.career_gold) : 0), COLORS.amber500],
+    ['Kills', formatNumber(death.career_kills), COLORS.rose500],
+    ['Elites', formatNumber(death.career_elite_kills), COLORS.orange600],
+    ['Bosses', formatNumber(death.career_bosses), COLORS.amber600],
+    ['Runs', String(death.career_runs ?? 0), COLORS.stone300],
+    ['Playtime', formatDuration(death.career_seconds), COLORS.emerald600],
+  ];
+  const parts = [
+    `<line x1="24" y1="470" x2="276" y2="470" stroke="${COLORS.stone500}" stroke-opacity="0.5"/>`,
+    text(150, 492, `font-family="${SANS}" font-size="10" font-weight="600" letter-spacing="1.5" fill="${COLORS.stone400}"`, 'CAREER TOTALS'),
+    ...rows.map(([label, value, color], idx) => {
+      const y = 514 + idx * 17;
+      return `<text x="40" y="${y}" font-family="${SANS}" font-size="12" fill="${COLORS.stone400}">${label}:</text>` +
+        `<text x="260" y="${y}" text-anchor="end" font-family="${SANS}" font-size="12" fill="${color}" fill-opacity="0.9">${escapeXml(value)}</text>`;
+    }),
+  ];
+  // Baseline of the last line drawn so far (the Playtime row).
+  let y = 514 + (rows.length - 1) * 17;
+  if (runs) {
+    y += 30;
+    parts.push(text(150, y, `font-family="${SANS}" font-size="10" font-weight="600" letter-spacing="1.5" fill="${COLORS.stone400}"`, 'CAREER TIMELINE'));
+    const timeline = renderTimeline(runs, y + 4);
+    parts.push(timeline.markup);
+    y = timeline.bottom;
+  }
+  if (death.epitaph) {
+    wrap(`“${death.epitaph}”`, 38, 3).forEach((line, idx) => {
+      y += idx === 0 ? 30 : 18;
+      parts.push(text(150, y, `font-family="${INSCRIPTION}" font-size="14" font-style="italic" fill="${COLORS.stone300}"`, escapeXml(line)));
+    });
+  }
+  if (death.mourned_by) {
+    y += 32;
+    parts.push(text(150, y, `font-family="${SANS}" font-size="12" fill="${COLORS.stone400}"`,
+      `Mourned by <tspan fill="${COLORS.stone300}">${escapeXml(profanity.clean(death.mourned_by))}</tspan>`));
+  }
+  return { markup: parts.join(''), height: Math.max(650, y + 32) };
+}
+
+/** The in-app card face; `full` adds the career totals and timeline. */
+function renderClassic(death: TombstoneImageSource, assets: TombstoneImageAssets, full: boolean): { markup: string; height: number } {
+  const damage = death.damage_taken != null ? Math.round(Number(death.damage_taken)) : 0;
+  const damageDealt = death.last_run_damage_dealt != null ? Math.round(Number(death.last_run_damage_dealt)) : 0;
+  const skillIds = death.skill_ids || [0, 0, 0];
+  // Lines below the damage dealt move up when it is hidden, like the card's conditional row.
+  const shift = damageDealt > 0 ? 0 : -14;
+  const career = full ? renderCareer(death, assets.runs) : null;
+  const height = career?.height ?? FACE_HEIGHT;
+
+  const classIcon = assets.classIcon
+    ? `<image href="${escapeXml(assets.classIcon)}" x="122" y="196" width="56" height="56" clip-path="url(#class-clip)" preserveAspectRatio="xMidYMid slice"/>`
+    : '';
+
+  const markup = [
+    renderStone(height),
+    // Skull with its glow
+    `<circle cx="150" cy="80" r="48" fill="url(#glow)" opacity="0.2"/>`,
+    renderSkull(118, 48, 64),
+    // Name
+    text(150, 146, `font-family="${SERIF}" font-size="16" font-weight="700" letter-spacing="0.8" fill="${COLORS.stone100}"`, escapeXml(truncate(death.character_name, 24))),
+    text(150, 170, `font-family="${SERIF}" font-size="16" font-weight="700" letter-spacing="3.2" fill="${COLORS.red700}" fill-opacity="0.8"`, 'R.I.P'),
+    // Class icon
+    `<clipPath id="class-clip"><circle cx="150" cy="224" r="28"/></clipPath>`,
+    `<circle cx="150" cy="224" r="28" fill="${COLORS.stone800}" fill-opacity="0.5"/>`,
+    classIcon,
+    `<circle cx="150" cy="224" r="28" fill="none" stroke="${COLORS.stone700}" stroke-width="2"/>`,
+    // Death
+    text(150, 286, `font-family="${SANS}" font-size="14" font-weight="500" fill="${COLORS.stone500}"`, `Lvl <tspan fill="${COLORS.stone200}">${death.level}</tspan>`),
+    text(150, 308, `font-family="${SANS}" font-size="14" font-weight="600" fill="${COLORS.stone400}"`,
+      `Slain by <tspan fill="${damageColor(death.last_run_damage_type)}">${formatNumber(damage)} ${getDamageTypeLabel(death.last_run_damage_type)}</tspan> Dmg`),
+    damageDealt > 0
+      ? text(150, 326, `font-family="${SANS}" font-size="12" fill="${COLORS.stone500}"`, `Dealt <tspan fill="${COLORS.stone400}">${formatNumber(damageDealt)}</tspan> Dmg`)
+      : '',
+    // Last run
+    text(150, 346 + shift, `font-family="${SANS}" font-size="12" fill="${COLORS.stone500}"`,
+      `<tspan fill="${COLORS.stone300}">${formatNumber(death.last_run_kills ?? 0)}</tspan> Kills · ` +
+      `<tspan fill="${COLORS.orange600}">${formatNumber(death.last_run_elite_kills ?? 0)}</tspan> Elites · ` +
+      `<tspan fill="${COLORS.amber600}">${formatNumber(death.last_run_boss_kills ?? 0)}</tspan> Bosses`),
+    text(150, 364 + shift, `font-family="${SANS}" font-size="12" fill="${COLORS.stone500}"`, escapeXml(formatDuration(death.last_run_duration))),
+    text(150, 388 + shift, `font-family="${SANS}" font-size="10" font-weight="600" letter-spacing="1.5" fill="${COLORS.stone400}"`, `${death.respects_paid} RESPECTS PAID`),
+    // Equipped skills
+    `<line x1="24" y1="402" x2="276" y2="402" stroke="${COLORS.stone500}" stroke-opacity="0.5"/>`,
+    renderSkills(skillIds, assets.skillIcons),
+    career?.markup ?? '',
+  ].join('');
+  return { markup, height };
+}
+
+/** Name, level and date on bare stone, with the epitaph beneath when there is one. */
+function renderMinimal(death: TombstoneImageSource): { markup: string; height: number } {
+  const markup = [
+    renderStone(FACE_HEIGHT),
+    text(150, 260, `font-family="${SERIF}" font-size="22" font-weight="700" letter-spacing="1" fill="${COLORS.stone100}"`, escapeXml(truncate(death.character_name, 16))),
+    text(150, 290, `font-family="${SERIF}" font-size="14" font-weight="700" letter-spacing="3.2" fill="${COLORS.red700}" fill-opacity="0.8"`, 'R.I.P'),
+    `<line x1="110" y1="314" x2="190" y2="314" stroke="${COLORS.red700}" stroke-opacity="0.6"/>`,
+    text(150, 348, `font-family="${SERIF}" font-size="14" font-weight="600" letter-spacing="3" fill="${COLORS.stone300}"`, `LEVEL ${death.level}`),
+    text(150, 374, `font-family="${SANS}" font-size="12" fill="${COLORS.stone500}"`, escapeXml(formatDeathDate(death.death_date))),
+    text(150, 396, `font-family="${SANS}" font-size="12" fill="${COLORS.stone500}"`,
+      `${formatNumber(death.career_kills)} kills · ${escapeXml(formatDuration(death.career_seconds))}`),
+    ...(death.epitaph ? wrap(`“${death.epitaph}”`, 32, 3) : []).map((line, idx) =>
+      text(150, 436 + idx * 18, `font-family="${INSCRIPTION}" font-size="13" font-style="italic" fill="${COLORS.stone400}"`, escapeXml(line))
+    ),
+  ].join('');
+  return { markup, height: FACE_HEIGHT };
+}
+
+/** "Here lies…" with the inscription (the epitaph, when engraved) as the centrepiece. */
+function renderEpitaph(death: TombstoneImageSource): { markup: string; height: number } {
+  const lines = wrap(inscription(death), 30, 7);
+  const firstLine = 300 - ((lines.length - 1) * 22) / 2;
+  const markup = [
+    renderStone(FACE_HEIGHT),
+    renderSkull(135, 56, 30),
+    text(150, 118, `font-family="${SANS}" font-size="10" font-weight="600" letter-spacing="3" fill="${COLORS.stone500}"`, 'HERE LIES'),
+    text(150, 146, `font-family="${SERIF}" font-size="20" font-weight="700" letter-spacing="1" fill="${COLORS.stone100}"`, escapeXml(truncate(death.character_name, 18))),
+    text(150, 168, `font-family="${SANS}" font-size="11" fill="${COLORS.stone500}"`,
+      `Level ${death.level} · ${escapeXml(formatDeathDate(death.death_date))}`),
+    `<line x1="90" y1="190" x2="210" y2="190" stroke="${COLORS.stone600}"/>`,
+    `<path d="M150,185 L155,190 L150,195 L145,190 Z" fill="${COLORS.red700}"/>`,
+    ...lines.map((line, idx) =>
+      text(150, firstLine + idx * 22, `font-family="${INSCRIPTION}" font-size="15" font-style="italic" fill="${COLORS.stone300}"`, escapeXml(line))
+    ),
+    `<line x1="90" y1="410" x2="210" y2="410" stroke="${COLORS.stone600}"/>`,
+    death.mourned_by
+      ? text(150, 436, `font-family="${SANS}" font-size="12" fill="${COLORS.stone500}"`,
+        `Mourned by <tspan fill="${COLORS.stone300}">${escapeXml(profanity.clean(death.mourned_by))}</tspan>`)
+      : '',
+    text(150, 470, `font-family="${SERIF}" font-size="14" font-weight="700" letter-spacing="3.2" fill="${COLORS.red700}" fill-opacity="0.8"`, 'R.I.P'),
+  ].join('');
+  return { markup, height: FACE_HEIGHT };
+}
+
+/** Renders a death's tombstone as an SVG document string. */
+export function renderTombstoneSvg(
+  death: TombstoneImageSource,
+  assets: TombstoneImageAssets = {},
+  { template = 'classic', frame = 'card', transparent = false }: TombstoneImageOptions = {}
+): string {
+  const card =
+    template === 'minimal' ? renderMinimal(death)
+      : template === 'epitaph' ? renderEpitaph(death)
+        : renderClassic(death, assets, frame === 'card');
+
+  const { width, height } =
+    frame === 'preview' ? TOMBSTONE_PREVIEW_SIZE
+      : frame === 'square' ? { width: SQUARE_SIZE, height: SQUARE_SIZE }
+        : { width: CARD_WIDTH + CARD_MARGIN * 2, height: card.height + CARD_MARGIN * 2 };
+  const cardX = (width - CARD_WIDTH) / 2;
+  const cardY = (height - card.height) / 2;
+
+  const defs =
+    `<defs>` +
+    (assets.fontCss ? `<style>${assets.fontCss}</style>` : '') +
+    `<linearGradient id="stone" x1="0" y1="0" x2="0" y2="1"><stop offset="0" stop-color="${COLORS.stone900}"/><stop offset="1" stop-color="${COLORS.stone950}"/></linearGradient>` +
+    `<radialGradient id="glow"><stop offset="0" stop-color="#dc2626" stop-opacity="0.6"/><stop offset="0.7" stop-color="#dc2626" stop-opacity="0"/></radialGradient>` +
+    `<radialGradient id="backdrop" cx="0.5" cy="0.45" r="0.6"><stop offset="0" stop-color="#450a0a" stop-opacity="0.55"/><stop offset="1" stop-color="${COLORS.stone950}" stop-opacity="0"/></radialGradient>` +
+    `<filter id="noise" x="0" y="0" width="100%" height="100%"><feTurbulence type="fractalNoise" baseFrequency="0.65" numOctaves="3" stitchTiles="stitch"/></filter>` +
+    `</defs>`;
+
+  let backdrop = '';
+  if (!transparent) {
+    backdrop = `<rect width="${width}" height="${height}" fill="${COLORS.stone950}"/>`;
+    if (frame !== 'card') backdrop += `<rect width="${width}" height="${height}" fill="url(#backdrop)"/>`;
+    if (frame === 'preview') {
+      backdrop += `<text x="${width - 40}" y="${height - 32}" text-anchor="end" font-family="${SERIF}" font-size="22" font-weight="700" letter-spacing="2" fill="${COLORS.stone600}">THE GRAVEYARD</text>`;
+    }
+  }
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    defs +
+    backdrop +
+    `<g transform="translate(${cardX} ${cardY})">${card.markup}</g>` +
+    `</svg>`
+  );
+}
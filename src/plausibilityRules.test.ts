@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { buildSkillDamageProfiles, evaluatePlausibility, type PlausibilityRuleId } from './plausibilityRules.ts';
+import { parseSaveFile } from './saveFileParser.ts';
+import type { ExtractedDeathPayload, PlayerSaveData } from './types.ts';
+import { buildRun, buildSave, saveText, type RunFixture } from './testing/playerSave.ts';
+
+// Skill 1 doubles the damage cap; skill 2 is weaker than the floor of 1.
+const skills = buildSkillDamageProfiles([{ id: 1, baseDamageMod: 2 }, { id: 2, baseDamageMod: 0.5 }]);
+
+function payloadOf(save: PlayerSaveData): ExtractedDeathPayload {
+  const result = parseSaveFile(saveText(save));
+  if (!result.ok) throw new Error(result.issues.map((issue) => issue.message).join('\n'));
+  return result.payload;
+}
+
+/** A save whose only run is a level 25, 30-minute run with the given stats. */
+function soloRun(overrides: Partial<RunFixture>, save: Partial<PlayerSaveData> = {}): PlayerSaveData {
+  return buildSave({ pastRunsData: [buildRun({ level: 25, runTime: 1800, damageType: 2, ...overrides })], ...save });
+}
+
+interface RuleCase {
+  name: string;
+  rule: PlausibilityRuleId;
+  save: PlayerSaveData;
+  status: 'pass' | 'suspicious';
+}
+
+const cases: RuleCase[] = [
+  { name: 'categories that add up to the total', rule: 'KILL_BREAKDOWN', save: soloRun({}), status: 'pass' },
+  { name: 'one more categorized kill than the total', rule: 'KILL_BREAKDOWN', save: soloRun({ regularKills: 197 }), status: 'suspicious' },
+
+  { name: 'exactly 15 kills/s', rule: 'KILLS_PER_SECOND', save: soloRun({ kills: 27000, regularKills: 26996 }), status: 'pass' },
+  { name: 'just over 15 kills/s', rule: 'KILLS_PER_SECOND', save: soloRun({ kills: 27001, regularKills: 26997 }), status: 'suspicious' },
+  { name: 'kills without run time', rule: 'KILLS_PER_SECOND', save: soloRun({ runTime: 0, damageDealt: 0 }), status: 'suspicious' },
+
+  { name: '5000 gold per level', rule: 'GOLD_PER_RUN', save: soloRun({ gold: 125000 }), status: 'pass' },
+  { name: 'one gold over 5000 per level', rule: 'GOLD_PER_RUN', save: soloRun({ gold: 125001 }), status: 'suspicious' },
+
+  { name: '3 + 25/5 bosses at level 25', rule: 'BOSSES_VS_LEVEL', save: soloRun({ bossKills: 8, regularKills: 189 }), status: 'pass' },
+  { name: '9 bosses at level 25', rule: 'BOSSES_VS_LEVEL', save: soloRun({ bossKills: 9, regularKills: 188 }), status: 'suspicious' },
+  { name: '8 bosses one level short of the next allowance', rule: 'BOSSES_VS_LEVEL', save: soloRun({ level: 24, bossKills: 8, regularKills: 189 }), status: 'suspicious' },
+
+  { name: '2500 damage/s per level with a 2x skill', rule: 'DAMAGE_VS_SKILLS', save: soloRun({ damageDealt: 225_000_000 }), status: 'pass' },
+  { name: 'just over the cap with a 2x skill', rule: 'DAMAGE_VS_SKILLS', save: soloRun({ damageDealt: 225_001_800 }), status: 'suspicious' },
+  {
+    name: 'the same damage when only a weak skill is equipped',
+    rule: 'DAMAGE_VS_SKILLS',
+    save: soloRun({ damageDealt: 225_000_000 }, { skillSlots: [{ _skillHashId: 2 }] }),
+    status: 'suspicious',
+  },
+  {
+    name: '2500 damage/s per level with only a weak skill (floor of 1)',
+    rule: 'DAMAGE_VS_SKILLS',
+    save: soloRun({ damageDealt: 112_500_000 }, { skillSlots: [{ _skillHashId: 2 }] }),
+    status: 'pass',
+  },
+  { name: 'damage without run time', rule: 'DAMAGE_VS_SKILLS', save: soloRun({ runTime: 0, kills: 0, regularKills: 0, eliteKills: 0, bossKills: 0 }), status: 'suspicious' },
+
+  { name: 'runs within 5% over total playtime', rule: 'CAREER_TIME', save: soloRun({ runTime: 7560 }), status: 'pass' },
+  { name: 'runs more than 5% over total playtime', rule: 'CAREER_TIME', save: soloRun({ runTime: 7561 }), status: 'suspicious' },
+  { name: 'more runs than the game counted', rule: 'CAREER_TIME', save: buildSave({ cumulativeTotalRuns: 2 }), status: 'suspicious' },
+];
+
+describe('evaluatePlausibility', () => {
+  it('passes every rule for the plausible fixture save', () => {
+    const report = evaluatePlausibility(payloadOf(buildSave()), skills);
+    expect(report.suspicious).toBe(false);
+    expect(report.reasons).toEqual([]);
+    expect(report.verdicts.map((verdict) => verdict.status)).toEqual(Array(6).fill('pass'));
+  });
+
+  it.each(cases)('$rule: $status for $name', ({ rule, save, status }) => {
+    const report = evaluatePlausibility(payloadOf(save), skills);
+    const verdict = report.verdicts.find((candidate) => candidate.rule === rule);
+    expect(verdict?.status).toBe(status);
+    if (status === 'suspicious') expect(report.reasons).toContain(verdict?.reason);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Hell Clock — Anti-tamper plausibility checks for extracted saves.
+ * Each rule cross-checks extracted stats against each other and against game data (Skills.json),
+ * returning a typed verdict. Suspicious uploads are flagged for review rather than rejected outright.
+ * Shared by the browser (preview) and the `bury-hero` Edge Function (authoritative).
+ *
+ * Thresholds are deliberately generous: they only exist to catch blatant edits, not strong players.
+ */
+
+import type { ExtractedDeathPayload, ExtractedRunRecord } from './types.ts';
+
+export type PlausibilityRuleId =
+  | 'KILL_BREAKDOWN'
+  | 'KILLS_PER_SECOND'
+  | 'GOLD_PER_RUN'
+  | 'BOSSES_VS_LEVEL'
+  | 'DAMAGE_VS_SKILLS'
+  | 'CAREER_TIME';
+
+export interface PlausibilityVerdict {
+  rule: PlausibilityRuleId;
+  status: 'pass' | 'suspicious';
+  reason: string;
+}
+
+export interface PlausibilityReport {
+  verdicts: PlausibilityVerdict[];
+  suspicious: boolean;
+  /** Reasons of the failed rules only, ready to be stored alongside the death. */
+  reasons: string[];
+}
+
+/** Damage-relevant slice of a Skills.json entry. */
+export interface SkillDamageProfile {
+  id: number;
+  baseDamageMod: number;
+}
+
+interface PlausibilityContext {
+  payload: ExtractedDeathPayload;
+  skills: Map<number, SkillDamageProfile>;
+}
+
+type PlausibilityRule = (ctx: PlausibilityContext) => PlausibilityVerdict;
+
+/*
+ * Thresholds. None is fitted to a corpus of real saves yet: each is a hand-set upper bound, loose enough that no
+ * legitimate run should reach it. A flagged hero is held for review rather than rejected, so a bound that turns out
+ * too tight shows up in the moderation queue; raise it here and move its boundary case in plausibilityRules.test.ts.
+ */
+
+/** Kills per second of RunTime, averaged over the whole run (travel, shops and boss fights included). */
+const MAX_KILLS_PER_SECOND = 15;
+/** Gold per level reached in a run; scaled by level because deeper runs drop more gold. */
+const MAX_GOLD_PER_LEVEL = 5000;
+/** Bosses allowed before the level term adds any, so short runs that meet early bosses pass. */
+const BASE_BOSSES_PER_RUN = 3;
+/** One more boss allowed for every LEVELS_PER_BOSS levels reached in the run. */
+const LEVELS_PER_BOSS = 5;
+/**
+ * Average damage per second of the final run, per level, before the equipped-skill factor: the largest
+ * baseDamageMod among the equipped skills in Skills.json (never below 1; the strongest skill there is 4.0).
+ */
+const MAX_DPS_PER_LEVEL = 2500;
+/**
+ * Career playtime also covers menus and loading screens, so runs may only fall short of it.
+ * The 5% slack only absorbs rounding between the per-run RunTime and the career gameplayTime counters.
+ */
+const CAREER_TIME_TOLERANCE = 1.05;
+
+/** Builds the skill lookup from the raw Skills.json entries. */
+export function buildSkillDamageProfiles(
+  skills: Array<{ id: number; baseDamageMod?: number }>
+): Map<number, SkillDamageProfile> {
+  const profiles = new Map<number, SkillDamageProfile>();
+  for (const skill of skills) {
+    profiles.set(skill.id, { id: skill.id, baseDamageMod: skill.baseDamageMod ?? 0 });
+  }
+  return profiles;
+}
+
+function pass(rule: PlausibilityRuleId, reason: string): PlausibilityVerdict {
+  return { rule, status: 'pass', reason };
+}
+
+function suspicious(rule: PlausibilityRuleId, reason: string): PlausibilityVerdict {
+  return { rule, status: 'suspicious', reason };
+}
+
+function runLabel(run: ExtractedRunRecord): string {
+  return `Run ${run.runIndex + 1}`;
+}
+
+/** Regular + elite + boss kills must not exceed the total kill counter. */
+const checkKillBreakdown: PlausibilityRule = ({ payload }) => {
+  for (const run of payload.runs) {
+    const breakdown = run.regularKills + run.eliteKills + run.bossKills;
+    if (breakdown > run.kills) {
+      return suspicious('KILL_BREAKDOWN', `${runLabel(run)}: ${breakdown} categorized kills exceed ${run.kills} total kills.`);
+    }
+  }
+  return pass('KILL_BREAKDOWN', 'Kill categories add up in every run.');
+};
+
+const checkKillsPerSecond: PlausibilityRule = ({ payload }) => {
+  for (const run of payload.runs) {
+    if (run.kills > 0 && run.runTime <= 0) {
+      return suspicious('KILLS_PER_SECOND', `${runLabel(run)}: ${run.kills} kills with no recorded run time.`);
+    }
+    const rate = run.runTime > 0 ? run.kills / run.runTime : 0;
+    if (rate > MAX_KILLS_PER_SECOND) {
+      return suspicious('KILLS_PER_SECOND', `${runLabel(run)}: ${rate.toFixed(1)} kills/s exceeds ${MAX_KILLS_PER_SECOND} kills/s.`);
+    }
+  }
+  return pass('KILLS_PER_SECOND', 'Kill rate is plausible in every run.');
+};
+
+const checkGoldPerRun: PlausibilityRule = ({ payload }) => {
+  for (const run of payload.runs) {
+    const cap = MAX_GOLD_PER_LEVEL * Math.max(run.level, 1);
+    if (run.gold > cap) {
+      return suspicious('GOLD_PER_RUN', `${runLabel(run)}: ${run.gold} gold at level ${run.level} exceeds ${cap}.`);
+    }
+  }
+  return pass('GOLD_PER_RUN', 'Gold income is plausible in every run.');
+};
+
+const checkBossesVsLevel: PlausibilityRule = ({ payload }) => {
+  for (const run of payload.runs) {
+    const cap = BASE_BOSSES_PER_RUN + Math.floor(run.level / LEVELS_PER_BOSS);
+    if (run.bossKills > cap) {
+      return suspicious('BOSSES_VS_LEVEL', `${runLabel(run)}: ${run.bossKills} bosses at level ${run.level} exceeds ${cap}.`);
+    }
+  }
+  return pass('BOSSES_VS_LEVEL', 'Boss kills match the levels reached.');
+};
+
+/** Damage per second of the final run, bounded by level and the strongest equipped skill. */
+const checkDamageVsSkills: PlausibilityRule = ({ payload, skills }) => {
+  if (payload.lastRunDuration <= 0) {
+    return payload.lastRunDamageDealt > 0
+      ? suspicious('DAMAGE_VS_SKILLS', 'Final run dealt damage with no recorded run time.')
+      : pass('DAMAGE_VS_SKILLS', 'No damage dealt in the final run.');
+  }
+
+  const strongestMod = payload.skillIds.reduce(
+    (max, id) => Math.max(max, skills.get(id)?.baseDamageMod ?? 0),
+    1
+  );
+  const cap = MAX_DPS_PER_LEVEL * Math.max(payload.level, 1) * strongestMod;
+  const dps = payload.lastRunDamageDealt / payload.lastRunDuration;
+  if (dps > cap) {
+    return suspicious('DAMAGE_VS_SKILLS', `Final run: ${Math.round(dps)} damage/s exceeds ${Math.round(cap)} for level ${payload.level} with the equipped skills.`);
+  }
+  return pass('DAMAGE_VS_SKILLS', 'Damage dealt matches level and equipped skills.');
+};
+
+const checkCareerTime: PlausibilityRule = ({ payload }) => {
+  const runSeconds = payload.runs.reduce((sum, run) => sum + run.runTime, 0);
+  if (runSeconds > payload.careerSeconds * CAREER_TIME_TOLERANCE) {
+    return suspicious('CAREER_TIME', `Runs add up to ${Math.round(runSeconds)}s but total playtime is ${Math.round(payload.careerSeconds)}s.`);
+  }
+  if (payload.runs.length > payload.careerRuns) {
+    return suspicious('CAREER_TIME', `${payload.runs.length} recorded runs exceed the ${payload.careerRuns} runs counted by the game.`);
+  }
+  return pass('CAREER_TIME', 'Run times and run count fit the career totals.');
+};
+
+const RULES: PlausibilityRule[] = [
+  checkKillBreakdown,
+  checkKillsPerSecond,
+  checkGoldPerRun,
+  checkBossesVsLevel,
+  checkDamageVsSkills,
+  checkCareerTime,
+];
+
+/**
+ * Runs every plausibility rule against an extracted payload.
+ * Assumes the payload already passed the hard caps in parseSaveFile.
+ */
+export function evaluatePlausibility(
+  payload: ExtractedDeathPayload,
+  skills: Map<number, SkillDamageProfile>
+): PlausibilityReport {
+  const verdicts = RULES.map((rule) => rule({ payload, skills }));
+  const reasons = verdicts.filter((v) => v.status === 'suspicious').map((v) => v.reason);
+  return { verdicts, suspicious: reasons.length > 0, reasons };
+}
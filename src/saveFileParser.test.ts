@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { parseArchiveFile, parseSaveFile } from './saveFileParser.ts';
+import { detectSaveFormat } from './saveSchema.ts';
+import type { SaveIssue } from './saveIssues.ts';
+import { buildRun, buildSave, saveText } from './testing/playerSave.ts';
+
+function collect(data: unknown): { format: string | null; issues: SaveIssue[] } {
+  const issues: SaveIssue[] = [];
+  const format = detectSaveFormat(data, (issue) => issues.push(issue));
+  return { format: format?.id ?? null, issues };
+}
+
+const summary = (issues: SaveIssue[]) => issues.map(({ code, path }) => `${code} ${path}`);
+
+describe('detectSaveFormat', () => {
+  it('detects the serialized-list format of a valid save', () => {
+    expect(collect(buildSave())).toEqual({ format: 'serialized-list-v1', issues: [] });
+  });
+
+  it('reports every schema mismatch with its path and still detects the format', () => {
+    const save = buildSave({
+      gameplayTime: 'long' as unknown as number,
+      skillSlots: [{ _skillHashId: 1 }, { _skillHashId: '2' as unknown as number }],
+    });
+    delete (save as Partial<typeof save>).cumulativeTotalRuns;
+
+    const { format, issues } = collect(save);
+    expect(format).toBe('serialized-list-v1');
+    expect(summary(issues)).toEqual([
+      'INVALID_STRUCTURE gameplayTime',
+      'MISSING_FIELD cumulativeTotalRuns',
+      'INVALID_STRUCTURE skillSlots[1]._skillHashId',
+    ]);
+  });
+
+  it('reports an unrecognized format when no run uses known stat keys', () => {
+    const save = buildSave({ pastRunsData: [{ _statCounters: { _serializedList: [{ Key: 'Renamed', Value: 1 }] } }] });
+    const { format, issues } = collect(save);
+    expect(format).toBeNull();
+    expect(issues.map((issue) => issue.code)).toEqual(['UNSUPPORTED_FORMAT']);
+  });
+});
+
+describe('parseSaveFile', () => {
+  it('extracts the payload of a valid save', () => {
+    const result = parseSaveFile(saveText());
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.format).toBe('serialized-list-v1');
+    expect(result.issues).toEqual([]);
+    expect(result.payload).toMatchObject({
+      level: 25,
+      damageTaken: 120,
+      careerSeconds: 7200,
+      careerRuns: 3,
+      careerKills: 1100,
+      skillIds: [1, 2],
+      lastRunDuration: 1800,
+      lastRunDamageType: 2,
+    });
+    expect(result.payload.runs.map((run) => run.damageType)).toEqual([null, 1, 2]);
+  });
+
+  it('reports every issue at once instead of stopping at the first', () => {
+    const lastRun = buildRun({ level: 60 });
+    lastRun._statAggregators = { _serializedList: [{ Key: 'GoldGained', Value: 10 }] };
+    const save = buildSave({
+      hardcoreModeEnabled: false,
+      gameplayTime: -5,
+      skillSlots: [{ _skillHashId: 'fire' as unknown as number }],
+      pastRunsData: [buildRun(), lastRun],
+    });
+
+    const result = parseSaveFile(saveText(save));
+    expect(result.ok).toBe(false);
+    expect(summary(result.issues)).toEqual([
+      'NOT_HARDCORE hardcoreModeEnabled',
+      'INVALID_STRUCTURE skillSlots[0]._skillHashId',
+      'MISSING_FIELD pastRunsData[1]._statAggregators.RunTime',
+      'OUT_OF_RANGE pastRunsData[1]._statCounters.LevelAchieved',
+      'NEGATIVE_VALUE gameplayTime',
+    ]);
+  });
+
+  it('still applies the hard caps to saves with structural errors', () => {
+    const save = buildSave({ pastRunsData: [buildRun({ level: 99, kills: -3 }), null as unknown as ReturnType<typeof buildRun>] });
+    const result = parseSaveFile(saveText(save));
+    expect(result.ok).toBe(false);
+    expect(summary(result.issues)).toEqual([
+      'INVALID_STRUCTURE pastRunsData[1]',
+      'MISSING_FIELD pastRunsData[1]._statCounters',
+      'MISSING_FIELD pastRunsData[1]._statAggregators',
+      'NO_DAMAGE_HISTORY pastRunsData[1]._lastDamageInstances',
+      'NEGATIVE_VALUE pastRunsData[0]._statCounters.EnemiesDefeated',
+    ]);
+  });
+
+  it('reports scientific notation alongside the other problems', () => {
+    const text = saveText(buildSave({ cumulativeTotalDeaths: 0 })).replace('"gameplayTime": 7200', '"gameplayTime": 7.2e3');
+    const result = parseSaveFile(text);
+    expect(result.ok).toBe(false);
+    expect(result.issues.map((issue) => issue.code)).toEqual(['SCIENTIFIC_NOTATION', 'NO_DEATH']);
+  });
+
+  it('reports a missing run history once', () => {
+    const save = buildSave();
+    delete (save as Partial<typeof save>).pastRunsData;
+    expect(summary(parseSaveFile(saveText(save)).issues)).toEqual(['MISSING_FIELD pastRunsData']);
+    expect(summary(parseSaveFile(saveText(buildSave({ pastRunsData: [] }))).issues)).toEqual(['INVALID_STRUCTURE pastRunsData']);
+  });
+
+  it('rejects text that is not a save object', () => {
+    expect(parseSaveFile('{ nope').issues.map((issue) => issue.code)).toEqual(['INVALID_JSON']);
+    expect(summary(parseSaveFile('[]').issues)).toEqual(['INVALID_STRUCTURE ']);
+  });
+
+  it('accepts a missing killing damage type with a warning', () => {
+    const lastRun = buildRun({ level: 25 });
+    lastRun._lastDamageInstances = [{ _totalDamage: 80 }];
+    const result = parseSaveFile(saveText(buildSave({ pastRunsData: [buildRun(), lastRun] })));
+    expect(result.ok).toBe(true);
+    expect(result.issues.map((issue) => `${issue.severity} ${issue.code}`)).toEqual(['warning DEFAULTED_FIELD']);
+  });
+});
+
+describe('parseArchiveFile', () => {
+  it('turns fallen Hardcore heroes away and still checks the rest', () => {
+    const result = parseArchiveFile(saveText(buildSave({ gameplayTime: -1 })));
+    expect(result.ok).toBe(false);
+    expect(result.issues.map((issue) => issue.code)).toEqual(['BELONGS_IN_GRAVEYARD', 'NEGATIVE_VALUE']);
+  });
+
+  it('archives a softcore character at its best level', () => {
+    const result = parseArchiveFile(saveText(buildSave({ hardcoreModeEnabled: false, cumulativeTotalDeaths: 4 })));
+    expect(result.ok).toBe(true);
+    if (result.ok) expect(result.payload).toMatchObject({ level: 25, isHardcore: false, totalDeaths: 4 });
+  });
+});
@@ -1,51 +1,77 @@
 /**
  * Hell Clock — Save file parsing & extraction for The Graveyard (Upload Crypt).
  * Strict validation and career summation from pastRunsData.
+ * Shared by the browser (preview) and the `bury-hero` Edge Function (authoritative ingestion),
+ * hence the explicit `.ts` import extensions required by Deno.
  */
 
-import type { PlayerSaveData, PastRunData, ExtractedDeathPayload } from './types';
+import type {
+  PlayerSaveData, PastRunData, ExtractedDeathPayload, ExtractedArchivePayload, ExtractedRunRecord, SerializedStat,
+} from './types.ts';
+import { createIssueSink, hasErrors, type IssueSink, type SaveIssue } from './saveIssues.ts';
+import { detectSaveFormat, SAVE_FORMATS, type SaveFormat, type SaveFormatId, type StatKeyMap } from './saveSchema.ts';
 
-interface SkillSlot {
-  _skillHashId: number;
-}
+type SerializedList = SerializedStat[];
+
+/** Format assumed when extracting without detection (the latest known one). */
+const DEFAULT_FORMAT = SAVE_FORMATS[0]!;
 
-export interface ValidationError {
-  code: 'NOT_HARDCORE' | 'NO_DEATH' | 'ALIVE' | 'INVALID_STRUCTURE';
-  message: string;
+/** JSON path of a past run, e.g. `pastRunsData[3]`. */
+function runPath(runIndex: number): string {
+  return `pastRunsData[${runIndex}]`;
 }
 
 /**
  * Validates that the save file represents a valid Hardcore death.
- * Checks for: Object structure, Hardcore mode enabled, and presence of exactly one death.
+ * Checks for: Object structure, Hardcore mode enabled, presence of exactly one death and a non-empty run history.
+ * Returns every problem found. A missing or mistyped pastRunsData is left to the schema (detectSaveFormat).
  */
-export function validateSaveFile(data: unknown): ValidationError | null {
-  if (!data || typeof data !== 'object') {
-    return { code: 'INVALID_STRUCTURE', message: 'Invalid save file: not an object.' };
+export function validateSaveFile(data: unknown): SaveIssue[] {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return [{ code: 'INVALID_STRUCTURE', severity: 'error', path: '', expected: 'object', message: 'Invalid save file: not an object.' }];
   }
 
   const d = data as Record<string, unknown>;
+  const issues: SaveIssue[] = [];
 
   if (d.hardcoreModeEnabled !== true) {
-    return { code: 'NOT_HARDCORE', message: 'Only Hardcore deaths are accepted. hardcoreModeEnabled must be true.' };
+    issues.push({
+      code: 'NOT_HARDCORE', severity: 'error', path: 'hardcoreModeEnabled',
+      message: 'Only Hardcore deaths are accepted. hardcoreModeEnabled must be true.',
+    });
   }
 
   const cumulativeTotalDeaths = d.cumulativeTotalDeaths;
   if (typeof cumulativeTotalDeaths !== 'number' || cumulativeTotalDeaths !== 1) {
-    return { code: 'NO_DEATH', message: 'Save file must have cumulativeTotalDeaths === 1 to submit a death.' };
+    issues.push({
+      code: 'NO_DEATH', severity: 'error', path: 'cumulativeTotalDeaths', deaths: cumulativeTotalDeaths,
+      message: 'Save file must have cumulativeTotalDeaths === 1 to submit a death.',
+    });
   }
 
-  const pastRuns = d.pastRunsData;
-  if (!Array.isArray(pastRuns) || pastRuns.length === 0) {
-    return { code: 'INVALID_STRUCTURE', message: 'pastRunsData is missing or empty.' };
+  if (Array.isArray(d.pastRunsData) && d.pastRunsData.length === 0) {
+    issues.push({
+      code: 'INVALID_STRUCTURE', severity: 'error', path: 'pastRunsData', expected: 'non-empty array',
+      message: 'pastRunsData is empty.',
+    });
   }
 
-  return null;
+  return issues;
+}
+
+function isSaveObject(data: unknown): data is Record<string, unknown> {
+  return !!data && typeof data === 'object' && !Array.isArray(data);
 }
 
-/** 
- * Extracts performance statistics from the final run in the save file. 
+/** Extraction reads the final run, so it needs a run history to start from; every other gap falls back to defaults. */
+function hasRunHistory(data: Record<string, unknown>): boolean {
+  return Array.isArray(data.pastRunsData) && data.pastRunsData.length > 0;
+}
+
+/**
+ * Extracts performance statistics from the final run in the save file.
  */
-function getLastRunStats(data: PlayerSaveData): {
+function getLastRunStats(data: PlayerSaveData, keys: StatKeyMap, report: IssueSink): {
   level: number;
   damageTaken: number;
   lastRunKills: number;
@@ -59,47 +85,71 @@ function getLastRunStats(data: PlayerSaveData): {
   lastRunDamageType: number;
 } {
   const pastRuns = data.pastRunsData;
-  const lastRun = pastRuns[pastRuns.length - 1]!;
+  const lastIndex = pastRuns.length - 1;
+  // Entries the schema rejected (e.g. null runs) are read as empty.
+  const lastRun: PastRunData | undefined = pastRuns[lastIndex];
+  const base = runPath(lastIndex);
 
-  const cntList = (lastRun._statCounters as { _serializedList?: Array<{ Key: string; Value: number }> })?._serializedList;
-  const aggList = (lastRun._statAggregators as { _serializedList?: Array<{ Key: string; Value: number }> })?._serializedList;
+  const cntList = lastRun?._statCounters?._serializedList;
+  const aggList = lastRun?._statAggregators?._serializedList;
 
   // Strict check: Level must exist
-  const level = getRequiredValue(cntList, 'LevelAchieved');
+  const level = getRequiredValue(cntList, keys.level, `${base}._statCounters`, report);
 
   // Last run specific metrics
   // Kills are optional (defaults to 0) because a 0-kill run might omit them
-  const lastRunKills = getValueFromSerializedList(cntList, 'EnemiesDefeated');
-  const lastRunRegularKills = getValueFromSerializedList(cntList, 'RegularEnemiesDefeated');
-  const lastRunEliteKills = getValueFromSerializedList(cntList, 'EliteEnemiesDefeated');
-  const lastRunBossKills = getValueFromSerializedList(cntList, 'BossEnemiesDefeated');
+  const lastRunKills = getValueFromSerializedList(cntList, keys.kills);
+  const lastRunRegularKills = getValueFromSerializedList(cntList, keys.regularKills);
+  const lastRunEliteKills = getValueFromSerializedList(cntList, keys.eliteKills);
+  const lastRunBossKills = getValueFromSerializedList(cntList, keys.bossKills);
 
   // Optional metrics (default to 0 if missing).
-  const lastRunSoulstones = getValueFromSerializedList(cntList, 'SoulStonesCollected');
-  const lastRunGold = getValueFromSerializedList(aggList, 'GoldGained');
+  const lastRunSoulstones = getValueFromSerializedList(cntList, keys.soulstones);
+  const lastRunGold = getValueFromSerializedList(aggList, keys.gold);
 
   // Damage Dealt is stored but not displayed on the Tombstone.
   // Defaults to 0 to support pacifist runs.
-  const lastRunDamageDealt = getValueFromSerializedList(aggList, 'DamageDealt');
-  const lastRunDuration = getRequiredValue(aggList, 'RunTime');
+  const lastRunDamageDealt = getValueFromSerializedList(aggList, keys.damageDealt);
+  const lastRunDuration = getRequiredValue(aggList, keys.runTime, `${base}._statAggregators`, report);
 
-  const damageInstances = lastRun._lastDamageInstances;
+  const damageInstances = lastRun?._lastDamageInstances;
   if (!Array.isArray(damageInstances) || damageInstances.length === 0) {
-    throw new Error('Validation Error: No damage history found. (Did you take damage?)');
+    report({
+      code: 'NO_DAMAGE_HISTORY', severity: 'error', path: `${base}._lastDamageInstances`,
+      message: 'Validation Error: No damage history found. (Did you take damage?)',
+    });
+    return {
+      level, damageTaken: 0, lastRunDamageType: 0,
+      lastRunKills, lastRunSoulstones, lastRunRegularKills, lastRunEliteKills, lastRunBossKills, lastRunGold,
+      lastRunDamageDealt, lastRunDuration
+    };
   }
 
+  const instancePath = `${base}._lastDamageInstances[${damageInstances.length - 1}]`;
   const lastInstance = damageInstances[damageInstances.length - 1];
+  let damageTaken = 0;
   if (typeof lastInstance?._totalDamage !== 'number') {
-    throw new Error('Validation Error: Missing _totalDamage in last damage instance.');
+    report({
+      code: 'MISSING_FIELD', severity: 'error', path: `${instancePath}._totalDamage`, field: '_totalDamage',
+      message: 'Validation Error: Missing _totalDamage in last damage instance.',
+    });
+  } else {
+    damageTaken = lastInstance._totalDamage;
   }
-  const damageTaken = lastInstance._totalDamage;
 
   // Extract Damage Type (0=Physical, 1=Fire, 2=Plague, 3=Lightning).
   // It is nested inside _damageBases array.
-  const lastDamageBase = lastInstance._damageBases?.[0];
-  const lastRunDamageType = typeof lastDamageBase?.EDamageTypeDefinition === 'number'
-    ? lastDamageBase.EDamageTypeDefinition
-    : 0;
+  const lastDamageBase = lastInstance?._damageBases?.[0];
+  let lastRunDamageType = 0;
+  if (typeof lastDamageBase?.EDamageTypeDefinition === 'number') {
+    lastRunDamageType = lastDamageBase.EDamageTypeDefinition;
+  } else {
+    report({
+      code: 'DEFAULTED_FIELD', severity: 'warning', path: `${instancePath}._damageBases[0].EDamageTypeDefinition`,
+      field: 'EDamageTypeDefinition', defaultValue: 0,
+      message: 'Killing damage type is missing; recorded as Physical.',
+    });
+  }
 
   return {
     level, damageTaken, lastRunDamageType,
@@ -108,36 +158,99 @@ function getLastRunStats(data: PlayerSaveData): {
   };
 }
 
-/** 
- * retrieval helper for the serialized key-value list format used in the save file. 
+/**
+ * retrieval helper for the serialized key-value list format used in the save file.
  */
 function getValueFromSerializedList(
-  serializedList: Array<{ Key: string; Value: number }> | undefined,
+  serializedList: SerializedList | undefined,
   key: string
 ): number {
   if (!Array.isArray(serializedList)) return 0;
-  const item = serializedList.find((x) => x.Key === key);
+  const item = serializedList.find((x) => x?.Key === key);
   return typeof item?.Value === 'number' ? item.Value : 0;
 }
 
+/** Like getValueFromSerializedList, but reports a missing value (and yields 0 when collecting). */
 function getRequiredValue(
-  serializedList: Array<{ Key: string; Value: number }> | undefined,
-  key: string
+  serializedList: SerializedList | undefined,
+  key: string,
+  blockPath: string,
+  report: IssueSink
 ): number {
   if (!Array.isArray(serializedList)) {
-    throw new Error(`Validation Error: Missing stat block containing ${key}.`);
+    report({
+      code: 'MISSING_FIELD', severity: 'error', path: blockPath, field: key,
+      message: `Validation Error: Missing stat block containing ${key}.`,
+    });
+    return 0;
   }
-  const item = serializedList.find((x) => x.Key === key);
+  const item = serializedList.find((x) => x?.Key === key);
   if (typeof item?.Value !== 'number') {
-    throw new Error(`Validation Error: Missing required field '${key}'.`);
+    report({
+      code: 'MISSING_FIELD', severity: 'error', path: `${blockPath}.${key}`, field: key,
+      message: `Validation Error: Missing required field '${key}'.`,
+    });
+    return 0;
   }
   return item.Value;
 }
 
-/** 
+type RunStatField = Exclude<keyof ExtractedRunRecord, 'runIndex' | 'damageType'>;
+
+/** Source location of each numeric run record field, relative to its pastRunsData entry. */
+function runFieldPaths(keys: StatKeyMap): Record<RunStatField, string> {
+  return {
+    level: `_statCounters.${keys.level}`,
+    kills: `_statCounters.${keys.kills}`,
+    regularKills: `_statCounters.${keys.regularKills}`,
+    eliteKills: `_statCounters.${keys.eliteKills}`,
+    bossKills: `_statCounters.${keys.bossKills}`,
+    gold: `_statAggregators.${keys.gold}`,
+    soulstones: `_statCounters.${keys.soulstones}`,
+    damageDealt: `_statAggregators.${keys.damageDealt}`,
+    runTime: `_statAggregators.${keys.runTime}`,
+  };
+}
+
+/**
+ * Extracts the stats of a single past run.
+ * Every metric is optional here (defaults to 0): only the final run is held to strict requirements.
+ */
+function extractRunRecord(run: PastRunData | undefined, runIndex: number, keys: StatKeyMap): ExtractedRunRecord {
+  const cntList = run?._statCounters?._serializedList;
+  const aggList = run?._statAggregators?._serializedList;
+
+  // A run that never took damage has no damage instances, hence no killing damage type.
+  const damageInstances = run?._lastDamageInstances;
+  const lastInstance = Array.isArray(damageInstances) ? damageInstances[damageInstances.length - 1] : undefined;
+  const damageTypeDef = lastInstance?._damageBases?.[0]?.EDamageTypeDefinition;
+
+  return {
+    runIndex,
+    level: getValueFromSerializedList(cntList, keys.level),
+    kills: getValueFromSerializedList(cntList, keys.kills),
+    regularKills: getValueFromSerializedList(cntList, keys.regularKills),
+    eliteKills: getValueFromSerializedList(cntList, keys.eliteKills),
+    bossKills: getValueFromSerializedList(cntList, keys.bossKills),
+    gold: getValueFromSerializedList(aggList, keys.gold),
+    soulstones: getValueFromSerializedList(cntList, keys.soulstones),
+    damageDealt: getValueFromSerializedList(aggList, keys.damageDealt),
+    runTime: getValueFromSerializedList(aggList, keys.runTime),
+    damageType: typeof damageTypeDef === 'number' ? damageTypeDef : null,
+  };
+}
+
+/**
+ * Extracts every past run into its own record, preserving play order.
+ */
+export function extractRunHistory(pastRunsData: PastRunData[], keys: StatKeyMap = DEFAULT_FORMAT.statKeys): ExtractedRunRecord[] {
+  return pastRunsData.map((run, idx) => extractRunRecord(run, idx, keys));
+}
+
+/**
  * Aggregates lifetime statistics across all past runs.
  */
-function sumCareerStats(pastRunsData: PastRunData[]): {
+function sumCareerStats(runs: ExtractedRunRecord[]): {
   totalGold: number;
   totalSoulstones: number;
   totalKills: number;
@@ -150,59 +263,85 @@ function sumCareerStats(pastRunsData: PastRunData[]): {
   let totalEliteKills = 0;
   let totalBosses = 0;
 
-  for (const run of pastRunsData) {
-    const aggList = (run._statAggregators as { _serializedList?: Array<{ Key: string; Value: number }> })?._serializedList;
-    const cntList = (run._statCounters as { _serializedList?: Array<{ Key: string; Value: number }> })?._serializedList;
-
-    totalGold += getValueFromSerializedList(aggList, 'GoldGained');
-    totalStones += getValueFromSerializedList(cntList, 'SoulStonesCollected');
-    totalKills += getValueFromSerializedList(cntList, 'EnemiesDefeated');
-    totalEliteKills += getValueFromSerializedList(cntList, 'EliteEnemiesDefeated');
-    totalBosses += getValueFromSerializedList(cntList, 'BossEnemiesDefeated');
+  for (const run of runs) {
+    totalGold += run.gold;
+    totalStones += run.soulstones;
+    totalKills += run.kills;
+    totalEliteKills += run.eliteKills;
+    totalBosses += run.bossKills;
   }
 
   return { totalGold, totalSoulstones: totalStones, totalKills, totalEliteKills, totalBosses };
 }
 
 /**
- * Parses the raw save data to produce the finalized payload for database insertion.
- * Assumes data has passed validation.
+ * Reads the character-level fields shared by Graveyard and Mausoleum payloads:
+ * playtime, run count and the equipped skill loadout.
  */
-export function extractDeathPayload(data: PlayerSaveData): ExtractedDeathPayload {
-  const {
-    level, damageTaken, lastRunDamageType,
-    lastRunKills, lastRunSoulstones, lastRunRegularKills, lastRunEliteKills, lastRunBossKills, lastRunGold,
-    lastRunDamageDealt, lastRunDuration
-  } = getLastRunStats(data);
-  const { totalGold, totalSoulstones, totalKills, totalEliteKills, totalBosses } = sumCareerStats(data.pastRunsData);
-
-
-
+function extractCareerBasics(data: PlayerSaveData, report: IssueSink): {
+  gameplayTime: number;
+  careerRuns: number;
+  skillIds: number[];
+} {
+  let gameplayTime = 0;
   if (typeof data.gameplayTime !== 'number') {
-    throw new Error('Validation Error: Missing required field path \'gameplayTime\'');
+    report({
+      code: 'MISSING_FIELD', severity: 'error', path: 'gameplayTime', field: 'gameplayTime',
+      message: 'Validation Error: Missing required field path \'gameplayTime\'',
+    });
+  } else {
+    gameplayTime = data.gameplayTime;
   }
-  const gameplayTime = data.gameplayTime;
 
+  let careerRuns = 0;
   if (typeof data.cumulativeTotalRuns !== 'number') {
-    throw new Error('Validation Error: Missing required field path \'cumulativeTotalRuns\'');
+    report({
+      code: 'MISSING_FIELD', severity: 'error', path: 'cumulativeTotalRuns', field: 'cumulativeTotalRuns',
+      message: 'Validation Error: Missing required field path \'cumulativeTotalRuns\'',
+    });
+  } else {
+    careerRuns = data.cumulativeTotalRuns;
   }
-  const careerRuns = data.cumulativeTotalRuns;
 
   // Extract equipped active skills (Loadout) rather than unlocked skills (Progression).
   const skillSlots = data.skillSlots;
   const skillIds: number[] = [];
 
   if (Array.isArray(skillSlots)) {
-    // Filter out empty slots (_skillHashId === -1) and map to active IDs
-    const equippedSkills = (skillSlots as SkillSlot[])
-      .filter((slot) => slot._skillHashId !== -1)
-      .map((slot) => slot._skillHashId);
+    // Filter out empty slots (_skillHashId === -1) and map to active IDs; malformed slots were reported by the schema.
+    const equippedSkills = skillSlots
+      .map((slot) => slot?._skillHashId)
+      .filter((id): id is number => typeof id === 'number' && id !== -1);
 
     skillIds.push(...equippedSkills);
-    console.log('Extracted Skills (Loadout):', skillIds);
   }
   // Note: Missing slots are not padded; the UI handles variable skill counts.
 
+  return { gameplayTime, careerRuns, skillIds: skillIds.slice(0, 5) };
+}
+
+/**
+ * Parses the raw save data to produce the finalized payload for database insertion.
+ * Assumes data has passed validation, and reads stats with the keys of the given save format.
+ * When `issues` is given, problems are appended and extraction continues on defaults;
+ * otherwise the first error is thrown as a SaveValidationError.
+ */
+export function extractDeathPayload(
+  data: PlayerSaveData,
+  { format = DEFAULT_FORMAT, issues }: { format?: SaveFormat; issues?: SaveIssue[] } = {}
+): ExtractedDeathPayload {
+  const report = createIssueSink(issues);
+  const keys = format.statKeys;
+  const {
+    level, damageTaken, lastRunDamageType,
+    lastRunKills, lastRunSoulstones, lastRunRegularKills, lastRunEliteKills, lastRunBossKills, lastRunGold,
+    lastRunDamageDealt, lastRunDuration
+  } = getLastRunStats(data, keys, report);
+  const runs = extractRunHistory(data.pastRunsData, keys);
+  const { totalGold, totalSoulstones, totalKills, totalEliteKills, totalBosses } = sumCareerStats(runs);
+
+  const { gameplayTime, careerRuns, skillIds } = extractCareerBasics(data, report);
+
   // Ensure Level is at least 1 for consistency
   const finalLevel = level > 0 ? level : 1;
 
@@ -216,7 +355,7 @@ export function extractDeathPayload(data: PlayerSaveData): ExtractedDeathPayload
     careerBosses: totalBosses,
     careerGold: totalGold,
     careerSoulstones: totalSoulstones,
-    skillIds: skillIds.slice(0, 5),
+    skillIds,
     lastRunKills,
     lastRunSoulstones,
     lastRunRegularKills,
@@ -226,5 +365,259 @@ export function extractDeathPayload(data: PlayerSaveData): ExtractedDeathPayload
     lastRunDamageDealt,
     lastRunDuration,
     lastRunDamageType,
+    runs,
   };
 }
+
+/**
+ * Numeric fields that must never be written in scientific notation.
+ * Full-file checks risk false positives on non-numeric strings (e.g. hashes).
+ */
+const NUMERIC_FIELDS_TO_CHECK = [
+  'LevelAchieved',
+  '_totalDamage',
+  'EnemiesDefeated',
+  'SoulStonesCollected',
+  'RegularEnemiesDefeated',
+  'EliteEnemiesDefeated',
+  'BossEnemiesDefeated',
+  'GoldGained',
+  'DamageDealt',
+  'RunTime',
+  'gameplayTime',
+  'cumulativeTotalRuns',
+  'EDamageTypeDefinition'
+];
+
+/** Hard caps applied to the extracted payload. */
+const MAX_LEVEL = 50;
+const MIN_DAMAGE_TAKEN = 1;
+
+/** Scans the raw text for scientific notation. Runs before JSON.parse, so issues point at the whole file. */
+function checkScientificNotation(text: string, report: IssueSink): void {
+  for (const key of NUMERIC_FIELDS_TO_CHECK) {
+    // Pattern: "Key" : (spaces) (number with e/E)
+    const regex = new RegExp(`"${key}"\\s*:\\s*[-]?\\d+(\\.\\d+)?[eE]`);
+    if (regex.test(text)) {
+      report({
+        code: 'SCIENTIFIC_NOTATION', severity: 'error', path: '', field: key,
+        message: `Scientific notation detected in field '${key}'. Please use standard numbers.`,
+      });
+    }
+  }
+}
+
+/** Rejects a level above the cap, pointing at the run it was read from. */
+function checkLevelCap(level: number, runIndex: number, keys: StatKeyMap, report: IssueSink): void {
+  if (level > MAX_LEVEL) {
+    report({
+      code: 'OUT_OF_RANGE', severity: 'error', path: `${runPath(runIndex)}.${runFieldPaths(keys).level}`,
+      value: level, limit: MAX_LEVEL, bound: 'max',
+      message: `Validation Error: Level cannot exceed ${MAX_LEVEL}.`,
+    });
+  }
+}
+
+/**
+ * Rejects negative values, pointing each issue at its source field.
+ * Career totals are sums of the runs, so checking each run plus the top-level counters covers every field.
+ */
+function checkNegativeValues(
+  career: { careerSeconds: number; careerRuns: number },
+  runs: ExtractedRunRecord[],
+  keys: StatKeyMap,
+  report: IssueSink
+): void {
+  const fieldPaths = runFieldPaths(keys);
+  const values: Array<{ path: string; value: number }> = [
+    { path: 'gameplayTime', value: career.careerSeconds },
+    { path: 'cumulativeTotalRuns', value: career.careerRuns },
+  ];
+  for (const run of runs) {
+    for (const [field, source] of Object.entries(fieldPaths)) {
+      values.push({ path: `${runPath(run.runIndex)}.${source}`, value: run[field as RunStatField] });
+    }
+  }
+  for (const { path, value } of values) {
+    if (value < 0) {
+      report({
+        code: 'NEGATIVE_VALUE', severity: 'error', path, value,
+        message: `Validation Error: Save file contains a negative value (${value}).`,
+      });
+    }
+  }
+}
+
+/** Applies the level/damage caps and rejects negative values. */
+function checkHardCaps(data: PlayerSaveData, payload: ExtractedDeathPayload, keys: StatKeyMap, report: IssueSink): void {
+  const lastIndex = data.pastRunsData.length - 1;
+  const lastRun = data.pastRunsData[lastIndex];
+
+  checkLevelCap(payload.level, lastIndex, keys, report);
+  // A save without damage history was already reported by extraction.
+  const damageInstances = lastRun?._lastDamageInstances;
+  const hasDamageHistory = Array.isArray(damageInstances) && damageInstances.length > 0;
+  if (hasDamageHistory && payload.damageTaken < MIN_DAMAGE_TAKEN) {
+    report({
+      code: 'OUT_OF_RANGE', severity: 'error',
+      path: `${runPath(lastIndex)}._lastDamageInstances[${damageInstances.length - 1}]._totalDamage`,
+      value: payload.damageTaken, limit: MIN_DAMAGE_TAKEN, bound: 'min',
+      message: `Validation Error: Damage taken must be at least ${MIN_DAMAGE_TAKEN}.`,
+    });
+  }
+  checkNegativeValues(payload, payload.runs, keys, report);
+}
+
+/** Scientific notation pre-check and JSON parsing. Returns undefined when the text is not valid JSON. */
+function parseSaveText(text: string, report: IssueSink): unknown {
+  checkScientificNotation(text, report);
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    report({ code: 'INVALID_JSON', severity: 'error', path: '', message: 'Invalid JSON.' });
+    return undefined;
+  }
+}
+
+export type ParseSaveResult =
+  | { ok: true; data: PlayerSaveData; format: SaveFormatId; payload: ExtractedDeathPayload; issues: SaveIssue[] }
+  | { ok: false; issues: SaveIssue[] };
+
+/**
+ * Full pipeline from raw PlayerSave.json text to a validated payload:
+ * scientific notation pre-check, JSON parsing, death validation, schema validation and format detection,
+ * version-specific extraction and hard caps.
+ * Collects every issue: a failed step does not stop the later ones while there is a run history to read,
+ * and an unrecognized format is read with the newest known keys. On success the returned issues are warnings only.
+ */
+export function parseSaveFile(text: string): ParseSaveResult {
+  const issues: SaveIssue[] = [];
+  const report = createIssueSink(issues);
+
+  const data = parseSaveText(text, report);
+  if (data === undefined) {
+    return { ok: false, issues };
+  }
+  if (!isSaveObject(data)) {
+    return { ok: false, issues: [...issues, ...validateSaveFile(data)] };
+  }
+
+  validateSaveFile(data).forEach(report);
+  const format = detectSaveFormat(data, report);
+  if (!hasRunHistory(data)) {
+    return { ok: false, issues };
+  }
+
+  const save = data as PlayerSaveData;
+  const readFormat = format ?? DEFAULT_FORMAT;
+  const keys = readFormat.statKeys;
+  const payload = extractDeathPayload(save, { format: readFormat, issues });
+  checkHardCaps(save, payload, keys, report);
+
+  if (!format || hasErrors(issues)) {
+    return { ok: false, issues };
+  }
+  return { ok: true, data: save, format: format.id, payload, issues };
+}
+
+// -----------------------------------------------------------------------------
+// Mausoleum (softcore and living characters)
+// -----------------------------------------------------------------------------
+
+/**
+ * Validates that the save belongs in the Mausoleum: any softcore character, or a hardcore one still alive.
+ * Hardcore deaths are turned away so the Graveyard rankings stay pure.
+ * Returns every problem found. A missing or mistyped pastRunsData is left to the schema (detectSaveFormat).
+ */
+export function validateArchiveSave(data: unknown): SaveIssue[] {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return [{ code: 'INVALID_STRUCTURE', severity: 'error', path: '', expected: 'object', message: 'Invalid save file: not an object.' }];
+  }
+
+  const d = data as Record<string, unknown>;
+  const issues: SaveIssue[] = [];
+
+  if (d.hardcoreModeEnabled === true && typeof d.cumulativeTotalDeaths === 'number' && d.cumulativeTotalDeaths > 0) {
+    issues.push({
+      code: 'BELONGS_IN_GRAVEYARD', severity: 'error', path: 'cumulativeTotalDeaths',
+      message: 'This Hardcore hero has fallen. Bury them in The Graveyard instead.',
+    });
+  }
+
+  if (Array.isArray(d.pastRunsData) && d.pastRunsData.length === 0) {
+    issues.push({
+      code: 'INVALID_STRUCTURE', severity: 'error', path: 'pastRunsData', expected: 'non-empty array',
+      message: 'pastRunsData is empty.',
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Parses the raw save data of a Mausoleum character.
+ * Level is the highest reached in any run, since a living character has no final run.
+ */
+export function extractArchivePayload(
+  data: PlayerSaveData,
+  { format = DEFAULT_FORMAT, issues }: { format?: SaveFormat; issues?: SaveIssue[] } = {}
+): ExtractedArchivePayload {
+  const report = createIssueSink(issues);
+  const runs = extractRunHistory(data.pastRunsData, format.statKeys);
+  const { totalGold, totalSoulstones, totalKills, totalEliteKills, totalBosses } = sumCareerStats(runs);
+  const { gameplayTime, careerRuns, skillIds } = extractCareerBasics(data, report);
+  const highestLevel = runs.reduce((max, run) => Math.max(max, run.level), 0);
+
+  return {
+    level: highestLevel > 0 ? highestLevel : 1,
+    isHardcore: data.hardcoreModeEnabled === true,
+    totalDeaths: data.cumulativeTotalDeaths,
+    careerSeconds: gameplayTime,
+    careerRuns,
+    careerKills: totalKills,
+    careerEliteKills: totalEliteKills,
+    careerBosses: totalBosses,
+    careerGold: totalGold,
+    careerSoulstones: totalSoulstones,
+    skillIds,
+    runs,
+  };
+}
+
+export type ParseArchiveResult =
+  | { ok: true; data: PlayerSaveData; format: SaveFormatId; payload: ExtractedArchivePayload; issues: SaveIssue[] }
+  | { ok: false; issues: SaveIssue[] };
+
+/** Mausoleum counterpart of parseSaveFile: same checks, archive validation and extraction. */
+export function parseArchiveFile(text: string): ParseArchiveResult {
+  const issues: SaveIssue[] = [];
+  const report = createIssueSink(issues);
+
+  const data = parseSaveText(text, report);
+  if (data === undefined) {
+    return { ok: false, issues };
+  }
+
+  if (!isSaveObject(data)) {
+    return { ok: false, issues: [...issues, ...validateArchiveSave(data)] };
+  }
+
+  validateArchiveSave(data).forEach(report);
+  const format = detectSaveFormat(data, report);
+  if (!hasRunHistory(data)) {
+    return { ok: false, issues };
+  }
+
+  const save = data as PlayerSaveData;
+  const readFormat = format ?? DEFAULT_FORMAT;
+  const keys = readFormat.statKeys;
+  const payload = extractArchivePayload(save, { format: readFormat, issues });
+  const bestRun = payload.runs.reduce((best, run) => (run.level > best.level ? run : best), payload.runs[0]!);
+  checkLevelCap(payload.level, bestRun.runIndex, keys, report);
+  checkNegativeValues(payload, payload.runs, keys, report);
+
+  if (!format || hasErrors(issues)) {
+    return { ok: false, issues };
+  }
+  return { ok: true, data: save, format: format.id, payload, issues };
+}
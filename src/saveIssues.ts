@@ -0,0 +1,84 @@
+/**
+ * Hell Clock — Structured problems found while validating and extracting a save file.
+ * Every issue carries a machine-readable code, a JSON path into the save and a severity,
+ * so the parser can collect all of them instead of stopping at the first.
+ */
+
+export type SaveIssueSeverity = 'error' | 'warning';
+
+interface SaveIssueBase {
+  /** Location in the save, e.g. `pastRunsData[12]._statAggregators.RunTime`. Empty for the file as a whole. */
+  path: string;
+  message: string;
+}
+
+export type SaveIssue = SaveIssueBase & (
+  | { code: 'INVALID_JSON'; severity: 'error' }
+  | { code: 'SCIENTIFIC_NOTATION'; severity: 'error'; field: string }
+  | { code: 'INVALID_STRUCTURE'; severity: 'error'; expected: string }
+  | { code: 'UNSUPPORTED_FORMAT'; severity: 'error'; knownFormats: string[] }
+  | { code: 'NOT_HARDCORE'; severity: 'error' }
+  | { code: 'NO_DEATH'; severity: 'error'; deaths: unknown }
+  | { code: 'BELONGS_IN_GRAVEYARD'; severity: 'error' }
+  | { code: 'MISSING_FIELD'; severity: 'error'; field: string }
+  | { code: 'NO_DAMAGE_HISTORY'; severity: 'error' }
+  | { code: 'OUT_OF_RANGE'; severity: 'error'; value: number; limit: number; bound: 'min' | 'max' }
+  | { code: 'NEGATIVE_VALUE'; severity: 'error'; value: number }
+  | { code: 'DEFAULTED_FIELD'; severity: 'warning'; field: string; defaultValue: number }
+  | { code: 'STAT_KEY_NOT_FOUND'; severity: 'warning'; field: string }
+);
+
+export type SaveIssueCode = SaveIssue['code'];
+
+/** Thrown by the parser when it is not collecting issues and hits an error. */
+export class SaveValidationError extends Error {
+  readonly issues: SaveIssue[];
+
+  constructor(issues: SaveIssue[]) {
+    super(issues[0]?.message ?? 'Invalid save file.');
+    this.name = 'SaveValidationError';
+    this.issues = issues;
+  }
+}
+
+/** Receives every issue found during parsing. */
+export type IssueSink = (issue: SaveIssue) => void;
+
+/**
+ * Creates the sink used by the parser.
+ * With an array, issues are appended and parsing continues on defaults; without one, the first error is thrown.
+ */
+export function createIssueSink(collected?: SaveIssue[]): IssueSink {
+  return (issue) => {
+    if (collected) {
+      collected.push(issue);
+      return;
+    }
+    if (issue.severity === 'error') throw new SaveValidationError([issue]);
+  };
+}
+
+export function hasErrors(issues: SaveIssue[]): boolean {
+  return issues.some((issue) => issue.severity === 'error');
+}
+
+/** Human-readable section of the save an issue belongs to, used to group issues in the UI. */
+export function describeIssueLocation(path: string): string {
+  if (path === '') return 'Whole file';
+  const run = /^pastRunsData\[(\d+)\]/.exec(path);
+  if (run) return `Run ${Number(run[1]) + 1}`;
+  if (path.startsWith('pastRunsData')) return 'Run history';
+  return 'Character';
+}
+
+/** Groups issues by location, preserving the order in which each location was first reported. */
+export function groupIssuesByLocation(issues: SaveIssue[]): Array<{ location: string; issues: SaveIssue[] }> {
+  const groups = new Map<string, SaveIssue[]>();
+  for (const issue of issues) {
+    const location = describeIssueLocation(issue.path);
+    const group = groups.get(location);
+    if (group) group.push(issue);
+    else groups.set(location, [issue]);
+  }
+  return Array.from(groups, ([location, grouped]) => ({ location, issues: grouped }));
+}
@@ -0,0 +1,72 @@
+/**
+ * Hell Clock — Web Worker that reads, validates, extracts and hashes save files off the UI thread,
+ * so large saves do not freeze the fog and lighting animations while they are checked.
+ * Driven by `parseSavesInWorker` (lib/saveWorker.ts); one worker handles one batch, then is terminated.
+ */
+
+import { parseSaveFile } from './saveFileParser';
+import { buildSkillDamageProfiles, evaluatePlausibility, type PlausibilityReport } from './plausibilityRules';
+import { generateDeathFingerprint } from './lib/hash';
+import type { SaveIssue } from './saveIssues';
+import type { ExtractedDeathPayload } from './types';
+import skillsData from './assets/Skills.json';
+
+/** Where a file is in its trip through the worker. */
+export type ParseStage = 'reading' | 'validating' | 'hashing';
+
+export interface ParseRequest {
+  files: Array<{ path: string; file: File }>;
+}
+
+/** Local verdict on one save. `fingerprint` and `payload` are null when the save was rejected. */
+export interface ParsedSave {
+  path: string;
+  rawJson: string;
+  fingerprint: string | null;
+  issues: SaveIssue[];
+  payload: ExtractedDeathPayload | null;
+  plausibility: PlausibilityReport | null;
+}
+
+export type ParseResponse =
+  | { type: 'progress'; completed: number; total: number; path: string; stage: ParseStage }
+  | { type: 'parsed'; save: ParsedSave }
+  | { type: 'done' }
+  | { type: 'failed'; message: string };
+
+const skillProfiles = buildSkillDamageProfiles(skillsData.Skills);
+
+function post(response: ParseResponse): void {
+  self.postMessage(response);
+}
+
+async function parseOne(path: string, file: File, report: (stage: ParseStage) => void): Promise<ParsedSave> {
+  report('reading');
+  const rawJson = await file.text();
+
+  report('validating');
+  const result = parseSaveFile(rawJson);
+  if (!result.ok) {
+    return { path, rawJson, fingerprint: null, issues: result.issues, payload: null, plausibility: null };
+  }
+  const plausibility = evaluatePlausibility(result.payload, skillProfiles);
+
+  report('hashing');
+  const fingerprint = await generateDeathFingerprint(result.payload);
+  return { path, rawJson, fingerprint, issues: result.issues, payload: result.payload, plausibility };
+}
+
+self.addEventListener('message', async (event: MessageEvent<ParseRequest>) => {
+  const { files } = event.data;
+  try {
+    for (const [idx, { path, file }] of files.entries()) {
+      const save = await parseOne(path, file, (stage) =>
+        post({ type: 'progress', completed: idx, total: files.length, path, stage })
+      );
+      post({ type: 'parsed', save });
+    }
+    post({ type: 'done' });
+  } catch (err: unknown) {
+    post({ type: 'failed', message: err instanceof Error ? err.message : 'Could not read the save files.' });
+  }
+});
@@ -0,0 +1,222 @@
+/**
+ * Hell Clock — Runtime schema and format detection for PlayerSave.json.
+ * The interfaces in types.ts are compile-time only; this layer checks the actual structure of an upload
+ * and detects which save-format version wrote it, so a game patch that renames a stat key is caught
+ * instead of silently zeroing stats.
+ * Shared by the browser and the `bury-hero` Edge Function.
+ */
+
+import type { IssueSink } from './saveIssues.ts';
+import type { SerializedStat } from './types.ts';
+
+// -----------------------------------------------------------------------------
+// Schema description
+// -----------------------------------------------------------------------------
+
+type Schema =
+  | { kind: 'number' }
+  | { kind: 'boolean' }
+  | { kind: 'string' }
+  | { kind: 'array'; items: Schema }
+  | { kind: 'object'; properties: Record<string, PropertySchema> };
+
+interface PropertySchema {
+  schema: Schema;
+  required: boolean;
+}
+
+const num = (): Schema => ({ kind: 'number' });
+const bool = (): Schema => ({ kind: 'boolean' });
+const str = (): Schema => ({ kind: 'string' });
+const arrayOf = (items: Schema): Schema => ({ kind: 'array', items });
+const object = (properties: Record<string, PropertySchema>): Schema => ({ kind: 'object', properties });
+const required = (schema: Schema): PropertySchema => ({ schema, required: true });
+const optional = (schema: Schema): PropertySchema => ({ schema, required: false });
+
+function describe(schema: Schema): string {
+  switch (schema.kind) {
+    case 'array': return `array of ${describe(schema.items)}`;
+    default: return schema.kind;
+  }
+}
+
+function joinPath(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key;
+}
+
+/**
+ * Checks a value against a schema, reporting every mismatch with its JSON path.
+ * Properties not listed in the schema are ignored: the game writes far more than The Graveyard reads.
+ */
+function validateAgainstSchema(value: unknown, schema: Schema, path: string, report: IssueSink): void {
+  switch (schema.kind) {
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        report({ code: 'INVALID_STRUCTURE', severity: 'error', path, expected: 'number', message: `Expected a number at '${path}'.` });
+      }
+      return;
+    case 'boolean':
+    case 'string':
+      if (typeof value !== schema.kind) {
+        report({ code: 'INVALID_STRUCTURE', severity: 'error', path, expected: schema.kind, message: `Expected a ${schema.kind} at '${path}'.` });
+      }
+      return;
+    case 'array':
+      if (!Array.isArray(value)) {
+        report({ code: 'INVALID_STRUCTURE', severity: 'error', path, expected: describe(schema), message: `Expected an array at '${path}'.` });
+        return;
+      }
+      value.forEach((item, idx) => validateAgainstSchema(item, schema.items, `${path}[${idx}]`, report));
+      return;
+    case 'object': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        report({ code: 'INVALID_STRUCTURE', severity: 'error', path, expected: 'object', message: `Expected an object at '${path || 'root'}'.` });
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      for (const [key, prop] of Object.entries(schema.properties)) {
+        const childPath = joinPath(path, key);
+        if (record[key] === undefined || record[key] === null) {
+          if (prop.required) {
+            report({ code: 'MISSING_FIELD', severity: 'error', path: childPath, field: key, message: `Validation Error: Missing required field '${key}'.` });
+          }
+          continue;
+        }
+        validateAgainstSchema(record[key], prop.schema, childPath, report);
+      }
+      return;
+    }
+  }
+}
+
+// -----------------------------------------------------------------------------
+// PlayerSaveData schema
+// -----------------------------------------------------------------------------
+
+const serializedList = object({
+  _serializedList: optional(arrayOf(object({ Key: required(str()), Value: required(num()) }))),
+});
+
+const damageInstance = object({
+  _totalDamage: optional(num()),
+  _damageBases: optional(arrayOf(object({ EDamageTypeDefinition: optional(num()) }))),
+});
+
+const pastRun = object({
+  _statCounters: optional(serializedList),
+  _statAggregators: optional(serializedList),
+  _lastDamageInstances: optional(arrayOf(damageInstance)),
+});
+
+const playerSave = object({
+  hardcoreModeEnabled: required(bool()),
+  gameplayTime: required(num()),
+  cumulativeTotalRuns: required(num()),
+  cumulativeTotalDeaths: required(num()),
+  pastRunsData: required(arrayOf(pastRun)),
+  skillSlots: optional(arrayOf(object({ _skillHashId: required(num()) }))),
+});
+
+// -----------------------------------------------------------------------------
+// Save-format versions
+// -----------------------------------------------------------------------------
+
+/** Raw keys of the stats read from each run's serialized lists. */
+export interface StatKeyMap {
+  // _statCounters
+  level: string;
+  kills: string;
+  regularKills: string;
+  eliteKills: string;
+  bossKills: string;
+  soulstones: string;
+  // _statAggregators
+  gold: string;
+  damageDealt: string;
+  runTime: string;
+}
+
+export type SaveFormatId = 'serialized-list-v1';
+
+export interface SaveFormat {
+  id: SaveFormatId;
+  description: string;
+  statKeys: StatKeyMap;
+  /** Marker check: does this format's vocabulary appear in the save? */
+  detect(data: Record<string, unknown>): boolean;
+}
+
+function counterLists(data: Record<string, unknown>): SerializedStat[][] {
+  const runs = Array.isArray(data.pastRunsData) ? data.pastRunsData : [];
+  return runs
+    .map((run) => (run as { _statCounters?: { _serializedList?: unknown } })?._statCounters?._serializedList)
+    .filter((list): list is SerializedStat[] => Array.isArray(list));
+}
+
+const SERIALIZED_LIST_V1: SaveFormat = {
+  id: 'serialized-list-v1',
+  description: 'Serialized Key/Value stat lists with LevelAchieved / RunTime keys',
+  statKeys: {
+    level: 'LevelAchieved',
+    kills: 'EnemiesDefeated',
+    regularKills: 'RegularEnemiesDefeated',
+    eliteKills: 'EliteEnemiesDefeated',
+    bossKills: 'BossEnemiesDefeated',
+    soulstones: 'SoulStonesCollected',
+    gold: 'GoldGained',
+    damageDealt: 'DamageDealt',
+    runTime: 'RunTime',
+  },
+  detect(data) {
+    return counterLists(data).some((list) => list.some((stat) => stat?.Key === this.statKeys.level));
+  },
+};
+
+/**
+ * Known formats, newest first. A game patch that renames stat keys gets its own entry
+ * (with its own markers and key map) instead of editing an existing one.
+ */
+export const SAVE_FORMATS: SaveFormat[] = [SERIALIZED_LIST_V1];
+
+/**
+ * Counters nearly every run records. Rarer stats (bosses, elites, gold...) may legitimately stay absent
+ * for a whole short career, so only these are checked for silent renames.
+ */
+const GUARDED_STATS: Array<keyof StatKeyMap> = ['kills', 'regularKills'];
+
+/**
+ * Validates the save structure and detects its format.
+ * Every structural problem is reported, but detection carries on with the fields that are there, so the caller
+ * can still extract and check the rest of the save. Returns null when no known format matches.
+ */
+export function detectSaveFormat(data: unknown, report: IssueSink): SaveFormat | null {
+  validateAgainstSchema(data, playerSave, '', report);
+  // Without an object or a run history there are no markers to look for; their absence is reported on its own.
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return null;
+  const record = data as Record<string, unknown>;
+  if (!Array.isArray(record.pastRunsData) || record.pastRunsData.length === 0) return null;
+
+  const format = SAVE_FORMATS.find((candidate) => candidate.detect(record));
+  if (!format) {
+    report({
+      code: 'UNSUPPORTED_FORMAT', severity: 'error', path: 'pastRunsData',
+      knownFormats: SAVE_FORMATS.map((f) => f.id),
+      message: 'Unrecognized save format: no known stat keys found. The game may have been updated since The Graveyard last was.',
+    });
+    return null;
+  }
+
+  // Guard against partial renames: a common counter that never appears in any run is more likely renamed than zero.
+  const seenKeys = new Set(counterLists(record).flat().map((stat) => stat?.Key));
+  for (const stat of GUARDED_STATS) {
+    const key = format.statKeys[stat];
+    if (!seenKeys.has(key)) {
+      report({
+        code: 'STAT_KEY_NOT_FOUND', severity: 'warning', path: 'pastRunsData', field: key,
+        message: `Stat '${key}' was not found in any run and will be recorded as 0.`,
+      });
+    }
+  }
+
+  return format;
+}
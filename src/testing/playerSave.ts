@@ -0,0 +1,83 @@
+/**
+ * Test fixtures: a plausible Hardcore PlayerSave.json (three runs, died in the last one) and builders for variations of it.
+ * Shared by the parser, plausibility and `bury-hero` handler tests.
+ */
+
+import type { PastRunData, PlayerSaveData } from '../types.ts';
+
+export interface RunFixture {
+  level: number;
+  kills: number;
+  regularKills: number;
+  eliteKills: number;
+  bossKills: number;
+  soulstones: number;
+  gold: number;
+  damageDealt: number;
+  runTime: number;
+  /** Killing blow of the run; null for a run that never took damage. */
+  damageType: number | null;
+  damageTaken: number;
+}
+
+const DEFAULT_RUN: RunFixture = {
+  level: 10,
+  kills: 200,
+  regularKills: 196,
+  eliteKills: 3,
+  bossKills: 1,
+  soulstones: 5,
+  gold: 1000,
+  damageDealt: 50000,
+  runTime: 900,
+  damageType: 0,
+  damageTaken: 120,
+};
+
+/** One pastRunsData entry in the serialized-list-v1 format. */
+export function buildRun(overrides: Partial<RunFixture> = {}): PastRunData {
+  const run = { ...DEFAULT_RUN, ...overrides };
+  return {
+    _statCounters: {
+      _serializedList: [
+        { Key: 'LevelAchieved', Value: run.level },
+        { Key: 'EnemiesDefeated', Value: run.kills },
+        { Key: 'RegularEnemiesDefeated', Value: run.regularKills },
+        { Key: 'EliteEnemiesDefeated', Value: run.eliteKills },
+        { Key: 'BossEnemiesDefeated', Value: run.bossKills },
+        { Key: 'SoulStonesCollected', Value: run.soulstones },
+      ],
+    },
+    _statAggregators: {
+      _serializedList: [
+        { Key: 'GoldGained', Value: run.gold },
+        { Key: 'DamageDealt', Value: run.damageDealt },
+        { Key: 'RunTime', Value: run.runTime },
+      ],
+    },
+    _lastDamageInstances: run.damageType === null
+      ? []
+      : [{ _totalDamage: run.damageTaken, _damageBases: [{ EDamageTypeDefinition: run.damageType }] }],
+  };
+}
+
+export function buildSave(overrides: Partial<PlayerSaveData> = {}): PlayerSaveData {
+  return {
+    hardcoreModeEnabled: true,
+    gameplayTime: 7200,
+    cumulativeTotalRuns: 3,
+    cumulativeTotalDeaths: 1,
+    pastRunsData: [
+      buildRun({ level: 10, runTime: 900, damageType: null }),
+      buildRun({ level: 20, kills: 400, regularKills: 396, runTime: 1500, damageType: 1 }),
+      buildRun({ level: 25, kills: 500, regularKills: 496, runTime: 1800, damageType: 2 }),
+    ],
+    skillSlots: [{ _skillHashId: 1 }, { _skillHashId: 2 }, { _skillHashId: -1 }],
+    ...overrides,
+  };
+}
+
+/** The save as the game writes it: pretty-printed JSON. */
+export function saveText(save: unknown = buildSave()): string {
+  return JSON.stringify(save, null, 2);
+}
@@ -1,12 +1,18 @@
 // types.ts
 // Shared TypeScript interfaces for Save File Parsing (UploadCrypt) and Database Records (Tombstone).
 
+/** One entry of the game's serialized dictionary format: `{ "Key": "RunTime", "Value": 812.4 }`. */
+export interface SerializedStat {
+  Key: string;
+  Value: number;
+}
+
 export interface StatCounters {
-  [key: string]: number;
+  _serializedList?: SerializedStat[];
 }
 
 export interface StatAggregators {
-  [key: string]: number;
+  _serializedList?: SerializedStat[];
 }
 
 export interface DamageBase {
@@ -32,16 +38,41 @@ export interface PastRunData {
   [key: string]: unknown;
 }
 
+export interface SkillSlot {
+  _skillHashId: number; // -1 for an empty slot
+  [key: string]: unknown;
+}
+
+/**
+ * Static mirror of the runtime schema in saveSchema.ts.
+ * Only the fields The Graveyard reads are listed; the game writes many more.
+ */
 export interface PlayerSaveData {
   hardcoreModeEnabled: boolean;
   gameplayTime: number;
   cumulativeTotalRuns: number;
   cumulativeTotalDeaths: number;
   pastRunsData: PastRunData[];
+  skillSlots?: SkillSlot[];
   _skillAndLevels?: SkillAndLevel[];
   [key: string]: unknown;
 }
 
+/** Stats for a single entry of pastRunsData, in the order the runs were played. */
+export interface ExtractedRunRecord {
+  runIndex: number; // Position within pastRunsData (0 = first run)
+  level: number;
+  kills: number;
+  regularKills: number;
+  eliteKills: number;
+  bossKills: number;
+  gold: number;
+  soulstones: number;
+  damageDealt: number;
+  runTime: number;
+  damageType: number | null; // Killing blow type, null when the run took no damage
+}
+
 /** Validated payload structure ready for database insertion. */
 export interface ExtractedDeathPayload {
   level: number;
@@ -64,6 +95,24 @@ export interface ExtractedDeathPayload {
   lastRunDamageDealt: number;
   lastRunDuration: number;
   lastRunDamageType: number; // 0=Physical, 1=Fire, 2=Plague, 3=Lightning
+  // Full career timeline (one entry per past run, final run last)
+  runs: ExtractedRunRecord[];
+}
+
+/** Validated payload of a softcore or still-living character, ready for the Mausoleum. */
+export interface ExtractedArchivePayload {
+  level: number; // Highest level reached in any run
+  isHardcore: boolean;
+  totalDeaths: number; // Always 0 for Hardcore (living) characters
+  careerSeconds: number;
+  careerRuns: number;
+  careerKills: number;
+  careerEliteKills: number;
+  careerBosses: number;
+  careerGold: number;
+  careerSoulstones: number;
+  skillIds: number[];
+  runs: ExtractedRunRecord[];
 }
 
 /** 
@@ -75,11 +124,12 @@ export interface DeathRecord {
   user_id: string;
   character_name: string;
   mourned_by?: string | null;
+  epitaph: string | null; // Optional line engraved on the stone, editable by the owner
   level: number;
   damage_taken: number | null;
-  career_seconds: number | null;
+  career_seconds: number;
   career_runs: number | null;
-  career_kills: number | null;
+  career_kills: number;
   career_elite_kills: number | null;
   career_bosses: number | null;
   career_gold: number | null;
@@ -87,8 +137,12 @@ export interface DeathRecord {
   is_hardcore: boolean;
   death_date: string;
   unique_hash: string;
+  fingerprint: string | null; // Canonical death fingerprint; null for heroes buried before it existed
   respects_paid: number;
   report_count: number;
+  review_status: 'approved' | 'pending' | 'rejected'; // Set by the plausibility engine / moderators
+  review_reasons: string[];
+  reviewed_at: string | null; // Last moderator verdict; reports before it no longer count towards hiding
   skill_ids: number[] | null; // Top 3 skills
   // NEW: Last run columns
   last_run_kills: number | null;
@@ -101,3 +155,84 @@ export interface DeathRecord {
   last_run_damage_dealt: number | null;
   last_run_duration: number | null;
 }
+
+/**
+ * Represents one candle in the supabase 'death_respects' table: who paid respects to a death, and when.
+ * Rows are written only by the pay_respects / take_back_respects RPCs.
+ */
+export interface DeathRespectRecord {
+  id: string;
+  death_id: string;
+  user_id: string;
+  mourner_name: string | null; // Null for respects paid before names were kept
+  created_at: string;
+}
+
+/**
+ * Represents a message in the supabase 'death_condolences' table, left under a hero by a signed-in user.
+ * Rows are written only by the post-condolence Edge Function; the author or the hero's owner can delete them.
+ */
+export interface DeathCondolenceRecord {
+  id: string;
+  death_id: string;
+  user_id: string;
+  author_name: string;
+  body: string;
+  created_at: string;
+}
+
+/**
+ * Represents a single past run in the supabase 'death_runs' table.
+ * Child rows of a DeathRecord, used for the career timeline.
+ */
+export interface DeathRunRecord {
+  id: string;
+  death_id: string;
+  run_index: number;
+  level: number;
+  kills: number;
+  regular_kills: number;
+  elite_kills: number;
+  boss_kills: number;
+  gold: number;
+  soulstones: number;
+  damage_dealt: number;
+  run_time: number;
+  damage_type: number | null;
+}
+
+/**
+ * Represents a softcore or still-living character in the supabase 'mausoleum' table.
+ * Kept apart from 'deaths' so the Hardcore rankings stay pure. Used for rendering MausoleumCard.
+ */
+export interface MausoleumRecord {
+  id: string;
+  user_id: string;
+  character_name: string;
+  kept_by: string | null;
+  level: number;
+  is_hardcore: boolean;
+  total_deaths: number;
+  career_seconds: number | null;
+  career_runs: number | null;
+  career_kills: number | null;
+  career_elite_kills: number | null;
+  career_bosses: number | null;
+  career_gold: number | null;
+  career_soulstones: number | null;
+  skill_ids: number[] | null;
+  archived_at: string;
+  unique_hash: string;
+}
+
+/**
+ * Represents a signed-in user in the supabase 'profiles' table, mirrored from their Discord metadata.
+ * Used for the mourner pages (`/mourner/:id`).
+ */
+export interface ProfileRecord {
+  id: string;
+  display_name: string;
+  avatar_url: string | null;
+  created_at: string;
+  updated_at: string;
+}
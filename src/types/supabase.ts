@@ -1,4 +1,4 @@
-/** Supabase generated types for `deaths` table (minimal for client). */
+/** Supabase generated types for the tables, the census views and the RPCs (minimal for client). */
 export interface Database {
   public: {
     Tables: {
@@ -7,21 +7,34 @@ export interface Database {
           id: string;
           user_id: string;
           character_name: string;
+          mourned_by: string | null;
+          epitaph: string | null;
           class_id: number;
           level: number;
           damage_taken: number | null;
-          career_seconds: number | null;
+          career_seconds: number;
           career_runs: number | null;
-          career_kills: number | null;
+          career_kills: number;
+          career_elite_kills: number | null;
           career_bosses: number | null;
           career_gold: number | null;
           career_soulstones: number | null;
           is_hardcore: boolean;
           death_date: string;
           unique_hash: string;
+          fingerprint: string | null;
           respects_paid: number;
           report_count: number;
+          review_status: 'approved' | 'pending' | 'rejected';
+          review_reasons: string[];
+          reviewed_at: string | null;
           skill_ids: number[] | null;
+          last_run_kills: number | null;
+          last_run_soulstones: number | null;
+          last_run_regular_kills: number | null;
+          last_run_elite_kills: number | null;
+          last_run_boss_kills: number | null;
+          last_run_gold: number | null;
           last_run_damage_dealt: number | null;
           last_run_duration: number | null;
           last_run_damage_type: number | null;
@@ -30,26 +43,239 @@ export interface Database {
           id?: string;
           user_id: string;
           character_name: string;
-          class_id: number;
+          mourned_by?: string | null;
+          epitaph?: string | null;
+          class_id?: number;
           level: number;
           damage_taken?: number | null;
-          career_seconds?: number | null;
+          career_seconds?: number;
           career_runs?: number | null;
-          career_kills?: number | null;
+          career_kills?: number;
+          career_elite_kills?: number | null;
           career_bosses?: number | null;
           career_gold?: number | null;
           career_soulstones?: number | null;
           is_hardcore?: boolean;
           death_date?: string;
           unique_hash: string;
+          fingerprint?: string | null;
           respects_paid?: number;
           report_count?: number;
+          review_status?: 'approved' | 'pending' | 'rejected';
+          review_reasons?: string[];
+          reviewed_at?: string | null;
+          skill_ids?: number[] | null;
+          last_run_kills?: number | null;
+          last_run_soulstones?: number | null;
+          last_run_regular_kills?: number | null;
+          last_run_elite_kills?: number | null;
+          last_run_boss_kills?: number | null;
+          last_run_gold?: number | null;
           last_run_damage_dealt?: number | null;
           last_run_duration?: number | null;
           last_run_damage_type?: number | null;
         };
         Update: Partial<Database['public']['Tables']['deaths']['Insert']>;
       };
+      death_runs: {
+        Row: {
+          id: string;
+          death_id: string;
+          run_index: number;
+          level: number;
+          kills: number;
+          regular_kills: number;
+          elite_kills: number;
+          boss_kills: number;
+          gold: number;
+          soulstones: number;
+          damage_dealt: number;
+          run_time: number;
+          damage_type: number | null;
+        };
+        Insert: {
+          id?: string;
+          death_id: string;
+          run_index: number;
+          level?: number;
+          kills?: number;
+          regular_kills?: number;
+          elite_kills?: number;
+          boss_kills?: number;
+          gold?: number;
+          soulstones?: number;
+          damage_dealt?: number;
+          run_time?: number;
+          damage_type?: number | null;
+        };
+        Update: Partial<Database['public']['Tables']['death_runs']['Insert']>;
+      };
+      mausoleum: {
+        Row: {
+          id: string;
+          user_id: string;
+          character_name: string;
+          kept_by: string | null;
+          level: number;
+          is_hardcore: boolean;
+          total_deaths: number;
+          career_seconds: number | null;
+          career_runs: number | null;
+          career_kills: number | null;
+          career_elite_kills: number | null;
+          career_bosses: number | null;
+          career_gold: number | null;
+          career_soulstones: number | null;
+          skill_ids: number[] | null;
+          archived_at: string;
+          unique_hash: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          character_name: string;
+          kept_by?: string | null;
+          level: number;
+          is_hardcore: boolean;
+          total_deaths?: number;
+          career_seconds?: number | null;
+          career_runs?: number | null;
+          career_kills?: number | null;
+          career_elite_kills?: number | null;
+          career_bosses?: number | null;
+          career_gold?: number | null;
+          career_soulstones?: number | null;
+          skill_ids?: number[] | null;
+          archived_at?: string;
+          unique_hash: string;
+        };
+        Update: Partial<Database['public']['Tables']['mausoleum']['Insert']>;
+      };
+      death_respects: {
+        Row: {
+          id: string;
+          death_id: string;
+          user_id: string;
+          mourner_name: string | null;
+          created_at: string;
+        };
+        Insert: never;
+        Update: never;
+      };
+      death_reports: {
+        Row: {
+          id: string;
+          death_id: string;
+          user_id: string;
+          reason: 'offensive_name' | 'fake_save' | 'duplicate';
+          created_at: string;
+        };
+        Insert: never;
+        Update: never;
+      };
+      death_condolences: {
+        Row: {
+          id: string;
+          death_id: string;
+          user_id: string;
+          author_name: string;
+          body: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          death_id: string;
+          user_id: string;
+          author_name: string;
+          body: string;
+          created_at?: string;
+        };
+        Update: never;
+      };
+      moderators: {
+        Row: {
+          user_id: string;
+          granted_at: string;
+        };
+        Insert: never;
+        Update: never;
+      };
+      profiles: {
+        Row: {
+          id: string;
+          display_name: string;
+          avatar_url: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: never;
+        Update: never;
+      };
+    };
+    Views: {
+      census_deaths_per_day: {
+        Row: { day: string; deaths: number };
+      };
+      census_levels: {
+        Row: { level: number; deaths: number };
+      };
+      census_damage_types: {
+        Row: { damage_type: number; deaths: number };
+      };
+      census_summary: {
+        Row: {
+          total_deaths: number;
+          median_career_seconds: number | null;
+          /** numeric: PostgREST sends it as a string. */
+          average_runs: string | null;
+          average_level: string | null;
+        };
+      };
+    };
+    Functions: {
+      bury_death: {
+        Args: {
+          p_death: Database['public']['Tables']['deaths']['Insert'];
+          p_runs: Omit<Database['public']['Tables']['death_runs']['Insert'], 'death_id'>[];
+        };
+        Returns: string;
+      };
+      graveyard_page: {
+        Args: {
+          p_sort?: string;
+          p_search?: string | null;
+          p_cursor_value?: string | null;
+          p_cursor_id?: string | null;
+          p_limit?: number;
+        };
+        Returns: Database['public']['Tables']['deaths']['Row'][];
+      };
+      pay_respects: {
+        Args: { row_id: string };
+        Returns: number;
+      };
+      take_back_respects: {
+        Args: { row_id: string };
+        Returns: number;
+      };
+      report_death: {
+        Args: { p_death_id: string; p_reason: Database['public']['Tables']['death_reports']['Row']['reason'] };
+        Returns: boolean;
+      };
+      moderate_death: {
+        Args: { p_death_id: string; p_action: 'restore' | 'remove' };
+        Returns: undefined;
+      };
+      mourner_stats: {
+        Args: { p_user_id: string };
+        Returns: {
+          total_deaths: number;
+          average_level: number | null;
+          total_respects: number;
+          deadliest_damage_type: number | null;
+          favorite_skills: number[];
+        }[];
+      };
     };
   };
 }
@@ -0,0 +1,18 @@
+/**
+ * The slice of the Deno runtime the Edge Functions use, so `tsc -b` can check them (tsconfig.functions.json).
+ * Deno never loads this file: it only follows imports, and brings its own `Deno` namespace.
+ */
+
+declare global {
+  namespace Deno {
+    interface Env {
+      get(key: string): string | undefined;
+    }
+
+    const env: Env;
+
+    function serve(handler: (request: Request) => Response | Promise<Response>): unknown;
+  }
+}
+
+export {};
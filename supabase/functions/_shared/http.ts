@@ -0,0 +1,52 @@
+/**
+ * Shared HTTP plumbing for the Edge Functions: CORS, JSON responses and caller authentication.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? '';
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+export function json(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/** The signed-in caller, with the display name stored alongside their uploads. */
+export interface Caller {
+  userId: string;
+  displayName: string;
+}
+
+/** Resolves the caller from the request JWT, or null when signed out. */
+export async function getCaller(req: Request): Promise<Caller | null> {
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) return null;
+
+  const userClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    global: { headers: { Authorization: authHeader } },
+  });
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) return null;
+
+  return {
+    userId: user.id,
+    displayName: user.user_metadata?.username || user.email?.split('@')[0] || 'Unknown Soul',
+  };
+}
+
+/** Service-role client: bypasses RLS, so only ever used after validating the upload. */
+export function createAdminClient() {
+  return createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false },
+  });
+}
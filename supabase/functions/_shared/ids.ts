@@ -0,0 +1,10 @@
+/**
+ * Shared request checks for the Edge Functions. Free of Deno and of the database client, so handlers can use them under test.
+ */
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Whether `value` is a uuid, checked before it reaches a uuid column (Postgres would answer with a 500-worthy error). */
+export function isUuid(value: unknown): value is string {
+  return typeof value === 'string' && UUID.test(value);
+}
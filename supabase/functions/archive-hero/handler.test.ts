@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { buildSave, saveText } from '../../../src/testing/playerSave.ts';
+import { archiveHero, type ArchiveStore, type MausoleumInsertRow } from './handler.ts';
+
+const keeper = { userId: 'user-1', keptBy: 'Curator' };
+
+/** Rejects a second entry with the same unique_hash, like the `mausoleum` table. */
+function createStore(): ArchiveStore & { rows: MausoleumInsertRow[] } {
+  const rows: MausoleumInsertRow[] = [];
+  return {
+    rows,
+    async insertEntry(row) {
+      if (rows.some((stored) => stored.unique_hash === row.unique_hash)) return { status: 'duplicate' };
+      rows.push(row);
+      return { status: 'inserted', id: `entry-${rows.length}` };
+    },
+  };
+}
+
+describe('archiveHero', () => {
+  it('enshrines a softcore character, however often it died', async () => {
+    const store = createStore();
+    const rawSave = saveText(buildSave({ hardcoreModeEnabled: false, cumulativeTotalDeaths: 4 }));
+    const result = await archiveHero({ rawSave, characterName: 'Softie' }, keeper, store);
+
+    expect(result).toEqual({ status: 201, body: { id: 'entry-1' } });
+    expect(store.rows[0]).toMatchObject({
+      user_id: 'user-1',
+      kept_by: 'Curator',
+      character_name: 'Softie',
+      level: 25,
+      is_hardcore: false,
+      total_deaths: 4,
+    });
+  });
+
+  it('enshrines a Hardcore character that is still alive', async () => {
+    const store = createStore();
+    const rawSave = saveText(buildSave({ cumulativeTotalDeaths: 0 }));
+    const result = await archiveHero({ rawSave, characterName: 'Survivor' }, keeper, store);
+
+    expect(result.status).toBe(201);
+    expect(store.rows[0]).toMatchObject({ is_hardcore: true, total_deaths: 0 });
+  });
+
+  it('turns a fallen Hardcore hero away to the Graveyard', async () => {
+    const store = createStore();
+    const result = await archiveHero({ rawSave: saveText(), characterName: 'Fallen' }, keeper, store);
+
+    expect(result.status).toBe(422);
+    expect('issues' in result.body && result.body.issues?.map((issue) => issue.code)).toEqual(['BELONGS_IN_GRAVEYARD']);
+    expect(store.rows).toEqual([]);
+  });
+
+  it('rejects a request without the raw save, or one too large', async () => {
+    const store = createStore();
+    expect((await archiveHero({ characterName: 'Nobody' }, keeper, store)).status).toBe(400);
+    expect((await archiveHero({ rawSave: ' '.repeat(10 * 1024 * 1024 + 1) }, keeper, store)).status).toBe(413);
+    expect(store.rows).toEqual([]);
+  });
+
+  it('refuses the same save twice from one keeper', async () => {
+    const store = createStore();
+    const rawSave = saveText(buildSave({ cumulativeTotalDeaths: 0 }));
+    await archiveHero({ rawSave, characterName: 'Once' }, keeper, store);
+    const result = await archiveHero({ rawSave, characterName: 'Twice' }, keeper, store);
+
+    expect(result.status).toBe(409);
+    expect(store.rows).toHaveLength(1);
+  });
+});
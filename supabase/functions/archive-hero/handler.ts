@@ -0,0 +1,86 @@
+/**
+ * archive-hero — Mausoleum ingestion logic, independent of Deno.serve and of the database client.
+ * Mirrors bury-hero for softcore and still-living characters, which never enter `deaths`.
+ */
+
+import { parseArchiveFile } from '../../../src/saveFileParser.ts';
+import { generateUniqueHash } from '../../../src/lib/hash.ts';
+import { sanitizeCharacterName } from '../../../src/lib/sanitize.ts';
+import type { SaveIssue } from '../../../src/saveIssues.ts';
+import type { ExtractedArchivePayload } from '../../../src/types.ts';
+import type { Database } from '../../../src/types/supabase.ts';
+
+export type MausoleumInsertRow = Database['public']['Tables']['mausoleum']['Insert'];
+
+export type ArchiveOutcome =
+  | { status: 'inserted'; id: string }
+  | { status: 'duplicate' };
+
+/** Persistence boundary, injectable for local stand-ins. */
+export interface ArchiveStore {
+  insertEntry(row: MausoleumInsertRow): Promise<ArchiveOutcome>;
+}
+
+/** The authenticated caller, resolved by the entry point from the request JWT. */
+export interface Keeper {
+  userId: string;
+  keptBy: string;
+}
+
+export interface ArchiveResult {
+  status: number;
+  body: { id: string } | { error: string; issues?: SaveIssue[] };
+}
+
+/** Upper bound on the raw save size; real saves are well under 1 MB. */
+const MAX_SAVE_LENGTH = 10 * 1024 * 1024;
+
+function toMausoleumRow(payload: ExtractedArchivePayload, keeper: Keeper, characterName: string, uniqueHash: string): MausoleumInsertRow {
+  return {
+    user_id: keeper.userId,
+    kept_by: keeper.keptBy,
+    character_name: characterName,
+    level: payload.level,
+    is_hardcore: payload.isHardcore,
+    total_deaths: payload.totalDeaths,
+    career_seconds: payload.careerSeconds,
+    career_runs: payload.careerRuns,
+    career_kills: payload.careerKills,
+    career_elite_kills: payload.careerEliteKills,
+    career_bosses: payload.careerBosses,
+    career_gold: payload.careerGold,
+    career_soulstones: payload.careerSoulstones,
+    skill_ids: payload.skillIds,
+    unique_hash: uniqueHash,
+  };
+}
+
+/**
+ * Validates the raw PlayerSave.json as a Mausoleum character, then archives it.
+ * Every column is derived server-side; the client only supplies the save text and a name.
+ */
+export async function archiveHero(body: unknown, keeper: Keeper, store: ArchiveStore): Promise<ArchiveResult> {
+  const { rawSave, characterName } = (body ?? {}) as { rawSave?: unknown; characterName?: unknown };
+
+  if (typeof rawSave !== 'string' || rawSave.length === 0) {
+    return { status: 400, body: { error: 'Request must include the raw save file text as rawSave.' } };
+  }
+  if (rawSave.length > MAX_SAVE_LENGTH) {
+    return { status: 413, body: { error: 'Save file is too large.' } };
+  }
+
+  const parsed = parseArchiveFile(rawSave);
+  if (!parsed.ok) {
+    return { status: 422, body: { error: parsed.issues[0]?.message ?? 'Invalid save file.', issues: parsed.issues } };
+  }
+
+  const name = sanitizeCharacterName(typeof characterName === 'string' ? characterName : '');
+  const uniqueHash = await generateUniqueHash({ userId: keeper.userId, rawSnapshot: rawSave });
+
+  const outcome = await store.insertEntry(toMausoleumRow(parsed.payload, keeper, name, uniqueHash));
+  if (outcome.status === 'duplicate') {
+    return { status: 409, body: { error: 'This character was already enshrined.' } };
+  }
+
+  return { status: 201, body: { id: outcome.id } };
+}
@@ -0,0 +1,48 @@
+/**
+ * archive-hero — Supabase Edge Function entry point for the Mausoleum.
+ * Authenticates the caller and archives a softcore or still-living character with the service role.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { corsHeaders, createAdminClient, getCaller, json } from '../_shared/http.ts';
+import { archiveHero, type ArchiveStore } from './handler.ts';
+
+function createSupabaseStore(admin: SupabaseClient): ArchiveStore {
+  return {
+    async insertEntry(row) {
+      const { data, error } = await admin.from('mausoleum').insert(row).select('id').single();
+      if (error) {
+        if (error.code === '23505') return { status: 'duplicate' };
+        throw new Error(error.message);
+      }
+      return { status: 'inserted', id: data.id };
+    },
+  };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return json(405, { error: 'Method not allowed.' });
+
+  const caller = await getCaller(req);
+  if (!caller) return json(401, { error: 'You must be signed in to enshrine a character.' });
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return json(400, { error: 'Request body must be JSON.' });
+  }
+
+  try {
+    const result = await archiveHero(
+      body,
+      { userId: caller.userId, keptBy: caller.displayName },
+      createSupabaseStore(createAdminClient()),
+    );
+    return json(result.status, result.body);
+  } catch (err: unknown) {
+    console.error('Archive failed:', err);
+    return json(500, { error: 'The Mausoleum doors would not open. Please try again.' });
+  }
+});
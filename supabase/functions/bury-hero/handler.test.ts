@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_BATCH_SIZE } from '../../../src/lib/burialLimits.ts';
+import { buildRun, buildSave, saveText } from '../../../src/testing/playerSave.ts';
+import { buryHero, buryHeroes, type BurialStore } from './handler.ts';
+import { createMemoryBurialStore } from './memoryStore.ts';
+
+const mourner = { userId: 'user-1', mournedBy: 'Gravedigger' };
+const otherMourner = { userId: 'user-2', mournedBy: 'Latecomer' };
+
+describe('buryHero', () => {
+  it('buries a valid save with its runs, approved', async () => {
+    const store = createMemoryBurialStore();
+    const result = await buryHero({ rawSave: saveText(), characterName: 'Sir Test', epitaph: 'He tried.' }, mourner, store);
+
+    expect(result).toEqual({ status: 201, body: { id: 'death-1', flagged: false, reasons: [] } });
+    expect(store.burials).toHaveLength(1);
+    const [{ row, runs }] = store.burials;
+    expect(row).toMatchObject({
+      user_id: 'user-1',
+      mourned_by: 'Gravedigger',
+      character_name: 'Sir Test',
+      epitaph: 'He tried.',
+      level: 25,
+      career_kills: 1100,
+      last_run_damage_type: 2,
+      review_status: 'approved',
+      review_reasons: [],
+    });
+    expect(runs.map((run) => run.run_index)).toEqual([0, 1, 2]);
+  });
+
+  it('rejects a request without the raw save', async () => {
+    const store = createMemoryBurialStore();
+    const result = await buryHero({ characterName: 'Nobody' }, mourner, store);
+    expect(result.status).toBe(400);
+    expect(store.burials).toHaveLength(0);
+  });
+
+  it('rejects an invalid save with every issue found', async () => {
+    const store = createMemoryBurialStore();
+    const rawSave = saveText(buildSave({ hardcoreModeEnabled: false, cumulativeTotalDeaths: 0 }));
+    const result = await buryHero({ rawSave, characterName: 'Softie' }, mourner, store);
+
+    expect(result.status).toBe(422);
+    expect('issues' in result.body && result.body.issues?.map((issue) => issue.code)).toEqual(['NOT_HARDCORE', 'NO_DEATH']);
+    expect(store.burials).toHaveLength(0);
+  });
+
+  it('holds an implausible save for review', async () => {
+    const store = createMemoryBurialStore();
+    const save = buildSave({ pastRunsData: [buildRun({ level: 5, bossKills: 40, kills: 240, regularKills: 196, eliteKills: 3 })] });
+    const result = await buryHero({ rawSave: saveText(save), characterName: 'Cheater' }, mourner, store);
+
+    expect(result.status).toBe(201);
+    expect(result.body).toMatchObject({ flagged: true });
+    expect(store.burials[0].row).toMatchObject({ review_status: 'pending' });
+    expect(store.burials[0].row.review_reasons).toHaveLength(1);
+  });
+
+  it('refuses the same death from another account, however the file was re-saved', async () => {
+    const store = createMemoryBurialStore();
+    await buryHero({ rawSave: saveText(), characterName: 'First' }, mourner, store);
+    const result = await buryHero({ rawSave: JSON.stringify(buildSave()), characterName: 'Second' }, otherMourner, store);
+
+    expect(result.status).toBe(409);
+    expect(result.body).toMatchObject({ original: { id: 'death-1', characterName: 'First', mournedBy: 'Gravedigger' } });
+    expect(store.burials).toHaveLength(1);
+  });
+
+  it('reports the winner when it loses an insert race', async () => {
+    const store = createMemoryBurialStore();
+    await buryHero({ rawSave: saveText(), characterName: 'Winner' }, mourner, store);
+    // The first lookup misses, as if both uploads had checked before either inserted.
+    let lookups = 0;
+    const racing: BurialStore = {
+      insertDeath: (row, runs) => store.insertDeath(row, runs),
+      findBurial: (fingerprint) => (lookups++ === 0 ? Promise.resolve(null) : store.findBurial(fingerprint)),
+    };
+    const result = await buryHero({ rawSave: JSON.stringify(buildSave()), characterName: 'Loser' }, otherMourner, racing);
+
+    expect(result.status).toBe(409);
+    expect(result.body).toMatchObject({ original: { characterName: 'Winner' } });
+  });
+});
+
+describe('buryHeroes', () => {
+  it('buries each save on its own and keeps the request order', async () => {
+    const store = createMemoryBurialStore();
+    const other = buildSave({ gameplayTime: 9000 });
+    const result = await buryHeroes(
+      {
+        burials: [
+          { rawSave: saveText(), characterName: 'One' },
+          { rawSave: '{ not json', characterName: 'Broken' },
+          { rawSave: saveText(other), characterName: 'Two' },
+          { rawSave: saveText(), characterName: 'One Again' },
+        ],
+      },
+      mourner,
+      store
+    );
+
+    expect(result.status).toBe(200);
+    expect('results' in result.body && result.body.results.map((entry) => entry.status)).toEqual([201, 422, 201, 409]);
+    expect(store.burials.map((burial) => burial.row.character_name)).toEqual(['One', 'Two']);
+  });
+
+  it('rejects an empty batch', async () => {
+    const result = await buryHeroes({ burials: [] }, mourner, createMemoryBurialStore());
+    expect(result.status).toBe(400);
+  });
+
+  it(`rejects more than ${MAX_BATCH_SIZE} saves at once`, async () => {
+    const store = createMemoryBurialStore();
+    const burials = Array.from({ length: MAX_BATCH_SIZE + 1 }, () => ({ rawSave: saveText(), characterName: 'Many' }));
+    const result = await buryHeroes({ burials }, mourner, store);
+
+    expect(result.status).toBe(413);
+    expect(store.burials).toHaveLength(0);
+  });
+});
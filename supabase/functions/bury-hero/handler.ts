@@ -0,0 +1,185 @@
+/**
+ * bury-hero — Ingestion logic, independent of Deno.serve and of the database client.
+ * The store is injected so the handler can run against a local Supabase/Postgres stand-in.
+ */
+
+import { parseSaveFile } from '../../../src/saveFileParser.ts';
+import { buildSkillDamageProfiles, evaluatePlausibility } from '../../../src/plausibilityRules.ts';
+import { generateDeathFingerprint, generateUniqueHash } from '../../../src/lib/hash.ts';
+import { sanitizeCharacterName, sanitizeEpitaph } from '../../../src/lib/sanitize.ts';
+import { MAX_BATCH_SIZE } from '../../../src/lib/burialLimits.ts';
+import type { SaveIssue } from '../../../src/saveIssues.ts';
+import type { ExtractedDeathPayload } from '../../../src/types.ts';
+import type { Database } from '../../../src/types/supabase.ts';
+import skillsData from '../../../src/assets/Skills.json' with { type: 'json' };
+
+export type DeathInsertRow = Database['public']['Tables']['deaths']['Insert'];
+export type DeathRunInsertRow = Omit<Database['public']['Tables']['death_runs']['Insert'], 'death_id'>;
+
+export type InsertOutcome =
+  | { status: 'inserted'; id: string }
+  | { status: 'duplicate' };
+
+/** The hero already buried under a fingerprint, shown to whoever tries to bury it again. */
+export interface BuriedHero {
+  id: string;
+  characterName: string;
+  mournedBy: string | null;
+  buriedAt: string;
+}
+
+/** Persistence boundary. Implementations must not leave a death behind without its runs. */
+export interface BurialStore {
+  insertDeath(row: DeathInsertRow, runs: DeathRunInsertRow[]): Promise<InsertOutcome>;
+  /** Looks up a death by canonical fingerprint, across all users and review states. */
+  findBurial(fingerprint: string): Promise<BuriedHero | null>;
+}
+
+/** The authenticated caller, resolved by the entry point from the request JWT. */
+export interface Mourner {
+  userId: string;
+  mournedBy: string;
+}
+
+export interface BurialResult {
+  status: number;
+  body:
+    | { id: string; flagged: boolean; reasons: string[] }
+    | { error: string; issues?: SaveIssue[]; original?: BuriedHero };
+}
+
+/** Upper bound on the raw save size; real saves are well under 1 MB. */
+const MAX_SAVE_LENGTH = 10 * 1024 * 1024;
+
+const skillProfiles = buildSkillDamageProfiles(skillsData.Skills);
+
+function toDeathRow(
+  payload: ExtractedDeathPayload,
+  mourner: Mourner,
+  inscription: { characterName: string; epitaph: string | null },
+  hashes: { uniqueHash: string; fingerprint: string }
+): DeathInsertRow {
+  return {
+    user_id: mourner.userId,
+    mourned_by: mourner.mournedBy,
+    character_name: inscription.characterName,
+    epitaph: inscription.epitaph,
+    level: payload.level,
+    damage_taken: payload.damageTaken,
+    career_seconds: payload.careerSeconds,
+    career_runs: payload.careerRuns,
+    career_kills: payload.careerKills,
+    career_elite_kills: payload.careerEliteKills,
+    career_bosses: payload.careerBosses,
+    career_gold: payload.careerGold,
+    career_soulstones: payload.careerSoulstones,
+    skill_ids: payload.skillIds,
+    // Last run
+    last_run_kills: payload.lastRunKills,
+    last_run_soulstones: payload.lastRunSoulstones,
+    last_run_regular_kills: payload.lastRunRegularKills,
+    last_run_elite_kills: payload.lastRunEliteKills,
+    last_run_boss_kills: payload.lastRunBossKills,
+    last_run_gold: payload.lastRunGold,
+    last_run_damage_dealt: payload.lastRunDamageDealt,
+    last_run_duration: payload.lastRunDuration,
+    last_run_damage_type: payload.lastRunDamageType,
+    unique_hash: hashes.uniqueHash,
+    fingerprint: hashes.fingerprint,
+  };
+}
+
+function toRunRows(payload: ExtractedDeathPayload): DeathRunInsertRow[] {
+  return payload.runs.map((run) => ({
+    run_index: run.runIndex,
+    level: run.level,
+    kills: run.kills,
+    regular_kills: run.regularKills,
+    elite_kills: run.eliteKills,
+    boss_kills: run.bossKills,
+    gold: run.gold,
+    soulstones: run.soulstones,
+    damage_dealt: run.damageDealt,
+    run_time: run.runTime,
+    damage_type: run.damageType,
+  }));
+}
+
+function alreadyBuried(original: BuriedHero): BurialResult {
+  const by = original.mournedBy ? ` by ${original.mournedBy}` : '';
+  return {
+    status: 409,
+    body: { error: `This hero was already buried as "${original.characterName}"${by}.`, original },
+  };
+}
+
+/**
+ * Validates the raw PlayerSave.json with the shared parser, then buries the hero.
+ * Every column is derived server-side; the client only supplies the save text, a name and an optional epitaph.
+ */
+export async function buryHero(body: unknown, mourner: Mourner, store: BurialStore): Promise<BurialResult> {
+  const { rawSave, characterName, epitaph } = (body ?? {}) as { rawSave?: unknown; characterName?: unknown; epitaph?: unknown };
+
+  if (typeof rawSave !== 'string' || rawSave.length === 0) {
+    return { status: 400, body: { error: 'Request must include the raw save file text as rawSave.' } };
+  }
+  if (rawSave.length > MAX_SAVE_LENGTH) {
+    return { status: 413, body: { error: 'Save file is too large.' } };
+  }
+
+  const parsed = parseSaveFile(rawSave);
+  if (!parsed.ok) {
+    return { status: 422, body: { error: parsed.issues[0]?.message ?? 'Invalid save file.', issues: parsed.issues } };
+  }
+
+  const name = sanitizeCharacterName(typeof characterName === 'string' ? characterName : '');
+  const cleanEpitaph = typeof epitaph === 'string' ? sanitizeEpitaph(epitaph) : null;
+  const uniqueHash = await generateUniqueHash({ userId: mourner.userId, rawSnapshot: rawSave });
+  const fingerprint = await generateDeathFingerprint(parsed.payload);
+
+  const original = await store.findBurial(fingerprint);
+  if (original) return alreadyBuried(original);
+
+  // Implausible saves are still buried, but held back from the leaderboard until a moderator reviews them.
+  const report = evaluatePlausibility(parsed.payload, skillProfiles);
+  const row: DeathInsertRow = {
+    ...toDeathRow(parsed.payload, mourner, { characterName: name, epitaph: cleanEpitaph }, { uniqueHash, fingerprint }),
+    review_status: report.suspicious ? 'pending' : 'approved',
+    review_reasons: report.reasons,
+  };
+
+  const outcome = await store.insertDeath(row, toRunRows(parsed.payload));
+  if (outcome.status === 'duplicate') {
+    // Lost a race with another upload of the same death, or a legacy row without fingerprint.
+    const winner = await store.findBurial(fingerprint);
+    return winner ? alreadyBuried(winner) : { status: 409, body: { error: 'This death was already submitted.' } };
+  }
+
+  return { status: 201, body: { id: outcome.id, flagged: report.suspicious, reasons: report.reasons } };
+}
+
+export interface BatchBurialResult {
+  status: number;
+  body: { results: BurialResult[] } | { error: string };
+}
+
+/**
+ * Buries several saves from one request. Each save is validated and inserted on its own,
+ * so one rejected or duplicate save does not stop the others; results keep the request order.
+ */
+export async function buryHeroes(body: unknown, mourner: Mourner, store: BurialStore): Promise<BatchBurialResult> {
+  const { burials } = (body ?? {}) as { burials?: unknown };
+
+  if (!Array.isArray(burials) || burials.length === 0) {
+    return { status: 400, body: { error: 'Request must include at least one save in burials.' } };
+  }
+  if (burials.length > MAX_BATCH_SIZE) {
+    return { status: 413, body: { error: `At most ${MAX_BATCH_SIZE} saves can be buried at once.` } };
+  }
+
+  const results: BurialResult[] = [];
+  for (const burial of burials) {
+    results.push(await buryHero(burial, mourner, store));
+  }
+  return { status: 200, body: { results } };
+}
@@ -0,0 +1,66 @@
+/**
+ * bury-hero — Supabase Edge Function entry point.
+ * Authenticates the caller, then hands the raw save (or a batch of saves) to the shared ingestion handler,
+ * which inserts with the service role (clients can no longer insert into `deaths`).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { corsHeaders, createAdminClient, getCaller, json } from '../_shared/http.ts';
+import { buryHero, buryHeroes, type BurialStore } from './handler.ts';
+
+/**
+ * Store backed by the service-role client (sees every death, whatever its review state).
+ * The `bury_death` RPC inserts the death and its runs in one transaction.
+ */
+function createSupabaseStore(admin: SupabaseClient): BurialStore {
+  return {
+    async insertDeath(row, runs) {
+      const { data, error } = await admin.rpc('bury_death', { p_death: row, p_runs: runs });
+      if (error) {
+        if (error.code === '23505') return { status: 'duplicate' };
+        throw new Error(error.message);
+      }
+      return { status: 'inserted', id: data as string };
+    },
+
+    async findBurial(fingerprint) {
+      const { data, error } = await admin
+        .from('deaths')
+        .select('id, character_name, mourned_by, death_date')
+        .eq('fingerprint', fingerprint)
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      if (!data) return null;
+      return { id: data.id, characterName: data.character_name, mournedBy: data.mourned_by, buriedAt: data.death_date };
+    },
+  };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return json(405, { error: 'Method not allowed.' });
+
+  const caller = await getCaller(req);
+  if (!caller) return json(401, { error: 'You must be signed in to submit a death.' });
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return json(400, { error: 'Request body must be JSON.' });
+  }
+
+  try {
+    const mourner = { userId: caller.userId, mournedBy: caller.displayName };
+    const store = createSupabaseStore(createAdminClient());
+    // `{ burials: [...] }` buries a batch; `{ rawSave, characterName }` a single save.
+    const isBatch = typeof body === 'object' && body !== null && 'burials' in body;
+    const result = isBatch
+      ? await buryHeroes(body, mourner, store)
+      : await buryHero(body, mourner, store);
+    return json(result.status, result.body);
+  } catch (err: unknown) {
+    console.error('Burial failed:', err);
+    return json(500, { error: 'The crypt could not be sealed. Please try again.' });
+  }
+});
@@ -0,0 +1,48 @@
+/**
+ * bury-hero — In-memory BurialStore, a stand-in for the database when running the handler without Supabase.
+ * Enforces the same uniqueness as the `deaths` table (unique_hash and fingerprint) and, like the `bury_death` RPC,
+ * stores a death together with its runs or not at all.
+ */
+
+import type { BurialStore, DeathInsertRow, DeathRunInsertRow } from './handler.ts';
+
+export interface StoredBurial {
+  id: string;
+  row: DeathInsertRow;
+  runs: DeathRunInsertRow[];
+  buriedAt: string;
+}
+
+export interface MemoryBurialStore extends BurialStore {
+  /** Every burial, in insertion order. */
+  readonly burials: StoredBurial[];
+}
+
+export function createMemoryBurialStore(): MemoryBurialStore {
+  const burials: StoredBurial[] = [];
+  return {
+    burials,
+
+    async insertDeath(row, runs) {
+      const taken = burials.some(
+        (burial) => burial.row.unique_hash === row.unique_hash || (row.fingerprint != null && burial.row.fingerprint === row.fingerprint)
+      );
+      if (taken) return { status: 'duplicate' };
+
+      const id = `death-${burials.length + 1}`;
+      burials.push({ id, row, runs, buriedAt: new Date().toISOString() });
+      return { status: 'inserted', id };
+    },
+
+    async findBurial(fingerprint) {
+      const burial = burials.find((candidate) => candidate.row.fingerprint === fingerprint);
+      if (!burial) return null;
+      return {
+        id: burial.id,
+        characterName: burial.row.character_name,
+        mournedBy: burial.row.mourned_by ?? null,
+        buriedAt: burial.buriedAt,
+      };
+    },
+  };
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_NAME_LENGTH } from '../../../src/lib/sanitize.ts';
+import { editHero, type EditStore, type EditedHero } from './handler.ts';
+
+const HERO_ID = '6f1c2a7e-3b4d-4e5f-8a9b-0c1d2e3f4a5b';
+const owner = { userId: 'user-1' };
+const stranger = { userId: 'user-2' };
+
+/** One hero, HERO_ID, owned by user-1. */
+function createStore(): EditStore & { hero: EditedHero } {
+  const hero: EditedHero = { characterName: 'Sir Test', epitaph: 'He tried.' };
+  return {
+    hero,
+    async updateOwnDeath(id, userId, patch) {
+      if (id !== HERO_ID || userId !== owner.userId) return null;
+      if (patch.character_name !== undefined) hero.characterName = patch.character_name;
+      if (patch.epitaph !== undefined) hero.epitaph = patch.epitaph;
+      return { ...hero };
+    },
+  };
+}
+
+describe('editHero', () => {
+  it('renames and re-engraves the owner\'s hero with sanitized text', async () => {
+    const store = createStore();
+    const result = await editHero({ id: HERO_ID, characterName: '  Sir Ñew 🗡 ', epitaph: 'Died   doing\nwhat he loved ✝' }, owner, store);
+
+    expect(result).toEqual({ status: 200, body: { id: HERO_ID, characterName: 'Sir ew', epitaph: 'Died doing what he loved' } });
+    expect(store.hero).toEqual({ characterName: 'Sir ew', epitaph: 'Died doing what he loved' });
+  });
+
+  it('leaves out fields alone and clears the epitaph on null', async () => {
+    const store = createStore();
+    await editHero({ id: HERO_ID, epitaph: null }, owner, store);
+    expect(store.hero).toEqual({ characterName: 'Sir Test', epitaph: null });
+
+    await editHero({ id: HERO_ID, characterName: 'x'.repeat(MAX_NAME_LENGTH + 5) }, owner, store);
+    expect(store.hero).toEqual({ characterName: 'x'.repeat(MAX_NAME_LENGTH), epitaph: null });
+  });
+
+  it('filters profanity like a burial does', async () => {
+    const store = createStore();
+    const result = await editHero({ id: HERO_ID, epitaph: 'Oh shit' }, owner, store);
+    expect(result.body).toMatchObject({ epitaph: 'Oh ****' });
+  });
+
+  it.each([
+    ['no hero id', { characterName: 'Renamed' }],
+    ['a hero id that is not a uuid', { id: 'not-a-uuid', characterName: 'Renamed' }],
+    ['a name that is not text', { id: HERO_ID, characterName: 7 }],
+    ['an epitaph that is neither text nor null', { id: HERO_ID, epitaph: ['He', 'tried'] }],
+    ['nothing to change', { id: HERO_ID }],
+  ])('rejects %s', async (_, body) => {
+    const store = createStore();
+    const result = await editHero(body, owner, store);
+
+    expect(result.status).toBe(400);
+    expect(store.hero).toEqual({ characterName: 'Sir Test', epitaph: 'He tried.' });
+  });
+
+  it('answers 404 for someone else\'s hero, the same as for a missing one', async () => {
+    const store = createStore();
+    const foreign = await editHero({ id: HERO_ID, characterName: 'Stolen' }, stranger, store);
+    const missing = await editHero({ id: '11111111-2222-4333-8444-555555555555', characterName: 'Nobody' }, owner, store);
+
+    expect(foreign).toEqual(missing);
+    expect(foreign.status).toBe(404);
+    expect(store.hero.characterName).toBe('Sir Test');
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * edit-hero — Owner edits to a buried hero, independent of Deno.serve and of the database client.
+ * Edits get the same sanitization as a burial, so the stone never shows anything bury-hero would have refused.
+ */
+
+import { sanitizeCharacterName, sanitizeEpitaph } from '../../../src/lib/sanitize.ts';
+import { isUuid } from '../_shared/ids.ts';
+import type { Database } from '../../../src/types/supabase.ts';
+
+export type DeathUpdateRow = Database['public']['Tables']['deaths']['Update'];
+
+/** What an owner can change, as stored after sanitization. */
+export interface EditedHero {
+  characterName: string;
+  epitaph: string | null;
+}
+
+/** Persistence boundary, injectable for local stand-ins. */
+export interface EditStore {
+  /** Applies the edit to a death owned by `userId`. Resolves null when no such death belongs to them. */
+  updateOwnDeath(id: string, userId: string, patch: DeathUpdateRow): Promise<EditedHero | null>;
+}
+
+/** The authenticated caller, resolved by the entry point from the request JWT. */
+export interface Owner {
+  userId: string;
+}
+
+export interface EditResult {
+  status: number;
+  body: ({ id: string } & EditedHero) | { error: string };
+}
+
+/**
+ * Renames one of the caller's heroes and/or engraves its epitaph (an empty string or null clears it).
+ * Fields left out of the body are not touched. Heroes owned by someone else answer 404, the same as heroes that do not exist.
+ */
+export async function editHero(body: unknown, owner: Owner, store: EditStore): Promise<EditResult> {
+  const { id, characterName, epitaph } = (body ?? {}) as { id?: unknown; characterName?: unknown; epitaph?: unknown };
+
+  if (!isUuid(id)) {
+    return { status: 400, body: { error: 'Request must include the id of the hero to edit.' } };
+  }
+  if (characterName !== undefined && typeof characterName !== 'string') {
+    return { status: 400, body: { error: 'The new name must be text.' } };
+  }
+  if (epitaph !== undefined && epitaph !== null && typeof epitaph !== 'string') {
+    return { status: 400, body: { error: 'The epitaph must be text, or null to clear it.' } };
+  }
+
+  const patch: DeathUpdateRow = {};
+  if (characterName !== undefined) patch.character_name = sanitizeCharacterName(characterName);
+  if (epitaph !== undefined) patch.epitaph = epitaph === null ? null : sanitizeEpitaph(epitaph);
+  if (Object.keys(patch).length === 0) {
+    return { status: 400, body: { error: 'Request must include a new characterName or epitaph.' } };
+  }
+
+  const edited = await store.updateOwnDeath(id, owner.userId, patch);
+  if (!edited) {
+    return { status: 404, body: { error: 'No hero of yours rests here.' } };
+  }
+
+  return { status: 200, body: { id, ...edited } };
+}
@@ -0,0 +1,48 @@
+/**
+ * edit-hero — Supabase Edge Function entry point for owner edits.
+ * Authenticates the caller and updates their own hero with the service role (clients can no longer update `deaths`).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { corsHeaders, createAdminClient, getCaller, json } from '../_shared/http.ts';
+import { editHero, type EditStore } from './handler.ts';
+
+/** Store backed by the service-role client; the `user_id` match stands in for the old owner-only RLS policy. */
+function createSupabaseStore(admin: SupabaseClient): EditStore {
+  return {
+    async updateOwnDeath(id, userId, patch) {
+      const { data, error } = await admin
+        .from('deaths')
+        .update(patch)
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select('character_name, epitaph')
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      return data ? { characterName: data.character_name, epitaph: data.epitaph } : null;
+    },
+  };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return json(405, { error: 'Method not allowed.' });
+
+  const caller = await getCaller(req);
+  if (!caller) return json(401, { error: 'You must be signed in to tend a grave.' });
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return json(400, { error: 'Request body must be JSON.' });
+  }
+
+  try {
+    const result = await editHero(body, { userId: caller.userId }, createSupabaseStore(createAdminClient()));
+    return json(result.status, result.body);
+  } catch (err: unknown) {
+    console.error('Edit failed:', err);
+    return json(500, { error: 'The stone could not be engraved. Please try again.' });
+  }
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_CONDOLENCE_LENGTH } from '../../../src/lib/sanitize.ts';
+import { postCondolence, type CondolenceInsertRow, type CondolenceRow, type CondolenceStore } from './handler.ts';
+
+const HERO_ID = '6f1c2a7e-3b4d-4e5f-8a9b-0c1d2e3f4a5b';
+const HELD_ID = '0b9a8c7d-6e5f-4a3b-9c2d-1e0f9a8b7c6d';
+const mourner = { userId: 'user-1', displayName: 'Gravedigger' };
+
+/** Heroes on view are HERO_ID only; HELD_ID exists but awaits review. */
+function createStore(): CondolenceStore & { rows: CondolenceRow[] } {
+  const rows: CondolenceRow[] = [];
+  return {
+    rows,
+    async isHeroOnView(deathId) {
+      return deathId === HERO_ID;
+    },
+    async insertCondolence(row: CondolenceInsertRow) {
+      const stored = { id: `condolence-${rows.length + 1}`, created_at: '2026-10-19T00:00:00Z', ...row } as CondolenceRow;
+      rows.push(stored);
+      return stored;
+    },
+  };
+}
+
+describe('postCondolence', () => {
+  it('leaves the sanitized message under a hero on view', async () => {
+    const store = createStore();
+    const result = await postCondolence({ deathId: HERO_ID, message: '  Rest   well,\n friend! ✝ ' }, mourner, store);
+
+    expect(result.status).toBe(201);
+    expect(result.body).toMatchObject({ death_id: HERO_ID, user_id: 'user-1', author_name: 'Gravedigger', body: 'Rest well, friend!' });
+    expect(store.rows).toHaveLength(1);
+  });
+
+  it('filters profanity and cuts the message to length', async () => {
+    const store = createStore();
+    await postCondolence({ deathId: HERO_ID, message: 'What a shit way to go' }, mourner, store);
+    await postCondolence({ deathId: HERO_ID, message: 'a'.repeat(MAX_CONDOLENCE_LENGTH + 50) }, mourner, store);
+
+    expect(store.rows.map((row) => row.body)).toEqual(['What a **** way to go', 'a'.repeat(MAX_CONDOLENCE_LENGTH)]);
+  });
+
+  it.each([
+    ['no hero id', { message: 'Farewell.' }],
+    ['a hero id that is not a uuid', { deathId: 'not-a-uuid', message: 'Farewell.' }],
+    ['a message that is not text', { deathId: HERO_ID, message: 42 }],
+    ['a message with nothing left once sanitized', { deathId: HERO_ID, message: '✝ ✝ ✝' }],
+  ])('rejects %s', async (_, body) => {
+    const store = createStore();
+    const result = await postCondolence(body, mourner, store);
+
+    expect(result.status).toBe(400);
+    expect(store.rows).toEqual([]);
+  });
+
+  it('takes no condolences for heroes that are held or do not exist', async () => {
+    const store = createStore();
+    const held = await postCondolence({ deathId: HELD_ID, message: 'Farewell.' }, mourner, store);
+    const missing = await postCondolence({ deathId: '11111111-2222-4333-8444-555555555555', message: 'Farewell.' }, mourner, store);
+
+    expect([held.status, missing.status]).toEqual([404, 404]);
+    expect(store.rows).toEqual([]);
+  });
+});
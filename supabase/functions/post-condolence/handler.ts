@@ -0,0 +1,58 @@
+/**
+ * post-condolence — Condolences left under a hero, independent of Deno.serve and of the database client.
+ * Messages get the same charset and profanity rules as epitaphs, so nothing lands under a stone that it would refuse.
+ */
+
+import { sanitizeCondolence } from '../../../src/lib/sanitize.ts';
+import { isUuid } from '../_shared/ids.ts';
+import type { Database } from '../../../src/types/supabase.ts';
+
+export type CondolenceRow = Database['public']['Tables']['death_condolences']['Row'];
+export type CondolenceInsertRow = Database['public']['Tables']['death_condolences']['Insert'];
+
+/** Persistence boundary, injectable for local stand-ins. */
+export interface CondolenceStore {
+  /** Whether the hero rests on the public Graveyard; heroes held for review take no condolences. */
+  isHeroOnView(deathId: string): Promise<boolean>;
+  insertCondolence(row: CondolenceInsertRow): Promise<CondolenceRow>;
+}
+
+/** The authenticated caller, resolved by the entry point from the request JWT. */
+export interface Mourner {
+  userId: string;
+  displayName: string;
+}
+
+export interface CondolenceResult {
+  status: number;
+  body: CondolenceRow | { error: string };
+}
+
+/** Leaves the caller's message under a hero and answers with the stored row (the text as sanitized). */
+export async function postCondolence(body: unknown, mourner: Mourner, store: CondolenceStore): Promise<CondolenceResult> {
+  const { deathId, message } = (body ?? {}) as { deathId?: unknown; message?: unknown };
+
+  if (!isUuid(deathId)) {
+    return { status: 400, body: { error: 'Request must include the id of the hero.' } };
+  }
+  if (typeof message !== 'string') {
+    return { status: 400, body: { error: 'The condolence must be text.' } };
+  }
+
+  const text = sanitizeCondolence(message);
+  if (!text) {
+    return { status: 400, body: { error: 'Nothing is left of the message once sanitized.' } };
+  }
+
+  if (!(await store.isHeroOnView(deathId))) {
+    return { status: 404, body: { error: 'No hero rests here.' } };
+  }
+
+  const row = await store.insertCondolence({
+    death_id: deathId,
+    user_id: mourner.userId,
+    author_name: mourner.displayName,
+    body: text,
+  });
+  return { status: 201, body: row };
+}
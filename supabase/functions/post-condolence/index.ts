@@ -0,0 +1,53 @@
+/**
+ * post-condolence — Supabase Edge Function entry point for condolence messages.
+ * Authenticates the caller and inserts with the service role (clients cannot insert into `death_condolences`).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { corsHeaders, createAdminClient, getCaller, json } from '../_shared/http.ts';
+import { postCondolence, type CondolenceStore } from './handler.ts';
+
+/** Store backed by the service-role client, which sees held heroes too; hence the explicit review check. */
+function createSupabaseStore(admin: SupabaseClient): CondolenceStore {
+  return {
+    async isHeroOnView(deathId) {
+      const { data, error } = await admin
+        .from('deaths')
+        .select('id')
+        .eq('id', deathId)
+        .eq('review_status', 'approved')
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      return data != null;
+    },
+
+    async insertCondolence(row) {
+      const { data, error } = await admin.from('death_condolences').insert(row).select('*').single();
+      if (error) throw new Error(error.message);
+      return data;
+    },
+  };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return json(405, { error: 'Method not allowed.' });
+
+  const caller = await getCaller(req);
+  if (!caller) return json(401, { error: 'You must be signed in to leave a condolence.' });
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return json(400, { error: 'Request body must be JSON.' });
+  }
+
+  try {
+    const result = await postCondolence(body, caller, createSupabaseStore(createAdminClient()));
+    return json(result.status, result.body);
+  } catch (err: unknown) {
+    console.error('Condolence failed:', err);
+    return json(500, { error: 'The condolence could not be left. Please try again.' });
+  }
+});
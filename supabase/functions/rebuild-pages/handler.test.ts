@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { handleDeathChange, type DeathSnapshot, type DeathWebhookPayload, type RebuildDispatcher } from './handler.ts';
+
+function recordingDispatcher(): RebuildDispatcher & { reasons: string[] } {
+  const reasons: string[] = [];
+  return {
+    reasons,
+    async dispatch(reason) {
+      reasons.push(reason);
+    },
+  };
+}
+
+function hero(overrides: Partial<DeathSnapshot> = {}): DeathSnapshot {
+  return { id: 'death-1', review_status: 'approved', character_name: 'Sir Test', epitaph: null, ...overrides };
+}
+
+function change(type: DeathWebhookPayload['type'], old: DeathSnapshot | null, record: DeathSnapshot | null): DeathWebhookPayload {
+  return { type, table: 'deaths', record, old_record: old };
+}
+
+describe('handleDeathChange', () => {
+  it.each([
+    ['an approved burial', change('INSERT', null, hero())],
+    ['a restore by a moderator', change('UPDATE', hero({ review_status: 'pending' }), hero())],
+    ['an auto-hide by reports', change('UPDATE', hero(), hero({ review_status: 'pending' }))],
+    ['a rejection', change('UPDATE', hero(), hero({ review_status: 'rejected' }))],
+    ['an exhumation', change('DELETE', hero(), null)],
+    ['a rename', change('UPDATE', hero(), hero({ character_name: 'Sir Renamed' }))],
+    ['a new epitaph', change('UPDATE', hero(), hero({ epitaph: 'He tried.' }))],
+  ])('requests a rebuild for %s', async (_, payload) => {
+    const dispatcher = recordingDispatcher();
+    const result = await handleDeathChange(payload, dispatcher);
+
+    expect(result.status).toBe(202);
+    expect(dispatcher.reasons).toHaveLength(1);
+    expect(result.body).toEqual({ dispatched: true, reason: dispatcher.reasons[0] });
+  });
+
+  it.each([
+    ['a burial held for review', change('INSERT', null, hero({ review_status: 'pending' }))],
+    ['respects paid', change('UPDATE', hero(), hero())],
+    ['an edit to a held hero', change('UPDATE', hero({ review_status: 'pending' }), hero({ review_status: 'pending', epitaph: 'Hm.' }))],
+    ['a rejection of a held hero', change('UPDATE', hero({ review_status: 'pending' }), hero({ review_status: 'rejected' }))],
+    ['an exhumation of a held hero', change('DELETE', hero({ review_status: 'pending' }), null)],
+  ])('leaves the pages alone for %s', async (_, payload) => {
+    const dispatcher = recordingDispatcher();
+    const result = await handleDeathChange(payload, dispatcher);
+
+    expect(result).toEqual({ status: 200, body: { dispatched: false } });
+    expect(dispatcher.reasons).toEqual([]);
+  });
+
+  it('rejects anything but a deaths webhook', async () => {
+    const dispatcher = recordingDispatcher();
+    expect((await handleDeathChange({ ...change('INSERT', null, hero()), table: 'mausoleum' }, dispatcher)).status).toBe(400);
+    expect((await handleDeathChange({ ...change('INSERT', null, hero()), type: 'TRUNCATE' }, dispatcher)).status).toBe(400);
+    expect((await handleDeathChange(null, dispatcher)).status).toBe(400);
+    expect(dispatcher.reasons).toEqual([]);
+  });
+});
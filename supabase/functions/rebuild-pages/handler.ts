@@ -0,0 +1,70 @@
+/**
+ * rebuild-pages — Decides whether a change to `deaths` alters the prerendered hero pages, independent of Deno.serve
+ * and of GitHub. Fed by a Supabase database webhook on `deaths` inserts, updates and deletes.
+ * Only heroes on public view have a page, so a rebuild is requested when one appears (an approved burial, a restore),
+ * disappears (auto-hide by reports, a moderator's rejection, an exhumation) or is renamed or re-engraved by its owner.
+ * Respects and report counters change constantly and only reach the pages with the daily deploy.
+ */
+
+import type { Database } from '../../../src/types/supabase.ts';
+
+type DeathRow = Database['public']['Tables']['deaths']['Row'];
+
+/** The columns the decision reads; the webhook sends whole rows. */
+export type DeathSnapshot = Pick<DeathRow, 'id' | 'review_status' | 'character_name' | 'epitaph'>;
+
+/** Body of a Supabase database webhook (`record` is null on DELETE, `old_record` on INSERT). */
+export interface DeathWebhookPayload {
+  type: 'INSERT' | 'UPDATE' | 'DELETE';
+  table: string;
+  record: DeathSnapshot | null;
+  old_record: DeathSnapshot | null;
+}
+
+/** Deploy trigger, injectable so the handler runs without GitHub. */
+export interface RebuildDispatcher {
+  dispatch(reason: string): Promise<void>;
+}
+
+export interface RebuildResult {
+  status: number;
+  body: { dispatched: boolean; reason?: string } | { error: string };
+}
+
+const EVENT_TYPES = ['INSERT', 'UPDATE', 'DELETE'];
+
+function isOnView(death: DeathSnapshot | null): death is DeathSnapshot {
+  return death?.review_status === 'approved';
+}
+
+/** Why the public pages changed, or null when they did not. */
+export function describePageChange({ type, record, old_record: old }: DeathWebhookPayload): string | null {
+  const before = isOnView(old) ? old : null;
+  const after = type === 'DELETE' ? null : isOnView(record) ? record : null;
+
+  if (!before && after) return `Hero ${after.id} is on view.`;
+  if (before && !after) return `Hero ${before.id} left the Graveyard.`;
+  if (before && after && (before.character_name !== after.character_name || before.epitaph !== after.epitaph)) {
+    return `Hero ${after.id} was re-engraved.`;
+  }
+  return null;
+}
+
+/** Requests a rebuild when a `deaths` change alters the public hero pages. */
+export async function handleDeathChange(body: unknown, dispatcher: RebuildDispatcher): Promise<RebuildResult> {
+  const payload = (body ?? {}) as Partial<DeathWebhookPayload>;
+  if (payload.table !== 'deaths' || !EVENT_TYPES.includes(payload.type as string)) {
+    return { status: 400, body: { error: 'Expected a database webhook for the deaths table.' } };
+  }
+
+  const reason = describePageChange({
+    type: payload.type as DeathWebhookPayload['type'],
+    table: payload.table,
+    record: payload.record ?? null,
+    old_record: payload.old_record ?? null,
+  });
+  if (!reason) return { status: 200, body: { dispatched: false } };
+
+  await dispatcher.dispatch(reason);
+  return { status: 202, body: { dispatched: true, reason } };
+}
@@ -0,0 +1,52 @@
+/**
+ * rebuild-pages — Supabase Edge Function entry point for the `deaths` database webhook.
+ * Deployed with --no-verify-jwt: the webhook authenticates with a shared secret instead of a user token.
+ * Needs REBUILD_WEBHOOK_SECRET, GITHUB_REPOSITORY (owner/repo) and GITHUB_DISPATCH_TOKEN (contents: write).
+ */
+
+import { json } from '../_shared/http.ts';
+import { handleDeathChange, type RebuildDispatcher } from './handler.ts';
+
+const WEBHOOK_SECRET = Deno.env.get('REBUILD_WEBHOOK_SECRET') ?? '';
+const GITHUB_REPOSITORY = Deno.env.get('GITHUB_REPOSITORY') ?? '';
+const GITHUB_DISPATCH_TOKEN = Deno.env.get('GITHUB_DISPATCH_TOKEN') ?? '';
+
+/** Sends the `hero-pages-changed` repository dispatch that .github/workflows/deploy.yml listens for. */
+function createGitHubDispatcher(): RebuildDispatcher {
+  return {
+    async dispatch(reason) {
+      const response = await fetch(`https://api.github.com/repos/${GITHUB_REPOSITORY}/dispatches`, {
+        method: 'POST',
+        headers: {
+          Accept: 'application/vnd.github+json',
+          Authorization: `Bearer ${GITHUB_DISPATCH_TOKEN}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ event_type: 'hero-pages-changed', client_payload: { reason } }),
+      });
+      if (!response.ok) throw new Error(`GitHub answered ${response.status}: ${await response.text()}`);
+    },
+  };
+}
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') return json(405, { error: 'Method not allowed.' });
+  if (!WEBHOOK_SECRET || req.headers.get('Authorization') !== `Bearer ${WEBHOOK_SECRET}`) {
+    return json(401, { error: 'Unknown webhook.' });
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return json(400, { error: 'Request body must be JSON.' });
+  }
+
+  try {
+    const result = await handleDeathChange(body, createGitHubDispatcher());
+    return json(result.status, result.body);
+  } catch (err: unknown) {
+    console.error('Rebuild request failed:', err);
+    return json(500, { error: 'The rebuild could not be requested.' });
+  }
+});
@@ -1,9 +1,42 @@
 -- =============================================================================
 -- THE GRAVEYARD — Consolidated Schema
+-- Safe to re-run on an existing database: tables that predate a column get it from the ALTER TABLE statements
+-- after their CREATE TABLE, and every policy is dropped before it is (re)created.
 -- =============================================================================
 
 -- Enable UUID extension
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+-- Trigram indexes for name search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- -----------------------------------------------------------------------------
+-- TABLE: moderators (who may work the moderation queue)
+-- Granted by hand with the service role: INSERT INTO public.moderators (user_id) VALUES ('<auth user id>');
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.moderators (
+    user_id         uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    granted_at      timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.moderators ENABLE ROW LEVEL SECURITY;
+
+-- Users can only find out whether they are a moderator themselves.
+DROP POLICY IF EXISTS "moderators_self_select" ON public.moderators;
+CREATE POLICY "moderators_self_select" ON public.moderators FOR SELECT TO authenticated USING (auth.uid() = user_id);
+REVOKE INSERT, UPDATE, DELETE ON public.moderators FROM anon, authenticated;
+
+-- SECURITY DEFINER so policies on other tables can ask without seeing the whole table.
+CREATE OR REPLACE FUNCTION public.is_moderator()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (SELECT 1 FROM public.moderators WHERE user_id = auth.uid());
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_moderator() TO anon, authenticated;
 
 -- -----------------------------------------------------------------------------
 -- TABLE: deaths
@@ -12,17 +45,19 @@ CREATE TABLE IF NOT EXISTS public.deaths (
     id              uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
     user_id         uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
     character_name  text NOT NULL,
-    class_id        int NOT NULL,
+    class_id        int NOT NULL DEFAULT 0,
     level           int NOT NULL,
     damage_taken    numeric,
-    career_seconds  numeric,
+    career_seconds  numeric NOT NULL DEFAULT 0,
     career_runs     int,
-    career_kills    int,
+    career_kills    int NOT NULL DEFAULT 0,
     career_elite_kills int,
     career_bosses   int,
     career_gold     bigint,
     career_soulstones int,
     mourned_by      text,
+    -- Optional line engraved on the stone, sanitized by src/lib/sanitize.ts (sanitizeEpitaph).
+    epitaph         text,
     skill_ids       integer[] DEFAULT ARRAY[0,0,0,0,0]::integer[],
     
     -- Last Run Stats
@@ -34,46 +69,716 @@ CREATE TABLE IF NOT EXISTS public.deaths (
     last_run_gold           bigint,
     last_run_damage_dealt   numeric,
     last_run_duration       numeric,
+    last_run_damage_type    int,
 
     is_hardcore     boolean NOT NULL DEFAULT true,
     death_date      timestamptz NOT NULL DEFAULT now(),
     unique_hash TEXT NOT NULL UNIQUE,
+    -- Canonical fingerprint of the death itself (src/lib/hash.ts), unique across all users.
+    -- NULL for heroes buried before fingerprints existed.
+    fingerprint     text UNIQUE,
     respects_paid   int NOT NULL DEFAULT 0,
     report_count    int NOT NULL DEFAULT 0,
 
+    -- Plausibility review (see src/plausibilityRules.ts), and moderation of reported heroes
+    review_status   text NOT NULL DEFAULT 'approved',
+    review_reasons  text[] NOT NULL DEFAULT '{}',
+    -- Last time a moderator restored or removed the hero; only reports filed after it count towards hiding it again.
+    reviewed_at     timestamptz,
+
     CONSTRAINT deaths_hardcore_only CHECK (is_hardcore = true),
     CONSTRAINT deaths_level_positive CHECK (level >= 0),
-    CONSTRAINT deaths_name_length CHECK (length(character_name) <= 50)
+    CONSTRAINT deaths_name_length CHECK (length(character_name) <= 50),
+    CONSTRAINT deaths_epitaph_length CHECK (length(epitaph) BETWEEN 1 AND 80),
+    -- The sanitizer's character set, plus the asterisks the profanity filter masks words with.
+    CONSTRAINT deaths_epitaph_charset CHECK (epitaph ~ '^[A-Za-z0-9 _''".,!?:;()*-]*$'),
+    CONSTRAINT deaths_review_status CHECK (review_status IN ('approved', 'pending', 'rejected'))
 );
 
+-- Upgrades databases created before the columns above existed (CREATE TABLE IF NOT EXISTS skips an existing table).
+-- Keep in step with the table definition; every statement is a no-op once applied.
+ALTER TABLE public.deaths
+    ALTER COLUMN class_id SET DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS epitaph text,
+    ADD COLUMN IF NOT EXISTS last_run_damage_type int,
+    ADD COLUMN IF NOT EXISTS fingerprint text,
+    ADD COLUMN IF NOT EXISTS review_status text NOT NULL DEFAULT 'approved',
+    ADD COLUMN IF NOT EXISTS review_reasons text[] NOT NULL DEFAULT '{}',
+    ADD COLUMN IF NOT EXISTS reviewed_at timestamptz;
+
+-- The Graveyard sorts by these, so they are never NULL (old rows count as 0).
+UPDATE public.deaths SET career_seconds = 0 WHERE career_seconds IS NULL;
+UPDATE public.deaths SET career_kills = 0 WHERE career_kills IS NULL;
+ALTER TABLE public.deaths
+    ALTER COLUMN career_seconds SET DEFAULT 0,
+    ALTER COLUMN career_seconds SET NOT NULL,
+    ALTER COLUMN career_kills SET DEFAULT 0,
+    ALTER COLUMN career_kills SET NOT NULL;
+
+-- Constraints have no IF NOT EXISTS; the names are the ones CREATE TABLE gives them.
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conrelid = 'public.deaths'::regclass AND conname = 'deaths_fingerprint_key') THEN
+        ALTER TABLE public.deaths ADD CONSTRAINT deaths_fingerprint_key UNIQUE (fingerprint);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conrelid = 'public.deaths'::regclass AND conname = 'deaths_epitaph_length') THEN
+        ALTER TABLE public.deaths ADD CONSTRAINT deaths_epitaph_length CHECK (length(epitaph) BETWEEN 1 AND 80);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conrelid = 'public.deaths'::regclass AND conname = 'deaths_epitaph_charset') THEN
+        ALTER TABLE public.deaths ADD CONSTRAINT deaths_epitaph_charset CHECK (epitaph ~ '^[A-Za-z0-9 _''".,!?:;()*-]*$');
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conrelid = 'public.deaths'::regclass AND conname = 'deaths_review_status') THEN
+        ALTER TABLE public.deaths ADD CONSTRAINT deaths_review_status CHECK (review_status IN ('approved', 'pending', 'rejected'));
+    END IF;
+END;
+$$;
+
 -- Indexes
 CREATE INDEX IF NOT EXISTS idx_deaths_user_id ON public.deaths(user_id);
-CREATE INDEX IF NOT EXISTS idx_deaths_death_date ON public.deaths(death_date DESC);
+-- One (sort key, id) index per Graveyard sort, matching the keyset cursor of graveyard_page().
+-- Ascending and descending scans share the same index.
+CREATE INDEX IF NOT EXISTS idx_deaths_death_date_id ON public.deaths(death_date DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_deaths_respects ON public.deaths(respects_paid DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_deaths_career_kills ON public.deaths(career_kills DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_deaths_career_seconds ON public.deaths(career_seconds DESC, id DESC);
+-- Substring search on hero and mourner names.
+CREATE INDEX IF NOT EXISTS idx_deaths_character_name_trgm ON public.deaths USING gin (character_name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_deaths_mourned_by_trgm ON public.deaths USING gin (mourned_by gin_trgm_ops);
+-- Advanced filters: level range and "used skill X".
+CREATE INDEX IF NOT EXISTS idx_deaths_level ON public.deaths(level);
+CREATE INDEX IF NOT EXISTS idx_deaths_skill_ids ON public.deaths USING gin (skill_ids);
 CREATE INDEX IF NOT EXISTS idx_deaths_unique_hash ON public.deaths(unique_hash);
+CREATE INDEX IF NOT EXISTS idx_deaths_review_pending ON public.deaths(death_date) WHERE review_status = 'pending';
+-- Superseded by idx_deaths_death_date_id.
+DROP INDEX IF EXISTS public.idx_deaths_death_date;
 
 -- RLS
 ALTER TABLE public.deaths ENABLE ROW LEVEL SECURITY;
 
-CREATE POLICY "deaths_public_select" ON public.deaths FOR SELECT USING (true);
-CREATE POLICY "deaths_auth_insert" ON public.deaths FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
-CREATE POLICY "deaths_auth_update" ON public.deaths FOR UPDATE TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+-- Heroes flagged by the plausibility engine or hidden by reports stay off the public leaderboard until reviewed.
+-- Owners and moderators still see them (is_moderator() is defined with the moderators table below).
+DROP POLICY IF EXISTS "deaths_public_select" ON public.deaths;
+CREATE POLICY "deaths_public_select" ON public.deaths FOR SELECT
+    USING (review_status = 'approved' OR auth.uid() = user_id OR public.is_moderator());
+-- No INSERT policy: burials go through the `bury-hero` Edge Function, which re-validates
+-- the raw save and inserts with the service role.
+DROP POLICY IF EXISTS "deaths_auth_insert" ON public.deaths;
+REVOKE INSERT ON public.deaths FROM anon, authenticated;
+-- No direct UPDATE either: owners edit their heroes through the `edit-hero` Edge Function,
+-- which checks ownership and applies the same sanitization as a burial.
+DROP POLICY IF EXISTS "deaths_auth_update" ON public.deaths;
+REVOKE UPDATE ON public.deaths FROM anon, authenticated;
+DROP POLICY IF EXISTS "deaths_owner_delete" ON public.deaths;
 CREATE POLICY "deaths_owner_delete" ON public.deaths FOR DELETE TO authenticated USING (auth.uid() = user_id);
 
+-- Live Graveyard: Realtime streams burials and respect counts to the browser (src/lib/graveyardFeed.ts).
+-- Realtime checks each change against the select policy above, so held heroes only reach their owner and moderators.
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'deaths'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.deaths;
+    END IF;
+END;
+$$;
+
+-- -----------------------------------------------------------------------------
+-- FUNCTION: graveyard_page (paginated, sorted, searched and filtered Graveyard listing)
+-- Keyset pagination: pass the sort value and id of the last row received to get the next page.
+-- Every filter is optional (NULL = not applied) and they combine with AND.
+-- SECURITY INVOKER, so the deaths RLS policies still decide which heroes are visible. Moderators can read held
+-- heroes too, but the listing only ever adds the caller's own held heroes to the approved ones.
+-- -----------------------------------------------------------------------------
+DROP FUNCTION IF EXISTS public.graveyard_page(text, text, text, uuid, int);
+
+CREATE OR REPLACE FUNCTION public.graveyard_page(
+    p_sort          text DEFAULT 'latest',
+    p_search        text DEFAULT NULL,
+    p_cursor_value  text DEFAULT NULL,
+    p_cursor_id     uuid DEFAULT NULL,
+    p_limit         int  DEFAULT 24,
+    p_min_level     int  DEFAULT NULL,
+    p_max_level     int  DEFAULT NULL,
+    p_damage_type   int  DEFAULT NULL,
+    p_skill_id      int  DEFAULT NULL,
+    p_died_after    timestamptz DEFAULT NULL,
+    p_died_before   timestamptz DEFAULT NULL,
+    p_min_kills     int  DEFAULT NULL,
+    p_min_bosses    int  DEFAULT NULL
+)
+RETURNS SETOF public.deaths
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+    sort_column text;
+    sort_type   text;
+    descending  boolean := true;
+    pattern     text;
+BEGIN
+    CASE p_sort
+        WHEN 'latest'        THEN sort_column := 'death_date';     sort_type := 'timestamptz';
+        WHEN 'respects'      THEN sort_column := 'respects_paid';  sort_type := 'int';
+        WHEN 'kills'         THEN sort_column := 'career_kills';   sort_type := 'int';
+        WHEN 'playtime_high' THEN sort_column := 'career_seconds'; sort_type := 'numeric';
+        WHEN 'playtime_low'  THEN sort_column := 'career_seconds'; sort_type := 'numeric'; descending := false;
+        ELSE RAISE EXCEPTION 'Unknown sort: %', p_sort USING ERRCODE = '22023';
+    END CASE;
+
+    -- Substring match on hero or mourner name, with LIKE wildcards in the search taken literally.
+    IF nullif(trim(p_search), '') IS NOT NULL THEN
+        pattern := '%' || replace(replace(replace(trim(p_search), '\', '\\'), '%', '\%'), '_', '\_') || '%';
+    END IF;
+
+    RETURN QUERY EXECUTE format(
+        'SELECT * FROM public.deaths d
+          WHERE (d.review_status = ''approved'' OR d.user_id = auth.uid())
+            AND ($1::text IS NULL OR d.character_name ILIKE $1 OR d.mourned_by ILIKE $1)
+            AND ($2::text IS NULL OR (d.%1$I, d.id) %2$s ($2::%3$s, $3))
+            AND ($5::int IS NULL OR d.level >= $5)
+            AND ($6::int IS NULL OR d.level <= $6)
+            AND ($7::int IS NULL OR d.last_run_damage_type = $7)
+            AND ($8::int IS NULL OR d.skill_ids @> ARRAY[$8])
+            AND ($9::timestamptz IS NULL OR d.death_date >= $9)
+            AND ($10::timestamptz IS NULL OR d.death_date < $10)
+            AND ($11::int IS NULL OR d.career_kills >= $11)
+            AND ($12::int IS NULL OR d.career_bosses >= $12)
+          ORDER BY d.%1$I %4$s, d.id %4$s
+          LIMIT $4',
+        sort_column,
+        CASE WHEN descending THEN '<' ELSE '>' END,
+        sort_type,
+        CASE WHEN descending THEN 'DESC' ELSE 'ASC' END
+    )
+    USING pattern, p_cursor_value, p_cursor_id, least(greatest(p_limit, 1), 100),
+          p_min_level, p_max_level, p_damage_type, p_skill_id,
+          p_died_after, p_died_before, p_min_kills, p_min_bosses;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.graveyard_page(text, text, text, uuid, int, int, int, int, int, timestamptz, timestamptz, int, int)
+    TO anon, authenticated;
+
 -- -----------------------------------------------------------------------------
--- TABLE: death_respects
+-- TABLE: death_respects (who lit a candle for whom)
+-- deaths.respects_paid is the count of these rows, kept in step by pay_respects() / take_back_respects().
 -- -----------------------------------------------------------------------------
 CREATE TABLE IF NOT EXISTS public.death_respects (
     id              uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
     death_id        uuid NOT NULL REFERENCES public.deaths(id) ON DELETE CASCADE,
     user_id         uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    -- Display name at the time, like deaths.mourned_by. NULL for respects paid before names were kept.
+    mourner_name    text,
     created_at      timestamptz NOT NULL DEFAULT now(),
     UNIQUE(death_id, user_id)
 );
 
-CREATE INDEX IF NOT EXISTS idx_death_respects_death_id ON public.death_respects(death_id);
+ALTER TABLE public.death_respects ADD COLUMN IF NOT EXISTS mourner_name text;
+
+CREATE INDEX IF NOT EXISTS idx_death_respects_death_id_created_at ON public.death_respects(death_id, created_at DESC);
+-- Superseded by idx_death_respects_death_id_created_at.
+DROP INDEX IF EXISTS public.idx_death_respects_death_id;
 CREATE INDEX IF NOT EXISTS idx_death_respects_user_id ON public.death_respects(user_id);
 
 ALTER TABLE public.death_respects ENABLE ROW LEVEL SECURITY;
 
+DROP POLICY IF EXISTS "death_respects_public_select" ON public.death_respects;
 CREATE POLICY "death_respects_public_select" ON public.death_respects FOR SELECT USING (true);
-CREATE POLICY "death_respects_auth_insert" ON public.death_respects FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+-- Respects are paid and taken back only through the functions below, so the counter cannot drift.
+DROP POLICY IF EXISTS "death_respects_auth_insert" ON public.death_respects;
+REVOKE INSERT, UPDATE, DELETE ON public.death_respects FROM anon, authenticated;
+
+-- -----------------------------------------------------------------------------
+-- FUNCTION: pay_respects
+-- Lights the caller's candle for a hero and returns the hero's new respect count.
+-- Idempotent: paying twice keeps the first candle and returns the unchanged count.
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.pay_respects(row_id uuid)
+RETURNS int
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    caller  uuid := auth.uid();
+    total   int;
+BEGIN
+    IF caller IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to pay respects.' USING ERRCODE = '42501';
+    END IF;
+
+    -- Locking the hero serializes concurrent candles, so the recount below never misses one.
+    PERFORM 1 FROM public.deaths WHERE id = row_id AND review_status = 'approved' FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'No hero rests here.' USING ERRCODE = 'P0002';
+    END IF;
+
+    -- Same display name rule as the Edge Functions (supabase/functions/_shared/http.ts).
+    INSERT INTO public.death_respects (death_id, user_id, mourner_name)
+    SELECT row_id, u.id, coalesce(nullif(u.raw_user_meta_data->>'username', ''), nullif(split_part(u.email, '@', 1), ''), 'Unknown Soul')
+      FROM auth.users u
+     WHERE u.id = caller
+    ON CONFLICT (death_id, user_id) DO NOTHING;
+
+    UPDATE public.deaths
+       SET respects_paid = (SELECT count(*) FROM public.death_respects WHERE death_id = row_id)
+     WHERE id = row_id
+    RETURNING respects_paid INTO total;
+
+    RETURN total;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.pay_respects(uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.pay_respects(uuid) TO authenticated;
+
+-- -----------------------------------------------------------------------------
+-- FUNCTION: take_back_respects
+-- Snuffs the caller's candle and returns the hero's new respect count. A no-op when they had not paid.
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.take_back_respects(row_id uuid)
+RETURNS int
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    caller  uuid := auth.uid();
+    total   int;
+BEGIN
+    IF caller IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to take back respects.' USING ERRCODE = '42501';
+    END IF;
+
+    PERFORM 1 FROM public.deaths WHERE id = row_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'No hero rests here.' USING ERRCODE = 'P0002';
+    END IF;
+
+    DELETE FROM public.death_respects WHERE death_id = row_id AND user_id = caller;
+
+    UPDATE public.deaths
+       SET respects_paid = (SELECT count(*) FROM public.death_respects WHERE death_id = row_id)
+     WHERE id = row_id
+    RETURNING respects_paid INTO total;
+
+    RETURN total;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.take_back_respects(uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.take_back_respects(uuid) TO authenticated;
+
+-- -----------------------------------------------------------------------------
+-- TABLE: death_runs (one row per pastRunsData entry, career timeline)
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.death_runs (
+    id              uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    death_id        uuid NOT NULL REFERENCES public.deaths(id) ON DELETE CASCADE,
+    run_index       int NOT NULL,
+    level           int NOT NULL DEFAULT 0,
+    kills           int NOT NULL DEFAULT 0,
+    regular_kills   int NOT NULL DEFAULT 0,
+    elite_kills     int NOT NULL DEFAULT 0,
+    boss_kills      int NOT NULL DEFAULT 0,
+    gold            bigint NOT NULL DEFAULT 0,
+    soulstones      int NOT NULL DEFAULT 0,
+    damage_dealt    numeric NOT NULL DEFAULT 0,
+    run_time        numeric NOT NULL DEFAULT 0,
+    damage_type     int,
+    UNIQUE(death_id, run_index),
+
+    CONSTRAINT death_runs_index_positive CHECK (run_index >= 0)
+);
+
+-- UNIQUE(death_id, run_index) already indexes lookups by death.
+DROP INDEX IF EXISTS public.idx_death_runs_death_id;
+
+ALTER TABLE public.death_runs ENABLE ROW LEVEL SECURITY;
+
+-- Readable wherever the hero is: the subquery runs under the deaths select policy, so held heroes keep their runs hidden.
+DROP POLICY IF EXISTS "death_runs_public_select" ON public.death_runs;
+CREATE POLICY "death_runs_public_select" ON public.death_runs FOR SELECT
+    USING (EXISTS (SELECT 1 FROM public.deaths d WHERE d.id = death_id));
+-- Written only by the `bury-hero` Edge Function (service role), alongside its death.
+DROP POLICY IF EXISTS "death_runs_owner_insert" ON public.death_runs;
+REVOKE INSERT, UPDATE, DELETE ON public.death_runs FROM anon, authenticated;
+
+-- -----------------------------------------------------------------------------
+-- FUNCTION: bury_death
+-- Inserts a death and its runs in one transaction, so a hero is never left without its career timeline.
+-- Called only by the `bury-hero` Edge Function (service role) with rows it derived from the raw save.
+-- A fingerprint or unique_hash collision raises unique_violation (23505), which the function reports as a duplicate.
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.bury_death(p_death jsonb, p_runs jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+VOLATILE
+SET search_path = public
+AS $$
+DECLARE
+    new_id  uuid;
+BEGIN
+    INSERT INTO public.deaths (
+        user_id, mourned_by, character_name, epitaph, level, damage_taken,
+        career_seconds, career_runs, career_kills, career_elite_kills, career_bosses, career_gold, career_soulstones,
+        skill_ids,
+        last_run_kills, last_run_soulstones, last_run_regular_kills, last_run_elite_kills, last_run_boss_kills,
+        last_run_gold, last_run_damage_dealt, last_run_duration, last_run_damage_type,
+        unique_hash, fingerprint, review_status, review_reasons
+    )
+    SELECT d.user_id, d.mourned_by, d.character_name, d.epitaph, d.level, d.damage_taken,
+           d.career_seconds, d.career_runs, d.career_kills, d.career_elite_kills, d.career_bosses, d.career_gold, d.career_soulstones,
+           d.skill_ids,
+           d.last_run_kills, d.last_run_soulstones, d.last_run_regular_kills, d.last_run_elite_kills, d.last_run_boss_kills,
+           d.last_run_gold, d.last_run_damage_dealt, d.last_run_duration, d.last_run_damage_type,
+           d.unique_hash, d.fingerprint, coalesce(d.review_status, 'approved'), coalesce(d.review_reasons, '{}')
+      FROM jsonb_populate_record(NULL::public.deaths, p_death) d
+    RETURNING id INTO new_id;
+
+    INSERT INTO public.death_runs (
+        death_id, run_index, level, kills, regular_kills, elite_kills, boss_kills, gold, soulstones, damage_dealt, run_time, damage_type
+    )
+    SELECT new_id, r.run_index, r.level, r.kills, r.regular_kills, r.elite_kills, r.boss_kills, r.gold, r.soulstones,
+           r.damage_dealt, r.run_time, r.damage_type
+      FROM jsonb_populate_recordset(NULL::public.death_runs, coalesce(p_runs, '[]'::jsonb)) r;
+
+    RETURN new_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.bury_death(jsonb, jsonb) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.bury_death(jsonb, jsonb) TO service_role;
+
+-- -----------------------------------------------------------------------------
+-- TABLE: mausoleum (softcore and still-living characters)
+-- Kept apart from `deaths` so the Hardcore rankings stay pure.
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.mausoleum (
+    id              uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id         uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    character_name  text NOT NULL,
+    kept_by         text,
+    level           int NOT NULL,
+    is_hardcore     boolean NOT NULL,
+    total_deaths    int NOT NULL DEFAULT 0,
+    career_seconds  numeric,
+    career_runs     int,
+    career_kills    int,
+    career_elite_kills int,
+    career_bosses   int,
+    career_gold     bigint,
+    career_soulstones int,
+    skill_ids       integer[] DEFAULT ARRAY[]::integer[],
+    archived_at     timestamptz NOT NULL DEFAULT now(),
+    unique_hash     text NOT NULL UNIQUE,
+
+    -- Fallen Hardcore heroes belong in `deaths`.
+    CONSTRAINT mausoleum_no_hardcore_deaths CHECK (NOT is_hardcore OR total_deaths = 0),
+    CONSTRAINT mausoleum_level_positive CHECK (level >= 0),
+    CONSTRAINT mausoleum_name_length CHECK (length(character_name) <= 50)
+);
+
+CREATE INDEX IF NOT EXISTS idx_mausoleum_user_id ON public.mausoleum(user_id);
+CREATE INDEX IF NOT EXISTS idx_mausoleum_archived_at ON public.mausoleum(archived_at DESC);
+
+ALTER TABLE public.mausoleum ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "mausoleum_public_select" ON public.mausoleum;
+CREATE POLICY "mausoleum_public_select" ON public.mausoleum FOR SELECT USING (true);
+DROP POLICY IF EXISTS "mausoleum_owner_delete" ON public.mausoleum;
+CREATE POLICY "mausoleum_owner_delete" ON public.mausoleum FOR DELETE TO authenticated USING (auth.uid() = user_id);
+-- Inserted only by the `archive-hero` Edge Function (service role).
+REVOKE INSERT ON public.mausoleum FROM anon, authenticated;
+
+-- -----------------------------------------------------------------------------
+-- TABLE: death_reports (one report per user per death)
+-- Filed through report_death(), which keeps deaths.report_count in step and hides heroes past the threshold.
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.death_reports (
+    id              uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    death_id        uuid NOT NULL REFERENCES public.deaths(id) ON DELETE CASCADE,
+    user_id         uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    reason          text NOT NULL,
+    created_at      timestamptz NOT NULL DEFAULT now(),
+    UNIQUE(death_id, user_id),
+
+    -- Same ids as REPORT_REASONS in src/lib/moderation.ts
+    CONSTRAINT death_reports_reason CHECK (reason IN ('offensive_name', 'fake_save', 'duplicate'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_death_reports_death_id ON public.death_reports(death_id);
+
+ALTER TABLE public.death_reports ENABLE ROW LEVEL SECURITY;
+
+-- Reporters see their own reports (so the card knows it was reported); moderators see all of them.
+DROP POLICY IF EXISTS "death_reports_select" ON public.death_reports;
+CREATE POLICY "death_reports_select" ON public.death_reports FOR SELECT TO authenticated
+    USING (auth.uid() = user_id OR public.is_moderator());
+REVOKE INSERT, UPDATE, DELETE ON public.death_reports FROM anon, authenticated;
+
+-- -----------------------------------------------------------------------------
+-- FUNCTION: report_death
+-- Files (or, for a repeat report, changes the reason of) the caller's report and recounts deaths.report_count.
+-- Once REPORT_THRESHOLD users have reported an approved hero since its last review, it goes back to 'pending',
+-- which hides it from the Graveyard until a moderator restores or removes it.
+-- Returns whether the hero is now hidden.
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.report_death(p_death_id uuid, p_reason text)
+RETURNS boolean
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    report_threshold constant int := 3;
+    hero        public.deaths%ROWTYPE;
+    fresh       int;
+    hidden      boolean;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to report a hero.' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO hero FROM public.deaths WHERE id = p_death_id FOR UPDATE;
+    IF NOT FOUND OR (hero.review_status <> 'approved' AND NOT public.is_moderator()) THEN
+        RAISE EXCEPTION 'No hero rests here.' USING ERRCODE = 'P0002';
+    END IF;
+
+    INSERT INTO public.death_reports (death_id, user_id, reason)
+    VALUES (p_death_id, auth.uid(), p_reason)
+    ON CONFLICT (death_id, user_id) DO UPDATE SET reason = EXCLUDED.reason;
+
+    SELECT count(*) FILTER (WHERE hero.reviewed_at IS NULL OR r.created_at > hero.reviewed_at)
+      INTO fresh
+      FROM public.death_reports r
+     WHERE r.death_id = p_death_id;
+
+    UPDATE public.deaths
+       SET report_count = (SELECT count(*) FROM public.death_reports WHERE death_id = p_death_id),
+           review_status = CASE WHEN review_status = 'approved' AND fresh >= report_threshold THEN 'pending' ELSE review_status END,
+           review_reasons = CASE
+               WHEN review_status = 'approved' AND fresh >= report_threshold
+               THEN ARRAY[format('Reported by %s users', fresh)]
+               ELSE review_reasons
+           END
+     WHERE id = p_death_id
+    RETURNING review_status <> 'approved' INTO hidden;
+
+    RETURN hidden;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.report_death(uuid, text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.report_death(uuid, text) TO authenticated;
+
+-- -----------------------------------------------------------------------------
+-- FUNCTION: moderate_death
+-- The moderation queue's verdict on a held hero: 'restore' puts it back on the Graveyard,
+-- 'remove' rejects it (hidden for good, though its owner still sees it under My Dead).
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.moderate_death(p_death_id uuid, p_action text)
+RETURNS void
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.is_moderator() THEN
+        RAISE EXCEPTION 'Only moderators can review heroes.' USING ERRCODE = '42501';
+    END IF;
+    IF p_action NOT IN ('restore', 'remove') THEN
+        RAISE EXCEPTION 'Unknown moderation action: %', p_action USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE public.deaths
+       SET review_status = CASE p_action WHEN 'restore' THEN 'approved' ELSE 'rejected' END,
+           reviewed_at = now()
+     WHERE id = p_death_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'No hero rests here.' USING ERRCODE = 'P0002';
+    END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.moderate_death(uuid, text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.moderate_death(uuid, text) TO authenticated;
+
+-- -----------------------------------------------------------------------------
+-- TABLE: death_condolences (short messages left under a hero)
+-- Posted through the `post-condolence` Edge Function, which sanitizes them like epitaphs and inserts with the service role.
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.death_condolences (
+    id              uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    death_id        uuid NOT NULL REFERENCES public.deaths(id) ON DELETE CASCADE,
+    user_id         uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    author_name     text NOT NULL,              -- Display name at the time, like deaths.mourned_by
+    body            text NOT NULL,
+    created_at      timestamptz NOT NULL DEFAULT now(),
+
+    CONSTRAINT death_condolences_body_length CHECK (length(body) BETWEEN 1 AND 200),
+    -- Same character set as deaths.epitaph (sanitizeCondolence in src/lib/sanitize.ts).
+    CONSTRAINT death_condolences_body_charset CHECK (body ~ '^[A-Za-z0-9 _''".,!?:;()*-]*$')
+);
+
+CREATE INDEX IF NOT EXISTS idx_death_condolences_death_id ON public.death_condolences(death_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_death_condolences_user_id ON public.death_condolences(user_id);
+
+ALTER TABLE public.death_condolences ENABLE ROW LEVEL SECURITY;
+
+-- Readable wherever the hero is: the subquery runs under the deaths select policy.
+DROP POLICY IF EXISTS "death_condolences_public_select" ON public.death_condolences;
+CREATE POLICY "death_condolences_public_select" ON public.death_condolences FOR SELECT
+    USING (EXISTS (SELECT 1 FROM public.deaths d WHERE d.id = death_id));
+REVOKE INSERT, UPDATE ON public.death_condolences FROM anon, authenticated;
+-- Authors can withdraw their own message; owners can clear any message left under their dead.
+DROP POLICY IF EXISTS "death_condolences_delete" ON public.death_condolences;
+CREATE POLICY "death_condolences_delete" ON public.death_condolences FOR DELETE TO authenticated
+    USING (
+        auth.uid() = user_id
+        OR EXISTS (SELECT 1 FROM public.deaths d WHERE d.id = death_id AND d.user_id = auth.uid())
+    );
+
+-- -----------------------------------------------------------------------------
+-- TABLE: profiles (one per signed-in user, for the /mourner/<id> pages)
+-- Kept in step with the Discord metadata on auth.users by sync_profile(); clients only read it.
+-- deaths.mourned_by stays a copy of the name at burial time, so old stones keep the name they were buried under.
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.profiles (
+    id              uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    display_name    text NOT NULL,
+    avatar_url      text,
+    created_at      timestamptz NOT NULL DEFAULT now(),
+    updated_at      timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "profiles_public_select" ON public.profiles;
+CREATE POLICY "profiles_public_select" ON public.profiles FOR SELECT USING (true);
+REVOKE INSERT, UPDATE, DELETE ON public.profiles FROM anon, authenticated;
+
+-- Same display name rule as the Edge Functions (supabase/functions/_shared/http.ts).
+CREATE OR REPLACE FUNCTION public.sync_profile()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.profiles (id, display_name, avatar_url)
+    VALUES (
+        NEW.id,
+        coalesce(nullif(NEW.raw_user_meta_data->>'username', ''), nullif(split_part(NEW.email, '@', 1), ''), 'Unknown Soul'),
+        coalesce(nullif(NEW.raw_user_meta_data->>'avatar_url', ''), nullif(NEW.raw_user_meta_data->>'picture', ''))
+    )
+    ON CONFLICT (id) DO UPDATE
+        SET display_name = EXCLUDED.display_name,
+            avatar_url = EXCLUDED.avatar_url,
+            updated_at = now();
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_saved ON auth.users;
+CREATE TRIGGER on_auth_user_saved
+    AFTER INSERT OR UPDATE OF email, raw_user_meta_data ON auth.users
+    FOR EACH ROW EXECUTE FUNCTION public.sync_profile();
+
+-- Backfill users who signed up before profiles existed.
+INSERT INTO public.profiles (id, display_name, avatar_url)
+SELECT u.id,
+       coalesce(nullif(u.raw_user_meta_data->>'username', ''), nullif(split_part(u.email, '@', 1), ''), 'Unknown Soul'),
+       coalesce(nullif(u.raw_user_meta_data->>'avatar_url', ''), nullif(u.raw_user_meta_data->>'picture', ''))
+  FROM auth.users u
+ON CONFLICT (id) DO NOTHING;
+
+-- -----------------------------------------------------------------------------
+-- FUNCTION: mourner_stats (aggregates over one user's dead, for their profile page)
+-- Counts the same heroes the Graveyard lists: approved ones, plus the caller's own held heroes on their own page.
+-- SECURITY INVOKER, so the deaths RLS policies still apply.
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.mourner_stats(p_user_id uuid)
+RETURNS TABLE (
+    total_deaths            int,
+    average_level           numeric,
+    total_respects          int,
+    deadliest_damage_type   int,
+    favorite_skills         int[]
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    WITH dead AS (
+        SELECT d.*
+          FROM public.deaths d
+         WHERE d.user_id = p_user_id
+           AND (d.review_status = 'approved' OR d.user_id = auth.uid())
+    )
+    SELECT count(*)::int,
+           round(avg(level), 1),
+           coalesce(sum(respects_paid), 0)::int,
+           -- Saves without a damage type count as Physical, as in census_damage_types.
+           mode() WITHIN GROUP (ORDER BY coalesce(last_run_damage_type, 0)),
+           (
+               SELECT coalesce(array_agg(skill_id ORDER BY uses DESC, skill_id), '{}')
+                 FROM (
+                     SELECT skill_id, count(*) AS uses
+                       FROM dead, unnest(dead.skill_ids) AS skill_id
+                      WHERE skill_id > 0
+                      GROUP BY skill_id
+                      ORDER BY uses DESC, skill_id
+                      LIMIT 3
+                 ) top
+           )
+      FROM dead;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.mourner_stats(uuid) TO anon, authenticated;
+
+-- -----------------------------------------------------------------------------
+-- VIEWS: census_* ("The Census of the Dead", the global statistics page)
+-- Aggregated in Postgres so the page downloads a few dozen rows instead of every death.
+-- Only approved heroes count. security_invoker keeps the deaths RLS policies in force for the caller.
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE VIEW public.census_deaths_per_day WITH (security_invoker = true) AS
+SELECT (d.death_date AT TIME ZONE 'UTC')::date AS day,
+       count(*)::int                          AS deaths
+  FROM public.deaths d
+ WHERE d.review_status = 'approved'
+ GROUP BY 1;
+
+CREATE OR REPLACE VIEW public.census_levels WITH (security_invoker = true) AS
+SELECT d.level,
+       count(*)::int AS deaths
+  FROM public.deaths d
+ WHERE d.review_status = 'approved'
+ GROUP BY d.level;
+
+-- Saves without a damage type read as Physical, as on the tombstones (src/lib/damageTypes.ts).
+CREATE OR REPLACE VIEW public.census_damage_types WITH (security_invoker = true) AS
+SELECT coalesce(d.last_run_damage_type, 0) AS damage_type,
+       count(*)::int                        AS deaths
+  FROM public.deaths d
+ WHERE d.review_status = 'approved'
+ GROUP BY 1;
+
+CREATE OR REPLACE VIEW public.census_summary WITH (security_invoker = true) AS
+SELECT count(*)::int                                                 AS total_deaths,
+       percentile_cont(0.5) WITHIN GROUP (ORDER BY d.career_seconds) AS median_career_seconds,
+       avg(d.career_runs)                                            AS average_runs,
+       avg(d.level)                                                  AS average_level
+  FROM public.deaths d
+ WHERE d.review_status = 'approved';
+
+GRANT SELECT ON public.census_deaths_per_day, public.census_levels, public.census_damage_types, public.census_summary
+    TO anon, authenticated;